@@ -1,18 +1,33 @@
 /**
  * History Screen
  *
- * Displays a list of past focus sessions, allowing users to filter by
- * timeframe, task type, and energy level.
+ * Displays past focus sessions a page at a time, allowing users to filter by
+ * timeframe, task type, and energy level, and to log sessions that
+ * happened away from the app.
  */
 import HistoryFilterModal from "@/components/HistoryFilterModal";
+import LogSessionModal from "@/components/LogSessionModal";
 import SessionHistoryItem from "@/components/SessionHistoryItem";
 import Colors from "@/constants/colors";
 import { RADIUS, SPACING, TYPOGRAPHY } from "@/constants/layout";
 import { DEFAULT_TASKS } from "@/constants/timer";
 import { useThemeColor } from "@/hooks/useThemeColor";
+import { SessionFilter } from "@/services/database";
+import {
+  HISTORY_PAGE_SIZE,
+  loadSessionPage,
+  ManualSessionInput,
+} from "@/services/sessionService";
 import useTimerStore from "@/store/timerStore";
-import { Filter, History } from "lucide-react-native";
-import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Session } from "@/types";
+import { Filter, History, Plus } from "lucide-react-native";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
   ActivityIndicator,
   FlatList,
@@ -29,9 +44,17 @@ export default function HistoryScreen() {
   const activeColors = useThemeColor();
   const insets = useSafeAreaInsets();
 
-  const { sessions, isLoading, loadSessions, previousTasks } = useTimerStore();
+  const {
+    sessions,
+    isLoading,
+    previousTasks,
+    taskType,
+    logManualSession,
+    showThemedAlert,
+  } = useTimerStore();
   const [filterPeriod, setFilterPeriod] = useState<FilterPeriod>("week");
   const [showFilterModal, setShowFilterModal] = useState(false);
+  const [showLogModal, setShowLogModal] = useState(false);
   const [selectedTaskTypes, setSelectedTaskTypes] = useState<string[]>([]);
   const [selectedEnergyLevels, setSelectedEnergyLevels] = useState<string[]>(
     [],
@@ -47,59 +70,70 @@ export default function HistoryScreen() {
     ).sort();
   }, [sessions, previousTasks]);
 
-  //refresh sessions when the screen is focused
-  useEffect(() => {
-    loadSessions();
-  }, []);
-
-  const filteredSessions = useMemo(() => {
+  // Period and chips become a database filter
+  const filter = useMemo<SessionFilter>(() => {
     const now = new Date();
-    const todayStart = new Date(
-      now.getFullYear(),
-      now.getMonth(),
-      now.getDate(),
-    );
-
-    let filtered = sessions;
-
+    let since: Date;
     if (filterPeriod === "day") {
-      filtered = sessions.filter((s) => new Date(s.createdAt) >= todayStart);
-    } else if (filterPeriod === "week") {
-      const oneWeekAgo = new Date(now);
-      oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-      filtered = sessions.filter((s) => new Date(s.createdAt) >= oneWeekAgo);
-    } else if (filterPeriod === "month") {
-      const oneMonthAgo = new Date(now);
-      oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
-      filtered = sessions.filter((s) => new Date(s.createdAt) >= oneMonthAgo);
-    } else if (filterPeriod === "year") {
-      const oneYearAgo = new Date(now);
-      oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-      filtered = sessions.filter((s) => new Date(s.createdAt) >= oneYearAgo);
+      since = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    } else {
+      since = new Date(now);
+      if (filterPeriod === "week") since.setDate(since.getDate() - 7);
+      else if (filterPeriod === "month") since.setMonth(since.getMonth() - 1);
+      else since.setFullYear(since.getFullYear() - 1);
     }
+    return {
+      since: since.toISOString(),
+      taskTypes: selectedTaskTypes,
+      energyLevels: selectedEnergyLevels,
+    };
+  }, [filterPeriod, selectedTaskTypes, selectedEnergyLevels]);
 
-    if (selectedTaskTypes.length > 0) {
-      filtered = filtered.filter((s) => selectedTaskTypes.includes(s.taskType));
-    }
+  const [pagedSessions, setPagedSessions] = useState<Session[]>([]);
+  const [hasMore, setHasMore] = useState(true);
+  const [isPageLoading, setIsPageLoading] = useState(true);
+  const requestId = useRef(0);
 
-    if (selectedEnergyLevels.length > 0) {
-      filtered = filtered.filter((s) =>
-        selectedEnergyLevels.includes(s.energyLevel),
-      );
-    }
+  const loadPage = useCallback(
+    async (after: Session | null) => {
+      const id = ++requestId.current;
+      setIsPageLoading(true);
+      try {
+        const page = await loadSessionPage(filter, after);
+        if (id !== requestId.current) return; // Filters changed meanwhile
+        setPagedSessions((prev) => (after ? [...prev, ...page] : page));
+        setHasMore(page.length === HISTORY_PAGE_SIZE);
+      } catch (error) {
+        console.error("Failed to load history page:", error);
+      } finally {
+        if (id === requestId.current) setIsPageLoading(false);
+      }
+    },
+    [filter],
+  );
 
-    // Sort Descending
-    return filtered.sort(
-      (a, b) =>
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-    );
-  }, [sessions, filterPeriod, selectedTaskTypes, selectedEnergyLevels]);
+  // Start over when filters change or the store saves, edits or deletes
+  useEffect(() => {
+    loadPage(null);
+  }, [loadPage, sessions]);
+
+  const loadMore = () => {
+    if (isPageLoading || !hasMore || pagedSessions.length === 0) return;
+    loadPage(pagedSessions[pagedSessions.length - 1]);
+  };
 
   const handleApplyFilters = (taskTypes: string[], energyLevels: string[]) => {
     setSelectedTaskTypes(taskTypes);
     setSelectedEnergyLevels(energyLevels);
   };
 
+  const handleLogSession = async (input: ManualSessionInput) => {
+    const saved = await logManualSession(input);
+    if (!saved) {
+      showThemedAlert("Could Not Log Session", "Please try again.");
+    }
+  };
+
   const renderItem = useCallback(
     ({ item }: { item: any }) => <SessionHistoryItem session={item} />,
     [],
@@ -122,16 +156,22 @@ export default function HistoryScreen() {
           <Text style={[styles.title, { color: activeColors.text.primary }]}>
             Session History
           </Text>
-          <TouchableOpacity onPress={() => setShowFilterModal(true)}>
-            <Filter
-              size={24}
-              color={
-                selectedTaskTypes.length > 0 || selectedEnergyLevels.length > 0
-                  ? activeColors.primary
-                  : activeColors.text.primary
-              }
-            />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity onPress={() => setShowLogModal(true)}>
+              <Plus size={24} color={activeColors.text.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setShowFilterModal(true)}>
+              <Filter
+                size={24}
+                color={
+                  selectedTaskTypes.length > 0 ||
+                  selectedEnergyLevels.length > 0
+                    ? activeColors.primary
+                    : activeColors.text.primary
+                }
+              />
+            </TouchableOpacity>
+          </View>
         </View>
 
         <View
@@ -167,7 +207,7 @@ export default function HistoryScreen() {
       </View>
 
       <View style={styles.historyContainer}>
-        {isLoading ? (
+        {(isLoading || isPageLoading) && pagedSessions.length === 0 ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color={activeColors.primary} />
             <Text
@@ -179,14 +219,23 @@ export default function HistoryScreen() {
               Loading sessions...
             </Text>
           </View>
-        ) : filteredSessions.length > 0 ? (
+        ) : pagedSessions.length > 0 ? (
           <FlatList
-            data={filteredSessions}
+            data={pagedSessions}
             keyExtractor={(item) => String(item.id)}
             renderItem={renderItem}
             contentContainerStyle={{ paddingBottom: 100 }}
             showsVerticalScrollIndicator={false}
-            windowSize={Number.MAX_SAFE_INTEGER}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              isPageLoading ? (
+                <ActivityIndicator
+                  style={styles.pageLoader}
+                  color={activeColors.primary}
+                />
+              ) : null
+            }
           />
         ) : (
           <View
@@ -221,6 +270,14 @@ export default function HistoryScreen() {
         selectedEnergyLevels={selectedEnergyLevels}
         onApply={handleApplyFilters}
       />
+
+      <LogSessionModal
+        visible={showLogModal}
+        availableTaskTypes={previousTasks}
+        defaultTaskType={taskType}
+        onClose={() => setShowLogModal(false)}
+        onSave={handleLogSession}
+      />
     </View>
   );
 }
@@ -241,6 +298,11 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: SPACING.lg,
   },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: SPACING.lg,
+  },
   title: {
     fontSize: TYPOGRAPHY.size.title,
     fontFamily: "Outfit_700Bold",
@@ -273,6 +335,9 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     paddingVertical: 40,
   },
+  pageLoader: {
+    paddingVertical: SPACING.lg,
+  },
   loadingText: {
     marginTop: SPACING.sm,
     fontSize: TYPOGRAPHY.size.lg,
@@ -2,11 +2,13 @@
  * Timer Screen
  *
  * The main screen of the application. Integrates the Circular Timer,
- * Task/Energy selectors, and handles notification permissions and app state changes.
+ * Task/Energy selectors and goal progress, and handles notification
+ * permissions and app state changes.
  */
 import BreakModal from "@/components/BreakModal";
 import CircularTimer from "@/components/CircularTimer";
 import EnergyLevelSelector from "@/components/EnergyLevelSelector";
+import GoalProgress from "@/components/GoalProgress";
 import RecommendationCard from "@/components/RecommendationCard";
 import SkipConfirmModal from "@/components/SkipConfirmModal";
 import TaskSelector from "@/components/TaskSelector";
@@ -126,6 +128,7 @@ export default function TimerScreen() {
           !userAcceptedRecommendation &&
           !hasDismissedRecommendationCard && <RecommendationCard />}
         <CircularTimer />
+        <GoalProgress tasks={taskType ? [taskType] : []} />
 
         <BreakModal />
         <SkipConfirmModal onConfirmSkip={confirmSkip} />
@@ -2,21 +2,35 @@
  * Performance Screen
  *
  * Provides detailed analytics and objective insights into focus habits,
- * including trends, metrics comparison, and optimal focus duration discovery.
+ * including trends, metrics comparison, per-task and per-mood breakdowns,
+ * goal progress, and optimal focus duration discovery.
  */
 import AdaptiveBarChart from "@/components/AdaptiveBarChart";
+import GoalProgress from "@/components/GoalProgress";
+import SurvivalCurveChart from "@/components/SurvivalCurveChart";
 import { RADIUS, SPACING, TYPOGRAPHY } from "@/constants/layout";
 // import FocusHeatmap from "@/components/FocusHeatmap"; // Preserved for future use
 import Colors, { lightColors } from "@/constants/colors";
 import { useThemeColor } from "@/hooks/useThemeColor";
+import {
+  BreakdownEntry,
+  loadAdaptiveChartData,
+  loadInsights,
+  loadMoodBreakdown,
+  loadPeriodMetrics,
+  loadSurvivalChartData,
+  loadSurvivalTasks,
+  loadTaskBreakdown,
+} from "@/services/analytics";
 import useTimerStore from "@/store/timerStore";
+import { EnergyLevel } from "@/types";
 import { generateInsights } from "@/utils/insightEngine";
 import {
+  AdaptiveChartData,
   calculatePeriodDelta,
-  calculatePeriodMetrics,
   formatMinutes,
-  getAdaptiveChartData,
   getPeriodDates,
+  toSurvivalChartData,
 } from "@/utils/performanceUtils";
 import {
   ArrowDownRight,
@@ -32,7 +46,12 @@ import {
   TrendingUp,
   Zap,
 } from "lucide-react-native";
-import React, { useMemo, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
 import {
   ActivityIndicator,
   ScrollView,
@@ -46,6 +65,62 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 const TimeRanges = ["day", "week", "month", "year"] as const;
 type TimeRange = (typeof TimeRanges)[number];
 
+const EMPTY_CHART: AdaptiveChartData = {
+  labels: [],
+  values: [],
+  maxValue: 1,
+  dateRange: "",
+};
+
+const NO_CHANGE = calculatePeriodDelta(0, 0);
+
+const EMPTY_SURVIVAL = toSurvivalChartData({ low: [], mid: [], high: [] });
+
+const MOOD_LABELS: Record<EnergyLevel, string> = {
+  low: "Relaxed",
+  mid: "Steady",
+  high: "Intense",
+  "": "Unknown",
+};
+
+interface Breakdown {
+  tasks: BreakdownEntry[];
+  moods: BreakdownEntry<EnergyLevel>[];
+}
+
+const EMPTY_METRICS = {
+  totalFocusTime: 0,
+  sessionCount: 0,
+  completionRate: 0,
+  deltas: { focus: NO_CHANGE, sessions: NO_CHANGE, completion: NO_CHANGE },
+};
+
+// One row of the task/mood breakdown
+const BreakdownRow = ({
+  label,
+  entry,
+  colors,
+}: {
+  label: string;
+  entry: BreakdownEntry;
+  colors: typeof lightColors;
+}) => (
+  <View style={styles.breakdownRow}>
+    <Text
+      style={[styles.breakdownLabel, { color: colors.text.primary }]}
+      numberOfLines={1}
+    >
+      {label}
+    </Text>
+    <Text style={[styles.breakdownValue, { color: colors.text.primary }]}>
+      {formatMinutes(entry.focusTime)}
+    </Text>
+    <Text style={[styles.breakdownDetail, { color: colors.text.secondary }]}>
+      {entry.sessions} · {Math.round(entry.completionRate)}%
+    </Text>
+  </View>
+);
+
 // Utility to display trend icons
 const MetricItemWithDelta = ({
   icon,
@@ -101,66 +176,108 @@ export default function PerformanceScreen() {
   const activeColors = useThemeColor();
   const insets = useSafeAreaInsets();
 
-  const { sessions, isLoading } = useTimerStore();
+  const { sessions: allSessions, isLoading } = useTimerStore();
+  const includeManualSessions = useTimerStore((s) => s.includeManualSessions);
+  const focusGoal = useTimerStore((s) => s.focusGoal);
+  const taskGoals = useTimerStore((s) => s.taskGoals);
   const [timeRange, setTimeRange] = useState<TimeRange>("week");
   const [offset, setOffset] = useState(0);
 
   // -- Derived Data --
 
-  // 1. Chart Data
-  const chartData = useMemo(() => {
-    return getAdaptiveChartData(sessions, timeRange, offset);
-  }, [sessions, timeRange, offset]);
+  // 1. Chart Data & 2. Metrics, aggregated in SQLite
+  const [chartData, setChartData] = useState<AdaptiveChartData>(EMPTY_CHART);
+  const [metrics, setMetrics] = useState(EMPTY_METRICS);
+  const [breakdown, setBreakdown] = useState<Breakdown>({
+    tasks: [],
+    moods: [],
+  });
+  const requestId = useRef(0);
 
-  // 2. Metrics
-  const metrics = useMemo(() => {
-    // Current period metrics
+  const loadPeriod = useCallback(async () => {
+    const id = ++requestId.current;
+    const options = { includeManual: includeManualSessions };
     const { startDate, endDate } = getPeriodDates(timeRange, offset);
-    const filteredSessions = sessions.filter((s) => {
-      const d = new Date(s.createdAt || s.date);
-      return d >= startDate && d <= endDate;
-    });
+    try {
+      const [chart, currentMetrics, prevMetrics, tasks, moods] =
+        await Promise.all([
+          loadAdaptiveChartData(timeRange, offset, options),
+          loadPeriodMetrics(timeRange, offset, options),
+          loadPeriodMetrics(timeRange, offset + 1, options),
+          loadTaskBreakdown(options, startDate, endDate),
+          loadMoodBreakdown(options, startDate, endDate),
+        ]);
+      if (id !== requestId.current) return; // Period changed meanwhile
 
-    const currentMetrics = calculatePeriodMetrics(filteredSessions);
+      setChartData(chart);
+      setBreakdown({ tasks, moods });
+      setMetrics({
+        ...currentMetrics,
+        deltas: {
+          focus: calculatePeriodDelta(
+            currentMetrics.totalFocusTime,
+            prevMetrics.totalFocusTime,
+          ),
+          sessions: calculatePeriodDelta(
+            currentMetrics.sessionCount,
+            prevMetrics.sessionCount,
+          ),
+          completion: calculatePeriodDelta(
+            currentMetrics.completionRate,
+            prevMetrics.completionRate,
+          ),
+        },
+      });
+    } catch (error) {
+      console.error("Failed to load performance data:", error);
+    }
+  }, [timeRange, offset, includeManualSessions]);
 
-    // Previous period metrics
-    const { startDate: prevStart, endDate: prevEnd } = getPeriodDates(
-      timeRange,
-      offset + 1,
-    );
-    const prevSessions = sessions.filter((s) => {
-      const d = new Date(s.createdAt || s.date);
-      return d >= prevStart && d <= prevEnd;
-    });
-    const prevMetrics = calculatePeriodMetrics(prevSessions);
-
-    const focusDelta = calculatePeriodDelta(
-      currentMetrics.totalFocusTime,
-      prevMetrics.totalFocusTime,
-    );
-    const sessionsDelta = calculatePeriodDelta(
-      currentMetrics.sessionCount,
-      prevMetrics.sessionCount,
-    );
-    const completionDelta = calculatePeriodDelta(
-      currentMetrics.completionRate,
-      prevMetrics.completionRate,
-    );
+  // Reload when the period changes or the store saves, edits or deletes
+  useEffect(() => {
+    loadPeriod();
+  }, [loadPeriod, allSessions]);
+
+  // 3. Drop-off Curve & 4. Smart Insights, over all history in SQLite;
+  // with a daily goal, streaks count goal days only
+  const [survivalTask, setSurvivalTask] = useState<string | null>(null);
+  const [survivalTasks, setSurvivalTasks] = useState<string[]>([]);
+  const [survivalData, setSurvivalData] = useState(EMPTY_SURVIVAL);
+  const [insights, setInsights] = useState(() => generateInsights([]));
+  const selectedSurvivalTask =
+    survivalTask && survivalTasks.includes(survivalTask)
+      ? survivalTask
+      : survivalTasks[0];
 
-    return {
-      ...currentMetrics,
-      deltas: {
-        focus: focusDelta,
-        sessions: sessionsDelta,
-        completion: completionDelta,
-      },
+  useEffect(() => {
+    let cancelled = false;
+    const options = { includeManual: includeManualSessions };
+    Promise.all([loadSurvivalTasks(options), loadInsights(focusGoal.day, options)])
+      .then(([tasks, data]) => {
+        if (cancelled) return;
+        setSurvivalTasks(tasks);
+        setInsights(data);
+      })
+      .catch((error) => console.error("Failed to load insights:", error));
+    return () => {
+      cancelled = true;
     };
-  }, [sessions, timeRange, offset]);
+  }, [allSessions, includeManualSessions, focusGoal.day]);
 
-  // 3. Smart Insights
-  const insights = useMemo(() => {
-    return generateInsights(sessions);
-  }, [sessions]);
+  useEffect(() => {
+    if (!selectedSurvivalTask) return;
+    let cancelled = false;
+    loadSurvivalChartData(selectedSurvivalTask, {
+      includeManual: includeManualSessions,
+    })
+      .then((data) => {
+        if (!cancelled) setSurvivalData(data);
+      })
+      .catch((error) => console.error("Failed to load drop-off curves:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [allSessions, includeManualSessions, selectedSurvivalTask]);
 
   // Handlers
   const handleRangeChange = (range: TimeRange) => {
@@ -274,6 +391,18 @@ export default function PerformanceScreen() {
           <AdaptiveBarChart data={chartData} />
         </View>
 
+        {/* --- Drop-off Curve --- */}
+        {selectedSurvivalTask && (
+          <View style={{ marginHorizontal: 16 }}>
+            <SurvivalCurveChart
+              data={survivalData}
+              tasks={survivalTasks}
+              selectedTask={selectedSurvivalTask}
+              onSelectTask={setSurvivalTask}
+            />
+          </View>
+        )}
+
         {/* --- Summary Metrics --- */}
         <View
           style={[styles.summaryCard, { backgroundColor: activeColors.card }]}
@@ -331,6 +460,53 @@ export default function PerformanceScreen() {
           </View>
         </View>
 
+        {/* --- Breakdown --- */}
+        {breakdown.tasks.length > 0 && (
+          <View
+            style={[styles.insightsCard, { backgroundColor: activeColors.card }]}
+          >
+            <Text
+              style={[
+                styles.summaryTitle,
+                styles.breakdownTitle,
+                { color: activeColors.text.primary },
+              ]}
+            >
+              By Task
+            </Text>
+            {breakdown.tasks.map((entry) => (
+              <BreakdownRow
+                key={entry.key}
+                label={entry.key}
+                entry={entry}
+                colors={activeColors}
+              />
+            ))}
+
+            <Text
+              style={[
+                styles.summaryTitle,
+                styles.breakdownTitle,
+                styles.breakdownSection,
+                { color: activeColors.text.primary },
+              ]}
+            >
+              By Mood
+            </Text>
+            {breakdown.moods.map((entry) => (
+              <BreakdownRow
+                key={entry.key}
+                label={MOOD_LABELS[entry.key] ?? entry.key}
+                entry={entry}
+                colors={activeColors}
+              />
+            ))}
+          </View>
+        )}
+
+        {/* --- Goals --- */}
+        <GoalProgress tasks={Object.keys(taskGoals)} showHistory />
+
         {/* --- Insights --- */}
         <View
           style={[styles.insightsCard, { backgroundColor: activeColors.card }]}
@@ -660,6 +836,33 @@ const styles = StyleSheet.create({
     fontFamily: "Outfit_700Bold",
     marginLeft: 2,
   },
+  breakdownTitle: {
+    marginBottom: SPACING.sm,
+  },
+  breakdownSection: {
+    marginTop: SPACING.lg,
+  },
+  breakdownRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: SPACING.xs,
+  },
+  breakdownLabel: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.size.md,
+    fontFamily: "Outfit_400Regular",
+  },
+  breakdownValue: {
+    fontSize: TYPOGRAPHY.size.md,
+    fontFamily: "Outfit_600SemiBold",
+    marginLeft: SPACING.sm,
+  },
+  breakdownDetail: {
+    width: 64,
+    textAlign: "right",
+    fontSize: TYPOGRAPHY.size.sm,
+    fontFamily: "Outfit_400Regular",
+  },
   insightsCard: {
     backgroundColor: Colors.card,
     borderRadius: RADIUS.xl,
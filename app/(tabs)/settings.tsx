@@ -1,12 +1,31 @@
 /**
  * Settings Screen
  *
- * Allows users to customize the app theme, toggle notifications,
- * manage session data (export/import), and view app information.
+ * Allows users to customize the app theme, toggle notifications, tune the
+ * coach's burnout protection, set focus goals, pick a recommendation
+ * strategy per task,
+ * manage session data (export/import, coach recalibration, trash), and
+ * view app information.
  */
 import ImportModal from "@/components/ImportModal";
 import { RADIUS, SPACING, TYPOGRAPHY } from "@/constants/layout";
+import {
+  DAILY_GOAL_OPTIONS,
+  HISTORY_HALF_LIFE_OPTIONS,
+  LONG_BREAK_EVERY_OPTIONS,
+  LONG_BREAK_MULTIPLIER,
+  SEQUENCE_CYCLE_OPTIONS,
+  TRASH_RETENTION_OPTIONS,
+  WEEKLY_GOAL_OPTIONS,
+} from "@/constants/timer";
 import { useThemeColor } from "@/hooks/useThemeColor";
+import {
+  COACH_PRESETS,
+  CoachPreset,
+  CoachRule,
+  getHistoryDecay,
+  rebuildAdaptiveState,
+} from "@/services/adaptiveEngine";
 import {
   exportAllDataAsZip,
   ImportSelection,
@@ -14,21 +33,50 @@ import {
   performImport,
   pickAndParseZip,
 } from "@/services/dataExport";
+import { loadGoalSuggestion } from "@/services/analytics";
+import { countSessionsInDB } from "@/services/sessionService";
+import { getTaskStrategy, STRATEGIES, StrategyId } from "@/services/strategies";
 import { useThemeStore } from "@/store/themeStore";
 import useTimerStore from "@/store/timerStore";
+import {
+  FocusGoal,
+  getTaskGoal,
+  GoalPeriod,
+} from "@/utils/goals";
+import { formatMinutes } from "@/utils/performanceUtils";
+import { useRouter } from "expo-router";
 import {
   Battery,
+  BatteryLow,
   Bell,
   Brain,
+  CalendarDays,
+  CalendarRange,
+  ChevronRight,
+  Coffee,
   Download,
+  Flame,
+  Gauge,
+  History,
+  Hourglass,
   Info,
+  Leaf,
+  ListChecks,
   Monitor,
   Moon,
+  PenLine,
+  RefreshCw,
+  Repeat,
   Sun,
+  Sunrise,
+  Target,
+  Timer,
+  Trash,
   Trash2,
   Upload,
+  Waves,
 } from "lucide-react-native";
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
   ActivityIndicator,
   Linking,
@@ -59,9 +107,53 @@ export default function SettingsScreen() {
   const toggleNotifications = useTimerStore(
     (s) => s.toggleNotificationsEnabled,
   );
+  const coachPreset = useTimerStore((s) => s.coachPreset);
+  const setCoachPreset = useTimerStore((s) => s.setCoachPreset);
+  const coachRules = useTimerStore((s) => s.coachRules);
+  const toggleCoachRule = useTimerStore((s) => s.toggleCoachRule);
+  const previousTasks = useTimerStore((s) => s.previousTasks);
+  const taskStrategies = useTimerStore((s) => s.taskStrategies);
+  const setTaskStrategy = useTimerStore((s) => s.setTaskStrategy);
+  const timeOfDayAware = useTimerStore((s) => s.timeOfDayAware);
+  const toggleTimeOfDayAware = useTimerStore((s) => s.toggleTimeOfDayAware);
+  const historyHalfLifeDays = useTimerStore((s) => s.historyHalfLifeDays);
+  const setHistoryHalfLifeDays = useTimerStore(
+    (s) => s.setHistoryHalfLifeDays,
+  );
+  const trashRetentionDays = useTimerStore((s) => s.trashRetentionDays);
+  const setTrashRetentionDays = useTimerStore((s) => s.setTrashRetentionDays);
+  const includeManualSessions = useTimerStore((s) => s.includeManualSessions);
+  const toggleIncludeManualSessions = useTimerStore(
+    (s) => s.toggleIncludeManualSessions,
+  );
+  const flowMode = useTimerStore((s) => s.flowMode);
+  const toggleFlowMode = useTimerStore((s) => s.toggleFlowMode);
+  const sequenceCycles = useTimerStore((s) => s.sequenceCycles);
+  const setSequenceCycles = useTimerStore((s) => s.setSequenceCycles);
+  const longBreakEvery = useTimerStore((s) => s.longBreakEvery);
+  const setLongBreakEvery = useTimerStore((s) => s.setLongBreakEvery);
+  const focusGoal = useTimerStore((s) => s.focusGoal);
+  const taskGoals = useTimerStore((s) => s.taskGoals);
+  const setFocusGoal = useTimerStore((s) => s.setFocusGoal);
+  const router = useRouter();
+
+  // Counted in SQLite: the store only holds the most recent sessions
+  const [storedCount, setStoredCount] = useState(0);
+  useEffect(() => {
+    let cancelled = false;
+    countSessionsInDB()
+      .then((count) => {
+        if (!cancelled) setStoredCount(count);
+      })
+      .catch((error) => console.error("Failed to count sessions:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [sessions]);
 
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [isRecalibrating, setIsRecalibrating] = useState(false);
 
   // Import Modal State
   const [importModalVisible, setImportModalVisible] = useState(false);
@@ -88,7 +180,7 @@ export default function SettingsScreen() {
   const clearAllData = () => {
     showThemedAlert(
       "Clear All Data",
-      "Are you sure you want to clear all your session history? This action cannot be undone.",
+      `Are you sure you want to clear all your session history? Sessions move to the trash and are deleted for good after ${trashRetentionDays} days, and the coach starts learning from scratch.`,
       [
         {
           text: "Cancel",
@@ -103,6 +195,173 @@ export default function SettingsScreen() {
     );
   };
 
+  // Stored learning was weighted with the old half-life, so relearn it
+  const chooseHistoryHalfLife = () => {
+    showThemedAlert(
+      "Coach Memory",
+      "How quickly should the coach forget older sessions? A session counts half as much after this long. Changing it relearns your history.",
+      [
+        ...HISTORY_HALF_LIFE_OPTIONS.map((days) => ({
+          text: `${days} days`,
+          onPress: () => {
+            if (days === historyHalfLifeDays) return;
+            setHistoryHalfLifeDays(days);
+            recalibrateCoach(days);
+          },
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ],
+    );
+  };
+
+  const chooseTrashRetention = () => {
+    showThemedAlert(
+      "Keep Deleted Sessions",
+      "How long should deleted sessions stay in the trash before they're removed for good?",
+      [
+        ...TRASH_RETENTION_OPTIONS.map((days) => ({
+          text: `${days} days`,
+          onPress: () => setTrashRetentionDays(days),
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ],
+    );
+  };
+
+  const chooseSequenceCycles = () => {
+    showThemedAlert(
+      "Sessions in a Row",
+      "How many focus sessions should run back to back once you start? Each break starts on its own, then the next session.",
+      [
+        ...SEQUENCE_CYCLE_OPTIONS.map((cycles) => ({
+          text: cycles === 1 ? "One at a time" : `${cycles} sessions`,
+          onPress: () => setSequenceCycles(cycles),
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ],
+    );
+  };
+
+  const chooseLongBreakEvery = () => {
+    showThemedAlert(
+      "Long Break",
+      `How often should a sequence take a long break (${LONG_BREAK_MULTIPLIER}x the usual length)?`,
+      [
+        ...LONG_BREAK_EVERY_OPTIONS.map((cycles) => ({
+          text: `Every ${cycles} sessions`,
+          onPress: () => setLongBreakEvery(cycles),
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ],
+    );
+  };
+
+  const describeGoal = (goal: FocusGoal) => {
+    const parts = [
+      goal.day > 0 && `${formatMinutes(goal.day)} a day`,
+      goal.week > 0 && `${formatMinutes(goal.week)} a week`,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(" · ") : "No goal";
+  };
+
+  const chooseGoal = async (period: GoalPeriod, task?: string) => {
+    // Suggest from the same sessions the stats and goal rings count
+    let suggested = 0;
+    try {
+      suggested = await loadGoalSuggestion(
+        period,
+        { includeManual: includeManualSessions },
+        task,
+      );
+    } catch (error) {
+      console.error("Failed to suggest a goal:", error);
+    }
+    const options = (
+      period === "day" ? DAILY_GOAL_OPTIONS : WEEKLY_GOAL_OPTIONS
+    ).filter((minutes) => minutes !== suggested);
+    const label = period === "day" ? "Daily" : "Weekly";
+    const every = period === "day" ? "each day" : "each week";
+
+    showThemedAlert(
+      task ? `${label} Goal for ${task}` : `${label} Goal`,
+      suggested > 0
+        ? `How long do you want to focus ${every}? Based on your recent sessions, ${formatMinutes(suggested)} would be a good stretch.`
+        : `How long do you want to focus ${every}?`,
+      [
+        ...(suggested > 0
+          ? [
+              {
+                text: `${formatMinutes(suggested)} (suggested)`,
+                onPress: () => setFocusGoal(period, suggested, task),
+              },
+            ]
+          : []),
+        ...options.map((minutes) => ({
+          text: formatMinutes(minutes),
+          onPress: () => setFocusGoal(period, minutes, task),
+        })),
+        { text: "No goal", onPress: () => setFocusGoal(period, 0, task) },
+        { text: "Cancel", style: "cancel" as const },
+      ],
+    );
+  };
+
+  const chooseTaskGoal = (task: string) => {
+    showThemedAlert(
+      `Goals for ${task}`,
+      "Which goal do you want to change? Only this task's sessions count toward it.",
+      [
+        { text: "Daily goal", onPress: () => chooseGoal("day", task) },
+        { text: "Weekly goal", onPress: () => chooseGoal("week", task) },
+        { text: "Cancel", style: "cancel" as const },
+      ],
+    );
+  };
+
+  const chooseTaskStrategy = (task: string) => {
+    showThemedAlert(
+      `Strategy for ${task}`,
+      "How should Kairos pick focus and break lengths for this task? Sessions are still logged for your history and analytics.",
+      [
+        ...(Object.keys(STRATEGIES) as StrategyId[]).map((id) => ({
+          text: STRATEGIES[id].label,
+          onPress: () => setTaskStrategy(task, id),
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ],
+    );
+  };
+
+  const recalibrateCoach = async (halfLifeDays = historyHalfLifeDays) => {
+    try {
+      setIsRecalibrating(true);
+      const result = await rebuildAdaptiveState(getHistoryDecay(halfLifeDays));
+      showThemedAlert(
+        "Coach Recalibrated",
+        `Relearned ${result.contexts} focus ${result.contexts === 1 ? "context" : "contexts"} from ${result.sessions} ${result.sessions === 1 ? "session" : "sessions"}.`,
+      );
+    } catch (error) {
+      console.error(error);
+      showThemedAlert(
+        "Recalibration Failed",
+        "Could not rebuild recommendations from your history.",
+      );
+    } finally {
+      setIsRecalibrating(false);
+    }
+  };
+
+  const confirmRecalibrate = () => {
+    showThemedAlert(
+      "Recalibrate Coach",
+      "This replays your saved session history to rebuild the learned focus durations. Anything learned from sessions no longer in your history will be discarded.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Recalibrate", onPress: () => recalibrateCoach() },
+      ],
+    );
+  };
+
   const handleExport = async () => {
     try {
       setIsExporting(true);
@@ -144,7 +403,11 @@ export default function SettingsScreen() {
       setIsImporting(true);
       setImportModalVisible(false);
 
-      await performImport(importData, selection);
+      await performImport(
+        importData,
+        selection,
+        getHistoryDecay(historyHalfLifeDays),
+      );
 
       // Refresh state
       await loadSessions();
@@ -203,6 +466,70 @@ export default function SettingsScreen() {
     </TouchableOpacity>
   );
 
+  const CoachPresetOption = ({
+    preset,
+    icon: Icon,
+    label,
+  }: {
+    preset: CoachPreset;
+    icon: any;
+    label: string;
+  }) => (
+    <TouchableOpacity
+      onPress={() => setCoachPreset(preset)}
+      style={[
+        styles.themeOption,
+        {
+          backgroundColor:
+            coachPreset === preset ? colors.primary : "transparent",
+          borderColor: colors.border,
+        },
+      ]}
+    >
+      <Icon
+        size={20}
+        color={coachPreset === preset ? "#FFF" : colors.text.primary}
+      />
+      <Text
+        style={[
+          styles.themeOptionLabel,
+          {
+            color: coachPreset === preset ? "#FFF" : colors.text.primary,
+          },
+        ]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const presetConfig = COACH_PRESETS[coachPreset];
+  const coachRuleRows: {
+    rule: CoachRule;
+    icon: any;
+    label: string;
+    hint: string;
+  }[] = [
+    {
+      rule: "fatigue",
+      icon: BatteryLow,
+      label: "Daily fatigue",
+      hint: `Shorter sessions after ${presetConfig.fatigue.thresholdMinutes} min a day, down to ${presetConfig.fatigue.minMultiplier}x`,
+    },
+    {
+      rule: "cooldown",
+      icon: Timer,
+      label: "Back-to-back cooldown",
+      hint: `Up to ${presetConfig.cooldown.minMultiplier}x when skipping the break`,
+    },
+    {
+      rule: "restDay",
+      icon: CalendarDays,
+      label: "Rest day ramp-up",
+      hint: `${presetConfig.restDay.multiplier}x after ${presetConfig.restDay.days}+ days off`,
+    },
+  ];
+
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       {/* Import Modal */}
@@ -273,10 +600,7 @@ export default function SettingsScreen() {
           )}
 
           <View
-            style={[
-              styles.settingItem,
-              { borderBottomColor: colors.border, borderBottomWidth: 0 },
-            ]}
+            style={[styles.settingItem, { borderBottomColor: colors.border }]}
           >
             <View style={styles.settingInfo}>
               <Brain size={20} color={colors.text.primary} />
@@ -293,6 +617,366 @@ export default function SettingsScreen() {
               onValueChange={toggleShort}
             />
           </View>
+
+          <View
+            style={[
+              styles.settingItem,
+              { borderBottomColor: colors.border, borderBottomWidth: 0 },
+            ]}
+          >
+            <View style={styles.settingInfo}>
+              <Waves size={20} color={colors.text.primary} />
+              <View style={styles.settingLabel}>
+                <Text
+                  style={[styles.settingText, { color: colors.text.primary }]}
+                >
+                  Flow mode
+                </Text>
+                <Text
+                  style={[
+                    styles.settingText,
+                    styles.settingHint,
+                    { color: colors.text.secondary },
+                  ]}
+                >
+                  Keep counting past the target and finish when you're ready;
+                  the coach learns from the extra time
+                </Text>
+              </View>
+            </View>
+            <Switch
+              trackColor={{ false: colors.inactive, true: colors.primary }}
+              thumbColor={colors.card}
+              value={flowMode}
+              onValueChange={toggleFlowMode}
+            />
+          </View>
+        </View>
+
+        <View style={[styles.section, { backgroundColor: colors.card }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+            Coach tuning
+          </Text>
+          <View style={[styles.themeSelector, { marginBottom: SPACING.sm }]}>
+            <CoachPresetOption preset="gentle" icon={Leaf} label="Gentle" />
+            <CoachPresetOption preset="default" icon={Gauge} label="Default" />
+            <CoachPresetOption
+              preset="aggressive"
+              icon={Flame}
+              label="Aggressive"
+            />
+          </View>
+
+          {coachRuleRows.map(({ rule, icon: Icon, label, hint }) => (
+            <View
+              key={rule}
+              style={[styles.settingItem, { borderBottomColor: colors.border }]}
+            >
+              <View style={styles.settingInfo}>
+                <Icon size={20} color={colors.text.primary} />
+                <View style={styles.settingLabel}>
+                  <Text
+                    style={[styles.settingText, { color: colors.text.primary }]}
+                  >
+                    {label}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.settingText,
+                      styles.settingHint,
+                      { color: colors.text.secondary },
+                    ]}
+                  >
+                    {hint}
+                  </Text>
+                </View>
+              </View>
+              <Switch
+                trackColor={{ false: colors.inactive, true: colors.primary }}
+                thumbColor={colors.card}
+                value={coachRules[rule]}
+                onValueChange={() => toggleCoachRule(rule)}
+              />
+            </View>
+          ))}
+
+          <View
+            style={[styles.settingItem, { borderBottomColor: colors.border }]}
+          >
+            <View style={styles.settingInfo}>
+              <Sunrise size={20} color={colors.text.primary} />
+              <View style={styles.settingLabel}>
+                <Text
+                  style={[styles.settingText, { color: colors.text.primary }]}
+                >
+                  Time-of-day learning
+                </Text>
+                <Text
+                  style={[
+                    styles.settingText,
+                    styles.settingHint,
+                    { color: colors.text.secondary },
+                  ]}
+                >
+                  Learn mornings, afternoons and evenings separately once
+                  they clearly differ
+                </Text>
+              </View>
+            </View>
+            <Switch
+              trackColor={{ false: colors.inactive, true: colors.primary }}
+              thumbColor={colors.card}
+              value={timeOfDayAware}
+              onValueChange={toggleTimeOfDayAware}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[
+              styles.settingItem,
+              { borderBottomColor: colors.border, borderBottomWidth: 0 },
+            ]}
+            onPress={chooseHistoryHalfLife}
+          >
+            <View style={styles.settingInfo}>
+              <Hourglass size={20} color={colors.text.primary} />
+              <View style={styles.settingLabel}>
+                <Text
+                  style={[styles.settingText, { color: colors.text.primary }]}
+                >
+                  Coach memory
+                </Text>
+                <Text
+                  style={[
+                    styles.settingText,
+                    styles.settingHint,
+                    { color: colors.text.secondary },
+                  ]}
+                >
+                  Older sessions count half as much after{" "}
+                  {historyHalfLifeDays} days
+                </Text>
+              </View>
+            </View>
+            <ChevronRight size={20} color={colors.text.secondary} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={[styles.section, { backgroundColor: colors.card }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+            Sequences
+          </Text>
+
+          <TouchableOpacity
+            style={[
+              styles.settingItem,
+              { borderBottomColor: colors.border },
+              sequenceCycles === 1 && { borderBottomWidth: 0 },
+            ]}
+            onPress={chooseSequenceCycles}
+          >
+            <View style={styles.settingInfo}>
+              <Repeat size={20} color={colors.text.primary} />
+              <View style={styles.settingLabel}>
+                <Text
+                  style={[styles.settingText, { color: colors.text.primary }]}
+                >
+                  Sessions in a row
+                </Text>
+                <Text
+                  style={[
+                    styles.settingText,
+                    styles.settingHint,
+                    { color: colors.text.secondary },
+                  ]}
+                >
+                  {sequenceCycles === 1
+                    ? "One at a time"
+                    : `${sequenceCycles} focus sessions, breaks in between`}
+                </Text>
+              </View>
+            </View>
+            <ChevronRight size={20} color={colors.text.secondary} />
+          </TouchableOpacity>
+
+          {sequenceCycles > 1 && (
+            <TouchableOpacity
+              style={[styles.settingItem, { borderBottomWidth: 0 }]}
+              onPress={chooseLongBreakEvery}
+            >
+              <View style={styles.settingInfo}>
+                <Coffee size={20} color={colors.text.primary} />
+                <View style={styles.settingLabel}>
+                  <Text
+                    style={[
+                      styles.settingText,
+                      { color: colors.text.primary },
+                    ]}
+                  >
+                    Long break
+                  </Text>
+                  <Text
+                    style={[
+                      styles.settingText,
+                      styles.settingHint,
+                      { color: colors.text.secondary },
+                    ]}
+                  >
+                    Every {longBreakEvery} sessions, {LONG_BREAK_MULTIPLIER}x
+                    the usual break
+                  </Text>
+                </View>
+              </View>
+              <ChevronRight size={20} color={colors.text.secondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={[styles.section, { backgroundColor: colors.card }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+            Goals
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.settingItem, { borderBottomColor: colors.border }]}
+            onPress={() => chooseGoal("day")}
+          >
+            <View style={styles.settingInfo}>
+              <Target size={20} color={colors.text.primary} />
+              <View style={styles.settingLabel}>
+                <Text
+                  style={[styles.settingText, { color: colors.text.primary }]}
+                >
+                  Daily goal
+                </Text>
+                <Text
+                  style={[
+                    styles.settingText,
+                    styles.settingHint,
+                    { color: colors.text.secondary },
+                  ]}
+                >
+                  {focusGoal.day > 0
+                    ? `${formatMinutes(focusGoal.day)} of focus a day`
+                    : "No goal"}
+                </Text>
+              </View>
+            </View>
+            <ChevronRight size={20} color={colors.text.secondary} />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.settingItem, { borderBottomColor: colors.border }]}
+            onPress={() => chooseGoal("week")}
+          >
+            <View style={styles.settingInfo}>
+              <CalendarRange size={20} color={colors.text.primary} />
+              <View style={styles.settingLabel}>
+                <Text
+                  style={[styles.settingText, { color: colors.text.primary }]}
+                >
+                  Weekly goal
+                </Text>
+                <Text
+                  style={[
+                    styles.settingText,
+                    styles.settingHint,
+                    { color: colors.text.secondary },
+                  ]}
+                >
+                  {focusGoal.week > 0
+                    ? `${formatMinutes(focusGoal.week)} of focus a week`
+                    : "No goal"}
+                </Text>
+              </View>
+            </View>
+            <ChevronRight size={20} color={colors.text.secondary} />
+          </TouchableOpacity>
+
+          {previousTasks.map((task, index) => (
+            <TouchableOpacity
+              key={task}
+              style={[
+                styles.settingItem,
+                { borderBottomColor: colors.border },
+                index === previousTasks.length - 1 && {
+                  borderBottomWidth: 0,
+                },
+              ]}
+              onPress={() => chooseTaskGoal(task)}
+            >
+              <View style={styles.settingInfo}>
+                <ListChecks size={20} color={colors.text.primary} />
+                <View style={styles.settingLabel}>
+                  <Text
+                    style={[
+                      styles.settingText,
+                      { color: colors.text.primary },
+                    ]}
+                  >
+                    {task}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.settingText,
+                      styles.settingHint,
+                      { color: colors.text.secondary },
+                    ]}
+                  >
+                    {describeGoal(getTaskGoal(taskGoals, task))}
+                  </Text>
+                </View>
+              </View>
+              <ChevronRight size={20} color={colors.text.secondary} />
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={[styles.section, { backgroundColor: colors.card }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+            Focus strategy
+          </Text>
+
+          {previousTasks.map((task, index) => {
+            const strategy = STRATEGIES[getTaskStrategy(taskStrategies, task)];
+            return (
+              <TouchableOpacity
+                key={task}
+                style={[
+                  styles.settingItem,
+                  { borderBottomColor: colors.border },
+                  index === previousTasks.length - 1 && {
+                    borderBottomWidth: 0,
+                  },
+                ]}
+                onPress={() => chooseTaskStrategy(task)}
+              >
+                <View style={styles.settingInfo}>
+                  <ListChecks size={20} color={colors.text.primary} />
+                  <View style={styles.settingLabel}>
+                    <Text
+                      style={[
+                        styles.settingText,
+                        { color: colors.text.primary },
+                      ]}
+                    >
+                      {task}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.settingText,
+                        styles.settingHint,
+                        { color: colors.text.secondary },
+                      ]}
+                    >
+                      {strategy.label} · {strategy.description}
+                    </Text>
+                  </View>
+                </View>
+                <ChevronRight size={20} color={colors.text.secondary} />
+              </TouchableOpacity>
+            );
+          })}
         </View>
 
         <View style={[styles.section, { backgroundColor: colors.card }]}>
@@ -316,6 +1000,47 @@ export default function SettingsScreen() {
             )}
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={[styles.settingItem, { borderBottomColor: colors.border }]}
+            onPress={() => router.push("/trash")}
+          >
+            <View style={styles.settingInfo}>
+              <Trash size={20} color={colors.text.primary} />
+              <Text
+                style={[styles.settingText, { color: colors.text.primary }]}
+              >
+                Trash
+              </Text>
+            </View>
+            <ChevronRight size={20} color={colors.text.secondary} />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.settingItem, { borderBottomColor: colors.border }]}
+            onPress={chooseTrashRetention}
+          >
+            <View style={styles.settingInfo}>
+              <History size={20} color={colors.text.primary} />
+              <View style={styles.settingLabel}>
+                <Text
+                  style={[styles.settingText, { color: colors.text.primary }]}
+                >
+                  Keep deleted sessions
+                </Text>
+                <Text
+                  style={[
+                    styles.settingText,
+                    styles.settingHint,
+                    { color: colors.text.secondary },
+                  ]}
+                >
+                  {trashRetentionDays} days, then removed for good
+                </Text>
+              </View>
+            </View>
+            <ChevronRight size={20} color={colors.text.secondary} />
+          </TouchableOpacity>
+
           <View
             style={[styles.settingItem, { borderBottomColor: colors.border }]}
           >
@@ -333,8 +1058,58 @@ export default function SettingsScreen() {
               <Text
                 style={[styles.settingValue, { color: colors.text.secondary }]}
               >
-                {sessions.length}
+                {storedCount}
+              </Text>
+            )}
+          </View>
+
+          <View
+            style={[styles.settingItem, { borderBottomColor: colors.border }]}
+          >
+            <View style={styles.settingInfo}>
+              <PenLine size={20} color={colors.text.primary} />
+              <View style={styles.settingLabel}>
+                <Text
+                  style={[styles.settingText, { color: colors.text.primary }]}
+                >
+                  Count logged sessions
+                </Text>
+                <Text
+                  style={[
+                    styles.settingText,
+                    styles.settingHint,
+                    { color: colors.text.secondary },
+                  ]}
+                >
+                  Include sessions logged after the fact in performance stats
+                </Text>
+              </View>
+            </View>
+            <Switch
+              trackColor={{ false: colors.inactive, true: colors.primary }}
+              thumbColor={colors.card}
+              value={includeManualSessions}
+              onValueChange={toggleIncludeManualSessions}
+            />
+          </View>
+
+          <View
+            style={[styles.settingItem, { borderBottomColor: colors.border }]}
+          >
+            <TouchableOpacity
+              style={styles.settingInfo}
+              onPress={confirmRecalibrate}
+              disabled={isRecalibrating}
+            >
+              <RefreshCw size={20} color={colors.text.primary} />
+              <Text
+                style={[styles.settingText, { color: colors.text.primary }]}
+              >
+                Recalibrate coach
               </Text>
+            </TouchableOpacity>
+            {isRecalibrating && (
+              <ActivityIndicator size="small" color={colors.primary} />
             )}
           </View>
 
@@ -472,12 +1247,16 @@ const styles = StyleSheet.create({
   settingInfo: {
     flexDirection: "row",
     alignItems: "center",
+    flexShrink: 1,
   },
   settingText: {
     fontSize: TYPOGRAPHY.size.lg,
     fontFamily: "Outfit_400Regular",
     marginLeft: SPACING.md,
   },
+  settingLabel: {
+    flexShrink: 1,
+  },
   settingValue: {
     fontSize: TYPOGRAPHY.size.lg,
     fontFamily: "Outfit_400Regular",
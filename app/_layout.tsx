@@ -5,6 +5,7 @@
  * theme-aware background colors, and the root navigation stack.
  */
 import ThemedAlert from "@/components/ThemedAlert";
+import UndoSnackbar from "@/components/UndoSnackbar";
 import { useIsDark, useThemeColor } from "@/hooks/useThemeColor";
 import {
     Outfit_300Light,
@@ -85,6 +86,7 @@ export default function RootLayout() {
         }}
       >
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="trash" options={{ headerShown: false }} />
         <Stack.Screen
           name="modal"
           options={{
@@ -98,6 +100,7 @@ export default function RootLayout() {
         translucent
         backgroundColor="transparent"
       />
+      <UndoSnackbar />
       <ThemedAlert />
     </SafeAreaProvider>
   );
@@ -0,0 +1,237 @@
+/**
+ * Trash Screen
+ *
+ * Lists deleted sessions so they can be restored, or removed for good
+ * before the retention period purges them automatically.
+ */
+import { RADIUS, SPACING, TYPOGRAPHY } from "@/constants/layout";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import useTimerStore from "@/store/timerStore";
+import { Session } from "@/types";
+import { useRouter } from "expo-router";
+import { ChevronLeft, RotateCcw, Trash, Trash2 } from "lucide-react-native";
+import React, { useCallback, useEffect } from "react";
+import {
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export default function TrashScreen() {
+  const colors = useThemeColor();
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const {
+    trashedSessions,
+    trashRetentionDays,
+    loadTrash,
+    restoreFromTrash,
+    deleteForever,
+    emptyTrash,
+    showThemedAlert,
+  } = useTimerStore();
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const getDaysLeft = (deletedAt: string) => {
+    const elapsed = Date.now() - new Date(deletedAt).getTime();
+    return Math.max(0, Math.ceil(trashRetentionDays - elapsed / MS_PER_DAY));
+  };
+
+  const confirmEmptyTrash = () => {
+    showThemedAlert(
+      "Empty Trash",
+      `Permanently delete ${trashedSessions.length} ${trashedSessions.length === 1 ? "session" : "sessions"}? This action cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Empty", onPress: () => emptyTrash(), style: "destructive" },
+      ],
+    );
+  };
+
+  const confirmDeleteForever = (id: number) => {
+    showThemedAlert(
+      "Delete Forever",
+      "Permanently delete this session? This action cannot be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          onPress: () => deleteForever(id),
+          style: "destructive",
+        },
+      ],
+    );
+  };
+
+  const renderItem = useCallback(
+    ({ item }: { item: Session }) => {
+      const daysLeft = item.deletedAt ? getDaysLeft(item.deletedAt) : 0;
+      return (
+        <View style={[styles.item, { backgroundColor: colors.card }]}>
+          <View style={styles.itemInfo}>
+            <Text style={[styles.taskType, { color: colors.text.primary }]}>
+              {item.taskType}
+            </Text>
+            <Text style={[styles.meta, { color: colors.text.secondary }]}>
+              {new Date(item.createdAt).toLocaleDateString("en-US", {
+                month: "short",
+                day: "numeric",
+              })}{" "}
+              · {Math.round(item.focusedUntilSkipped)} min · deleted for good
+              in {daysLeft} {daysLeft === 1 ? "day" : "days"}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => item.id !== undefined && restoreFromTrash(item.id)}
+            hitSlop={8}
+          >
+            <RotateCcw size={20} color={colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() =>
+              item.id !== undefined && confirmDeleteForever(item.id)
+            }
+            hitSlop={8}
+          >
+            <Trash2 size={20} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+      );
+    },
+    [colors, trashRetentionDays],
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { paddingTop: insets.top + 20 }]}>
+        <TouchableOpacity onPress={() => router.back()} hitSlop={8}>
+          <ChevronLeft size={28} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text.primary }]}>
+          Trash
+        </Text>
+        <TouchableOpacity
+          onPress={confirmEmptyTrash}
+          disabled={trashedSessions.length === 0}
+        >
+          <Text
+            style={[
+              styles.emptyAction,
+              {
+                color:
+                  trashedSessions.length > 0
+                    ? colors.error
+                    : colors.text.secondary,
+              },
+            ]}
+          >
+            Empty
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {trashedSessions.length > 0 ? (
+        <FlatList
+          data={trashedSessions}
+          keyExtractor={(item) => String(item.id)}
+          renderItem={renderItem}
+          contentContainerStyle={[
+            styles.list,
+            { paddingBottom: insets.bottom + 40 },
+          ]}
+          showsVerticalScrollIndicator={false}
+        />
+      ) : (
+        <View style={[styles.emptyState, { backgroundColor: colors.card }]}>
+          <Trash size={50} color={colors.inactive} />
+          <Text style={[styles.emptyStateText, { color: colors.text.primary }]}>
+            Trash is empty
+          </Text>
+          <Text
+            style={[
+              styles.emptyStateSubtext,
+              { color: colors.text.secondary },
+            ]}
+          >
+            Deleted sessions stay here for {trashRetentionDays} days
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: SPACING.p5,
+    paddingBottom: SPACING.p5,
+  },
+  title: {
+    fontSize: TYPOGRAPHY.size.title,
+    fontFamily: "Outfit_700Bold",
+  },
+  emptyAction: {
+    fontSize: TYPOGRAPHY.size.lg,
+    fontFamily: "Outfit_600SemiBold",
+  },
+  list: {
+    paddingHorizontal: SPACING.p5,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: RADIUS.lg,
+    padding: SPACING.p4,
+    marginBottom: SPACING.md,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  taskType: {
+    fontSize: TYPOGRAPHY.size.lg,
+    fontFamily: "Outfit_700Bold",
+  },
+  meta: {
+    fontSize: TYPOGRAPHY.size.sm,
+    fontFamily: "Outfit_400Regular",
+    marginTop: SPACING.xs,
+  },
+  iconButton: {
+    marginLeft: SPACING.lg,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    marginHorizontal: SPACING.p5,
+    paddingVertical: SPACING.p10,
+    borderRadius: RADIUS.lg,
+  },
+  emptyStateText: {
+    fontSize: TYPOGRAPHY.size.xl,
+    fontFamily: "Outfit_700Bold",
+    marginTop: SPACING.lg,
+    marginBottom: SPACING.sm,
+  },
+  emptyStateSubtext: {
+    fontSize: TYPOGRAPHY.size.md,
+    fontFamily: "Outfit_400Regular",
+    textAlign: "center",
+    paddingHorizontal: SPACING.p5,
+  },
+});
@@ -26,7 +26,11 @@ export default function BreakModal() {
   const focusMinutes = Math.round(
     useTimerStore.getState().focusSessionDuration / 60,
   );
-  const breakOptions = getBreakOptions(includeShortSessions, focusMinutes);
+  const breakOptions = getBreakOptions(
+    includeShortSessions,
+    focusMinutes,
+    recommendedBreakDuration,
+  );
 
   return (
     <View style={styles.modalOverlay}>
@@ -3,6 +3,8 @@
  *
  * The main timer component featuring a circular progress ring,
  * live countdown, and interactive controls for the focus session.
+ * During a sequence, dots under the ring show the cycles done and left.
+ * In flow mode's overtime the clock counts up and a Done button ends focus.
  */
 import {
     SPACING
@@ -14,7 +16,7 @@ import {
 } from "@/constants/timer";
 import { useThemeColor } from "@/hooks/useThemeColor";
 import useTimerStore from "@/store/timerStore";
-import { Play, SkipForward, X } from "lucide-react-native";
+import { Check, Pause, Play, SkipForward, X } from "lucide-react-native";
 import React, { useEffect, useMemo, useRef } from "react";
 import {
     Animated,
@@ -49,14 +51,20 @@ export default function CircularTimer() {
 
   const {
     sessionStartTimestamp,
+    timerPhase,
+    time: storedTime,
     initialTime,
     isActive,
+    isBreakTime,
+    sequence,
     showTimeAdjust,
     showCancel,
     showSkip,
     startTimer,
+    pauseTimer,
     cancelTimer,
     skipTimer,
+    completeTimer,
     toggleTimeAdjust,
     adjustTime,
     setTime,
@@ -106,8 +114,11 @@ export default function CircularTimer() {
     }));
   }, [includeShortSessions]);
 
+  const isPaused = timerPhase === "paused";
+
   const handleStartPause = () => {
-    startTimer();
+    if (isActive) pauseTimer();
+    else startTimer();
     Animated.sequence([
       Animated.timing(scaleAnim, {
         toValue: 0.95,
@@ -121,7 +132,9 @@ export default function CircularTimer() {
       }),
     ]).start();
   };
-  const label = formatTime(time);
+  // Overtime counts up from the target
+  const isOvertime = timerPhase === "overtime";
+  const label = isOvertime ? `+${formatTime(storedTime)}` : formatTime(time);
   const display = label.includes("NaN") ? "00:00" : label;
 
   return (
@@ -150,7 +163,8 @@ export default function CircularTimer() {
             ]}
           >
             <View style={styles.timeAdjustContainer}>
-              {(!isActive && !userAcceptedRecommendation) || showTimeAdjust ? (
+              {(!isActive && !isPaused && !userAcceptedRecommendation) ||
+              showTimeAdjust ? (
                 showTimeAdjust ? (
                   <View
                     style={{
@@ -241,7 +255,7 @@ export default function CircularTimer() {
               )}
             </View>
 
-            {!isActive && !showTimeAdjust ? (
+            {!isActive && !isPaused && !showTimeAdjust ? (
               <TouchableOpacity
                 onPress={handleStartPause}
                 style={[
@@ -259,42 +273,85 @@ export default function CircularTimer() {
               >
                 <Play size={RADIUS * 0.2} color={colors.secondary} />
               </TouchableOpacity>
-            ) : !isActive && showTimeAdjust ? null : showCancel ? (
-              <TouchableOpacity
-                onPress={cancelTimer}
-                style={[
-                  styles.startPauseButton,
-                  styles.cancelButton,
-                  {
-                    backgroundColor: colors.card,
-                    borderColor: colors.secondary,
-                    marginTop: RADIUS * 0.15,
-                    width: RADIUS * 0.35,
-                    height: RADIUS * 0.35,
-                    borderRadius: (RADIUS * 0.35) / 2,
-                  },
-                ]}
-              >
-                <X size={RADIUS * 0.18} color={colors.secondary} />
-              </TouchableOpacity>
-            ) : (
-              <TouchableOpacity
-                onPress={skipTimer}
-                style={[
-                  styles.startPauseButton,
-                  styles.skipButton,
-                  {
-                    backgroundColor: colors.card,
-                    borderColor: colors.primary,
-                    marginTop: RADIUS * 0.15,
-                    width: RADIUS * 0.35,
-                    height: RADIUS * 0.35,
-                    borderRadius: (RADIUS * 0.35) / 2,
-                  },
-                ]}
-              >
-                <SkipForward size={RADIUS * 0.18} color={colors.primary} />
-              </TouchableOpacity>
+            ) : !isActive && !isPaused && showTimeAdjust ? null : (
+              <View style={[styles.controlRow, { marginTop: RADIUS * 0.15 }]}>
+                {/* Breaks run straight through; a paused focus can still be
+                    skipped or cancelled */}
+                {!isBreakTime && !isOvertime && (
+                  <TouchableOpacity
+                    onPress={handleStartPause}
+                    style={[
+                      styles.startPauseButton,
+                      styles.pauseButton,
+                      {
+                        backgroundColor: colors.card,
+                        borderColor: colors.border,
+                        width: RADIUS * 0.35,
+                        height: RADIUS * 0.35,
+                        borderRadius: (RADIUS * 0.35) / 2,
+                      },
+                    ]}
+                  >
+                    {isPaused ? (
+                      <Play size={RADIUS * 0.18} color={colors.secondary} />
+                    ) : (
+                      <Pause size={RADIUS * 0.18} color={colors.secondary} />
+                    )}
+                  </TouchableOpacity>
+                )}
+                {isOvertime ? (
+                  <TouchableOpacity
+                    onPress={() => completeTimer()}
+                    style={[
+                      styles.startPauseButton,
+                      styles.skipButton,
+                      {
+                        backgroundColor: colors.card,
+                        borderColor: colors.primary,
+                        width: RADIUS * 0.35,
+                        height: RADIUS * 0.35,
+                        borderRadius: (RADIUS * 0.35) / 2,
+                      },
+                    ]}
+                  >
+                    <Check size={RADIUS * 0.18} color={colors.primary} />
+                  </TouchableOpacity>
+                ) : showCancel ? (
+                  <TouchableOpacity
+                    onPress={cancelTimer}
+                    style={[
+                      styles.startPauseButton,
+                      styles.cancelButton,
+                      {
+                        backgroundColor: colors.card,
+                        borderColor: colors.secondary,
+                        width: RADIUS * 0.35,
+                        height: RADIUS * 0.35,
+                        borderRadius: (RADIUS * 0.35) / 2,
+                      },
+                    ]}
+                  >
+                    <X size={RADIUS * 0.18} color={colors.secondary} />
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity
+                    onPress={skipTimer}
+                    style={[
+                      styles.startPauseButton,
+                      styles.skipButton,
+                      {
+                        backgroundColor: colors.card,
+                        borderColor: colors.primary,
+                        width: RADIUS * 0.35,
+                        height: RADIUS * 0.35,
+                        borderRadius: (RADIUS * 0.35) / 2,
+                      },
+                    ]}
+                  >
+                    <SkipForward size={RADIUS * 0.18} color={colors.primary} />
+                  </TouchableOpacity>
+                )}
+              </View>
             )}
           </View>
 
@@ -331,6 +388,32 @@ export default function CircularTimer() {
           </Svg>
         </View>
       </Animated.View>
+
+      {sequence && (
+        <View style={styles.sequenceDots}>
+          {Array.from({ length: sequence.cycles }, (_, i) => {
+            const cycle = i + 1;
+            // A cycle's focus counts as done once its break starts
+            const isDone =
+              cycle < sequence.currentCycle ||
+              (cycle === sequence.currentCycle && isBreakTime);
+            const isCurrent = cycle === sequence.currentCycle && !isDone;
+            return (
+              <View
+                key={cycle}
+                style={[
+                  styles.sequenceDot,
+                  {
+                    backgroundColor: isDone ? colors.primary : "transparent",
+                    borderColor:
+                      isDone || isCurrent ? colors.primary : colors.border,
+                  },
+                ]}
+              />
+            );
+          })}
+        </View>
+      )}
     </View>
   );
 }
@@ -390,6 +473,25 @@ const styles = StyleSheet.create({
   skipButton: {
     borderWidth: 2,
   },
+  sequenceDots: {
+    flexDirection: "row",
+    gap: SPACING.sm,
+    marginTop: SPACING.lg,
+  },
+  sequenceDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    borderWidth: 2,
+  },
+  pauseButton: {
+    borderWidth: 1,
+  },
+  controlRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: SPACING.md,
+  },
   pickerWithLabel: {
     flexDirection: "row",
     alignItems: "center",
@@ -6,6 +6,7 @@
  */
 import { RADIUS, SPACING, TYPOGRAPHY } from "@/constants/layout";
 import { useThemeColor } from "@/hooks/useThemeColor";
+import { isSessionInProgress } from "@/store/slices/timerMachine";
 import useTimerStore from "@/store/timerStore";
 import { EnergyLevel } from "@/types";
 import { Activity, Feather, Zap } from "lucide-react-native";
@@ -17,11 +18,10 @@ export default function EnergyLevelSelector() {
   const {
     energyLevel,
     setEnergyLevel,
-    isActive,
-    isBreakTime,
+    timerPhase,
     showThemedAlert,
   } = useTimerStore();
-  const isTimerRunning = isActive || isBreakTime;
+  const isTimerRunning = isSessionInProgress(timerPhase);
 
   const handleSelect = (level: EnergyLevel) => {
     const { taskType } = useTimerStore.getState();
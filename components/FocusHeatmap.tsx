@@ -1,13 +1,12 @@
 import { RADIUS, SPACING, TYPOGRAPHY } from "@/constants/layout";
 import { useThemeColor } from "@/hooks/useThemeColor";
-import { Session } from "@/types";
-import { getHeatmapData } from "@/utils/performanceUtils";
-import React, { useMemo, useState } from "react";
+import { loadHeatmapData } from "@/services/analytics";
+import useTimerStore from "@/store/timerStore";
+import React, { useEffect, useMemo, useState } from "react";
 import { ScrollView, StyleSheet, Text, View } from "react-native";
 import Svg, { Rect, Text as SvgText } from "react-native-svg";
 
 interface FocusHeatmapProps {
-  sessions: Session[];
   daysCount?: number; // Default ~1 year
 }
 
@@ -17,10 +16,7 @@ const DAYS_IN_WEEK = 7;
 const LABEL_WIDTH = 30; // Width for day labels
 const MONTH_LABEL_HEIGHT = 20;
 
-export default function FocusHeatmap({
-  sessions,
-  daysCount = 365,
-}: FocusHeatmapProps) {
+export default function FocusHeatmap({ daysCount = 365 }: FocusHeatmapProps) {
   const colors = useThemeColor();
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
   const [selectedMinutes, setSelectedMinutes] = useState<number | null>(null);
@@ -33,11 +29,26 @@ export default function FocusHeatmap({
     }, 100);
   }, []);
 
-  // Process data for the heatmap
-  const { data, maxMinutes } = useMemo(
-    () => getHeatmapData(sessions, daysCount),
-    [sessions, daysCount],
-  );
+  // Minutes per day, aggregated in SQLite; reload whenever the store
+  // saves, edits or deletes a session
+  const sessions = useTimerStore((s) => s.sessions);
+  const includeManualSessions = useTimerStore((s) => s.includeManualSessions);
+  const [{ data, maxMinutes }, setHeatmap] = useState<{
+    data: Record<string, number>;
+    maxMinutes: number;
+  }>({ data: {}, maxMinutes: 0 });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadHeatmapData({ includeManual: includeManualSessions }, daysCount)
+      .then((heatmap) => {
+        if (!cancelled) setHeatmap(heatmap);
+      })
+      .catch((error) => console.error("Failed to load heatmap data:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [sessions, includeManualSessions, daysCount]);
 
   // Determine color intensity
   const getCellVisuals = (minutes: number, cellDate: string) => {
@@ -0,0 +1,261 @@
+/**
+ * Goal Progress
+ *
+ * Progress rings for the daily and weekly focus goals, overall and for the
+ * given tasks, with the daily goal streak underneath. Renders nothing until
+ * a goal is set.
+ */
+import { RADIUS, SPACING, TYPOGRAPHY } from "@/constants/layout";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { loadStreak } from "@/services/analytics";
+import useTimerStore from "@/store/timerStore";
+import {
+  FocusGoal,
+  getGoalHistory,
+  getGoalProgress,
+  getTaskGoal,
+  GoalPeriod,
+  GoalProgress as Progress,
+} from "@/utils/goals";
+import { formatMinutes } from "@/utils/performanceUtils";
+import { Flame } from "lucide-react-native";
+import React, { useEffect, useMemo, useState } from "react";
+import { StyleSheet, Text, View } from "react-native";
+import Svg, { Circle } from "react-native-svg";
+
+interface GoalProgressProps {
+  tasks?: string[]; // Tasks to show their own goals for
+  showHistory?: boolean; // Recent daily hits and the goal streak
+}
+
+const RING_SIZE = 64;
+const RING_STROKE = 6;
+const RING_RADIUS = (RING_SIZE - RING_STROKE) / 2;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+const HISTORY_DAYS = 7;
+
+const PERIODS: GoalPeriod[] = ["day", "week"];
+const PERIOD_LABELS: Record<GoalPeriod, string> = {
+  day: "Today",
+  week: "This week",
+};
+
+interface GoalRow {
+  label: string;
+  task?: string;
+  goal: FocusGoal;
+}
+
+function GoalRing({ label, progress }: { label: string; progress: Progress }) {
+  const colors = useThemeColor();
+  const color = progress.isHit ? colors.success : colors.primary;
+
+  return (
+    <View style={styles.ring}>
+      <View style={styles.ringGraphic}>
+        <Svg width={RING_SIZE} height={RING_SIZE}>
+          <Circle
+            cx={RING_SIZE / 2}
+            cy={RING_SIZE / 2}
+            r={RING_RADIUS}
+            stroke={colors.border}
+            strokeWidth={RING_STROKE}
+            fill="none"
+          />
+          <Circle
+            cx={RING_SIZE / 2}
+            cy={RING_SIZE / 2}
+            r={RING_RADIUS}
+            stroke={color}
+            strokeWidth={RING_STROKE}
+            strokeDasharray={RING_CIRCUMFERENCE}
+            strokeDashoffset={RING_CIRCUMFERENCE * (1 - progress.progress)}
+            strokeLinecap="round"
+            fill="none"
+            rotation="-90"
+            originX={RING_SIZE / 2}
+            originY={RING_SIZE / 2}
+          />
+        </Svg>
+        <Text style={[styles.ringPercent, { color: colors.text.primary }]}>
+          {Math.round(progress.progress * 100)}%
+        </Text>
+      </View>
+      <Text style={[styles.ringLabel, { color: colors.text.primary }]}>
+        {label}
+      </Text>
+      <Text style={[styles.ringDetail, { color: colors.text.secondary }]}>
+        {formatMinutes(progress.minutes)} / {formatMinutes(progress.target)}
+      </Text>
+    </View>
+  );
+}
+
+export default function GoalProgress({
+  tasks = [],
+  showHistory = false,
+}: GoalProgressProps) {
+  const colors = useThemeColor();
+  const allSessions = useTimerStore((s) => s.sessions);
+  const includeManualSessions = useTimerStore((s) => s.includeManualSessions);
+  const focusGoal = useTimerStore((s) => s.focusGoal);
+  const taskGoals = useTimerStore((s) => s.taskGoals);
+
+  // Same sessions the stats count
+  const sessions = useMemo(
+    () =>
+      includeManualSessions
+        ? allSessions
+        : allSessions.filter((s) => !s.isManual),
+    [allSessions, includeManualSessions],
+  );
+
+  const rows = useMemo<GoalRow[]>(
+    () =>
+      [
+        { label: "All tasks", goal: focusGoal },
+        ...tasks.map((task) => ({
+          label: task,
+          task,
+          goal: getTaskGoal(taskGoals, task),
+        })),
+      ].filter((row) => row.goal.day > 0 || row.goal.week > 0),
+    [tasks, focusGoal, taskGoals],
+  );
+
+  // The streak can run past the sessions the store holds, so it comes
+  // from SQLite
+  const [streak, setStreak] = useState(0);
+  useEffect(() => {
+    if (!showHistory || focusGoal.day === 0) return;
+    let cancelled = false;
+    loadStreak(focusGoal.day, { includeManual: includeManualSessions })
+      .then(({ current }) => {
+        if (!cancelled) setStreak(current);
+      })
+      .catch((error) => console.error("Failed to load goal streak:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [showHistory, allSessions, includeManualSessions, focusGoal.day]);
+
+  const history = useMemo(() => {
+    if (!showHistory || focusGoal.day === 0) return null;
+    return {
+      hits: getGoalHistory(sessions, focusGoal.day, "day", HISTORY_DAYS)
+        .filter(Boolean).length,
+      streak,
+    };
+  }, [showHistory, sessions, focusGoal.day, streak]);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card }]}>
+      <Text style={[styles.title, { color: colors.text.primary }]}>Goals</Text>
+
+      {rows.map((row) => (
+        <View key={row.label} style={styles.row}>
+          {rows.length > 1 && (
+            <Text style={[styles.rowLabel, { color: colors.text.secondary }]}>
+              {row.label}
+            </Text>
+          )}
+          <View style={styles.rings}>
+            {PERIODS.filter((period) => row.goal[period] > 0).map(
+              (period) => (
+                <GoalRing
+                  key={period}
+                  label={PERIOD_LABELS[period]}
+                  progress={getGoalProgress(
+                    sessions,
+                    row.goal[period],
+                    period,
+                    row.task,
+                  )}
+                />
+              ),
+            )}
+          </View>
+        </View>
+      ))}
+
+      {history && (
+        <View style={[styles.history, { borderTopColor: colors.border }]}>
+          <Flame size={16} color={colors.error} />
+          <Text style={[styles.historyText, { color: colors.text.secondary }]}>
+            Daily goal hit {history.hits} of the last {HISTORY_DAYS} days
+            {history.streak > 1 && ` · ${history.streak} day streak`}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: RADIUS.xl,
+    margin: SPACING.p4,
+    marginTop: 0,
+    padding: SPACING.p4,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  title: {
+    fontSize: TYPOGRAPHY.size.lg,
+    fontFamily: "Outfit_700Bold",
+    marginBottom: SPACING.md,
+  },
+  row: {
+    marginBottom: SPACING.md,
+  },
+  rowLabel: {
+    fontSize: TYPOGRAPHY.size.sm,
+    fontFamily: "Outfit_600SemiBold",
+    marginBottom: SPACING.sm,
+  },
+  rings: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+  },
+  ring: {
+    alignItems: "center",
+  },
+  ringGraphic: {
+    width: RING_SIZE,
+    height: RING_SIZE,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  ringPercent: {
+    position: "absolute",
+    fontSize: TYPOGRAPHY.size.md,
+    fontFamily: "Outfit_700Bold",
+  },
+  ringLabel: {
+    fontSize: TYPOGRAPHY.size.md,
+    fontFamily: "Outfit_600SemiBold",
+    marginTop: SPACING.sm,
+  },
+  ringDetail: {
+    fontSize: TYPOGRAPHY.size.sm,
+    fontFamily: "Outfit_400Regular",
+    marginTop: 2,
+  },
+  history: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: SPACING.sm,
+    borderTopWidth: 1,
+    paddingTop: SPACING.md,
+  },
+  historyText: {
+    fontSize: TYPOGRAPHY.size.sm,
+    fontFamily: "Outfit_400Regular",
+    flex: 1,
+  },
+});
@@ -0,0 +1,471 @@
+/**
+ * Log Session Modal
+ *
+ * Records a focus session that happened away from the phone (a meeting,
+ * reading on paper). The user picks the task, mood, when it started and
+ * how long it was meant to and did last; the session is flagged as manual
+ * and can optionally teach the adaptive coach.
+ */
+import { RADIUS, SPACING, TYPOGRAPHY } from "@/constants/layout";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { ManualSessionInput } from "@/services/sessionService";
+import { EnergyLevel } from "@/types";
+import { Minus, Plus, X } from "lucide-react-native";
+import React from "react";
+import {
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Switch,
+    Text,
+    TouchableOpacity,
+    TouchableWithoutFeedback,
+    View,
+} from "react-native";
+
+interface LogSessionModalProps {
+  visible: boolean;
+  availableTaskTypes: string[];
+  defaultTaskType?: string;
+  onClose: () => void;
+  onSave: (input: ManualSessionInput) => void;
+}
+
+const MOODS: { level: EnergyLevel; label: string }[] = [
+  { level: "high", label: "Intense" },
+  { level: "mid", label: "Steady" },
+  { level: "low", label: "Relaxed" },
+];
+
+const DAYS = [
+  { offset: 0, label: "Today" },
+  { offset: 1, label: "Yesterday" },
+  { offset: 2, label: "2 days ago" },
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+const START_STEP = 15; // Minutes
+const DURATION_STEP = 5; // Minutes
+const DEFAULT_DURATION = 45;
+
+/**
+ * Minutes since midnight an hour ago, rounded down to the start step.
+ */
+const getDefaultStartMinute = () => {
+  const now = new Date();
+  const minute = now.getHours() * 60 + now.getMinutes() - 60;
+  return Math.max(0, Math.floor(minute / START_STEP) * START_STEP);
+};
+
+const formatStart = (minute: number) =>
+  new Date(2000, 0, 1, Math.floor(minute / 60), minute % 60).toLocaleTimeString(
+    "en-US",
+    { hour: "numeric", minute: "2-digit" },
+  );
+
+export default function LogSessionModal({
+  visible,
+  availableTaskTypes,
+  defaultTaskType,
+  onClose,
+  onSave,
+}: LogSessionModalProps) {
+  const colors = useThemeColor();
+  const [taskType, setTaskType] = React.useState("");
+  const [energyLevel, setEnergyLevel] = React.useState<EnergyLevel>("mid");
+  const [dayOffset, setDayOffset] = React.useState(0);
+  const [startMinute, setStartMinute] = React.useState(getDefaultStartMinute);
+  const [targetMinutes, setTargetMinutes] = React.useState(DEFAULT_DURATION);
+  const [actualMinutes, setActualMinutes] = React.useState(DEFAULT_DURATION);
+  const [learn, setLearn] = React.useState(true);
+
+  // Reset the form each time it opens
+  React.useEffect(() => {
+    if (visible) {
+      setTaskType(defaultTaskType || availableTaskTypes[0] || "");
+      setEnergyLevel("mid");
+      setDayOffset(0);
+      setStartMinute(getDefaultStartMinute());
+      setTargetMinutes(DEFAULT_DURATION);
+      setActualMinutes(DEFAULT_DURATION);
+      setLearn(true);
+    }
+  }, [visible]);
+
+  const startedAt = new Date();
+  startedAt.setDate(startedAt.getDate() - dayOffset);
+  startedAt.setHours(Math.floor(startMinute / 60), startMinute % 60, 0, 0);
+  const endsInFuture =
+    startedAt.getTime() + actualMinutes * 60000 > Date.now();
+  const canSave = !!taskType && !endsInFuture;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      taskType,
+      energyLevel,
+      startedAt,
+      targetMinutes,
+      actualMinutes,
+      learn,
+    });
+    onClose();
+  };
+
+  const renderChip = (
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <TouchableOpacity
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected
+            ? colors.primary
+            : colors.text.secondary + "20",
+          borderColor: selected ? colors.primary : "transparent",
+        },
+      ]}
+      onPress={onPress}
+    >
+      <Text
+        style={[
+          styles.chipText,
+          {
+            color: selected ? colors.card : colors.text.primary,
+            fontFamily: selected ? "Outfit_600SemiBold" : "Outfit_400Regular",
+          },
+        ]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderStepper = (
+    label: string,
+    value: string,
+    onMinus: () => void,
+    onPlus: () => void,
+  ) => (
+    <View style={styles.row}>
+      <Text style={[styles.rowLabel, { color: colors.text.primary }]}>
+        {label}
+      </Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={[
+            styles.stepButton,
+            { backgroundColor: colors.text.secondary + "20" },
+          ]}
+          onPress={onMinus}
+        >
+          <Minus size={18} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.stepValue, { color: colors.text.primary }]}>
+          {value}
+        </Text>
+        <TouchableOpacity
+          style={[
+            styles.stepButton,
+            { backgroundColor: colors.text.secondary + "20" },
+          ]}
+          onPress={onPlus}
+        >
+          <Plus size={18} color={colors.text.primary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay}>
+          <TouchableWithoutFeedback>
+            <View
+              style={[
+                styles.modalContent,
+                { backgroundColor: colors.background },
+              ]}
+            >
+              <View style={styles.header}>
+                <Text style={[styles.title, { color: colors.text.primary }]}>
+                  Log Past Session
+                </Text>
+                <TouchableOpacity onPress={onClose}>
+                  <X size={24} color={colors.text.secondary} />
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView
+                style={styles.scrollContent}
+                showsVerticalScrollIndicator={false}
+              >
+                {/* Task Type */}
+                <Text
+                  style={[
+                    styles.sectionTitle,
+                    { color: colors.text.secondary },
+                  ]}
+                >
+                  Task Type
+                </Text>
+                <View style={styles.chipContainer}>
+                  {availableTaskTypes.map((type) => (
+                    <React.Fragment key={type}>
+                      {renderChip(type, taskType === type, () =>
+                        setTaskType(type),
+                      )}
+                    </React.Fragment>
+                  ))}
+                </View>
+
+                {/* Focus Mood */}
+                <Text
+                  style={[
+                    styles.sectionTitle,
+                    { color: colors.text.secondary, marginTop: 20 },
+                  ]}
+                >
+                  Focus Mood
+                </Text>
+                <View style={styles.chipContainer}>
+                  {MOODS.map(({ level, label }) => (
+                    <React.Fragment key={level}>
+                      {renderChip(label, energyLevel === level, () =>
+                        setEnergyLevel(level),
+                      )}
+                    </React.Fragment>
+                  ))}
+                </View>
+
+                {/* When */}
+                <Text
+                  style={[
+                    styles.sectionTitle,
+                    { color: colors.text.secondary, marginTop: 20 },
+                  ]}
+                >
+                  Started
+                </Text>
+                <View style={styles.chipContainer}>
+                  {DAYS.map(({ offset, label }) => (
+                    <React.Fragment key={offset}>
+                      {renderChip(label, dayOffset === offset, () =>
+                        setDayOffset(offset),
+                      )}
+                    </React.Fragment>
+                  ))}
+                </View>
+                {renderStepper(
+                  "At",
+                  formatStart(startMinute),
+                  () => setStartMinute((m) => Math.max(0, m - START_STEP)),
+                  () =>
+                    setStartMinute((m) =>
+                      Math.min(MINUTES_PER_DAY - START_STEP, m + START_STEP),
+                    ),
+                )}
+
+                {/* How long */}
+                <Text
+                  style={[
+                    styles.sectionTitle,
+                    { color: colors.text.secondary, marginTop: 20 },
+                  ]}
+                >
+                  Duration
+                </Text>
+                {renderStepper(
+                  "Planned",
+                  `${targetMinutes} min`,
+                  () =>
+                    setTargetMinutes((m) =>
+                      Math.max(DURATION_STEP, m - DURATION_STEP),
+                    ),
+                  () => setTargetMinutes((m) => m + DURATION_STEP),
+                )}
+                {renderStepper(
+                  "Focused",
+                  `${actualMinutes} min`,
+                  () =>
+                    setActualMinutes((m) =>
+                      Math.max(DURATION_STEP, m - DURATION_STEP),
+                    ),
+                  () => setActualMinutes((m) => m + DURATION_STEP),
+                )}
+
+                <View style={styles.row}>
+                  <View style={styles.rowText}>
+                    <Text
+                      style={[styles.rowLabel, { color: colors.text.primary }]}
+                    >
+                      Teach the coach
+                    </Text>
+                    <Text
+                      style={[styles.rowHint, { color: colors.text.secondary }]}
+                    >
+                      Use this session for future recommendations
+                    </Text>
+                  </View>
+                  <Switch
+                    value={learn}
+                    onValueChange={setLearn}
+                    trackColor={{
+                      false: colors.inactive,
+                      true: colors.primary,
+                    }}
+                    thumbColor={colors.card}
+                  />
+                </View>
+
+                {endsInFuture && (
+                  <Text style={[styles.warning, { color: colors.error }]}>
+                    This session would end in the future
+                  </Text>
+                )}
+              </ScrollView>
+
+              <View style={styles.footer}>
+                <TouchableOpacity
+                  style={[
+                    styles.saveButton,
+                    {
+                      backgroundColor: canSave
+                        ? colors.primary
+                        : colors.inactive,
+                    },
+                  ]}
+                  onPress={handleSave}
+                  disabled={!canSave}
+                >
+                  <Text style={[styles.saveText, { color: colors.card }]}>
+                    Log Session
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "center",
+    padding: SPACING.xl,
+  },
+  modalContent: {
+    borderRadius: RADIUS.xl,
+    maxHeight: "85%",
+    padding: SPACING.xl,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: SPACING.xl,
+  },
+  title: {
+    fontSize: TYPOGRAPHY.size.xxl,
+    fontFamily: "Outfit_700Bold",
+  },
+  scrollContent: {
+    marginBottom: SPACING.xl,
+  },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.size.md,
+    fontFamily: "Outfit_600SemiBold",
+    marginBottom: SPACING.md,
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  chipContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.lg,
+    borderRadius: RADIUS.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: TYPOGRAPHY.size.md,
+    fontFamily: "Outfit_400Regular",
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: SPACING.md,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: SPACING.md,
+  },
+  rowLabel: {
+    fontSize: TYPOGRAPHY.size.lg,
+    fontFamily: "Outfit_400Regular",
+  },
+  rowHint: {
+    fontSize: TYPOGRAPHY.size.sm,
+    fontFamily: "Outfit_400Regular",
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: SPACING.md,
+  },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: RADIUS.full,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepValue: {
+    minWidth: 72,
+    textAlign: "center",
+    fontSize: TYPOGRAPHY.size.lg,
+    fontFamily: "Outfit_600SemiBold",
+  },
+  warning: {
+    marginTop: SPACING.md,
+    fontSize: TYPOGRAPHY.size.sm,
+    fontFamily: "Outfit_400Regular",
+  },
+  footer: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    paddingTop: SPACING.lg,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(0,0,0,0.05)",
+  },
+  saveButton: {
+    paddingVertical: SPACING.md,
+    paddingHorizontal: SPACING.xxl,
+    borderRadius: RADIUS.lg,
+  },
+  saveText: {
+    fontSize: TYPOGRAPHY.size.lg,
+    fontFamily: "Outfit_700Bold",
+  },
+});
@@ -2,13 +2,23 @@
  * Recommendation Card
  *
  * A UI notification that appears when the RL system has a smart focus/break
- * recommendation. Users can accept it or choose to customize their session.
+ * recommendation. Users can accept it or choose to customize their session,
+ * and expand "Why this duration?" to see how the engine reached the number.
  */
 import { RADIUS, SPACING, TYPOGRAPHY } from "@/constants/layout";
 import { useThemeColor } from "@/hooks/useThemeColor";
+import { CONFIDENT_THRESHOLD } from "@/services/adaptiveEngine";
+import { STRATEGIES } from "@/services/strategies";
 import useTimerStore from "@/store/timerStore";
-import { ThumbsDown, ThumbsUp, Zap } from "lucide-react-native";
-import React from "react";
+import { describeTrace } from "@/utils/recommendationTrace";
+import {
+  ChevronDown,
+  ChevronUp,
+  ThumbsDown,
+  ThumbsUp,
+  Zap,
+} from "lucide-react-native";
+import React, { useState } from "react";
 import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
 const safeNum = (x: any): number => {
   const n = Number(x);
@@ -29,7 +39,10 @@ export default function RecommendationModal() {
     setHasDismissedRecommendationCard,
     hasDismissedRecommendationCard,
     hasInteractedWithTimer,
+    recommendationTrace,
+    recommendationStrategy,
   } = useTimerStore();
+  const [showWhy, setShowWhy] = useState(false);
 
   const focus = safeNum(recommendedFocusDuration);
   const breakDur = safeNum(recommendedBreakDuration);
@@ -59,8 +72,29 @@ export default function RecommendationModal() {
         <View style={styles.header}>
           <Zap size={20} color={colors.primary} />
           <Text style={[styles.title, { color: colors.text.primary }]}>
-            Smart Recommendation
+            {recommendationStrategy === "adaptive"
+              ? "Smart Recommendation"
+              : STRATEGIES[recommendationStrategy].label}
           </Text>
+          {recommendationTrace && recommendationTrace.historySize > 0 && (
+            <View
+              style={[
+                styles.confidenceBadge,
+                { backgroundColor: colors.background },
+              ]}
+            >
+              <Text
+                style={[
+                  styles.confidenceText,
+                  { color: colors.text.secondary },
+                ]}
+              >
+                {recommendationTrace.confidence >= CONFIDENT_THRESHOLD
+                  ? "Confident"
+                  : "Still learning"}
+              </Text>
+            </View>
+          )}
         </View>
 
         <Text style={[styles.description, { color: colors.text.secondary }]}>
@@ -120,6 +154,45 @@ export default function RecommendationModal() {
           </View>
         </View>
 
+        {recommendationTrace && (
+          <View style={styles.whySection}>
+            <TouchableOpacity
+              style={styles.whyToggle}
+              onPress={() => setShowWhy((v) => !v)}
+            >
+              <Text style={[styles.whyToggleText, { color: colors.primary }]}>
+                Why this duration?
+              </Text>
+              {showWhy ? (
+                <ChevronUp size={16} color={colors.primary} />
+              ) : (
+                <ChevronDown size={16} color={colors.primary} />
+              )}
+            </TouchableOpacity>
+
+            {showWhy && (
+              <View
+                style={[styles.whyPanel, { backgroundColor: colors.background }]}
+              >
+                {describeTrace(recommendationTrace).map((line) => (
+                  <View key={line.label} style={styles.whyRow}>
+                    <Text
+                      style={[styles.whyLabel, { color: colors.text.secondary }]}
+                    >
+                      {line.label}
+                    </Text>
+                    <Text
+                      style={[styles.whyValue, { color: colors.text.primary }]}
+                    >
+                      {line.value}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+
         <View style={styles.actionButtons}>
           <TouchableOpacity
             style={[
@@ -201,6 +274,16 @@ const styles = StyleSheet.create({
     fontFamily: "Outfit_700Bold",
     marginLeft: SPACING.sm,
   },
+  confidenceBadge: {
+    marginLeft: "auto",
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: RADIUS.md,
+  },
+  confidenceText: {
+    fontSize: TYPOGRAPHY.size.xs,
+    fontFamily: "Outfit_600SemiBold",
+  },
   description: {
     fontSize: TYPOGRAPHY.size.md,
     fontFamily: "Outfit_400Regular",
@@ -227,6 +310,40 @@ const styles = StyleSheet.create({
     fontSize: TYPOGRAPHY.size.xxl + 2,
     fontFamily: "Outfit_700Bold",
   },
+  whySection: {
+    marginBottom: SPACING.xl,
+  },
+  whyToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: SPACING.xs,
+  },
+  whyToggleText: {
+    fontSize: TYPOGRAPHY.size.sm + 1,
+    fontFamily: "Outfit_600SemiBold",
+  },
+  whyPanel: {
+    marginTop: SPACING.md,
+    padding: SPACING.md,
+    borderRadius: RADIUS.md,
+    gap: SPACING.sm,
+  },
+  whyRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: SPACING.md,
+  },
+  whyLabel: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.size.sm,
+    fontFamily: "Outfit_400Regular",
+  },
+  whyValue: {
+    fontSize: TYPOGRAPHY.size.sm,
+    fontFamily: "Outfit_600SemiBold",
+  },
   actionButtons: {
     flexDirection: "row",
     justifyContent: "space-between",
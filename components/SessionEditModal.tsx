@@ -0,0 +1,382 @@
+/**
+ * Session Edit Modal
+ *
+ * Lets the user correct a saved session - task, mood, focused minutes and
+ * whether it was completed - or delete it. Saving re-runs adaptive learning
+ * for the contexts the session belongs to.
+ */
+import { RADIUS, SPACING, TYPOGRAPHY } from "@/constants/layout";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { SessionEdit } from "@/store/slices/sliceTypes";
+import { EnergyLevel, Session } from "@/types";
+import { Minus, Plus, Trash2, X } from "lucide-react-native";
+import React from "react";
+import {
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Switch,
+    Text,
+    TouchableOpacity,
+    TouchableWithoutFeedback,
+    View,
+} from "react-native";
+
+interface SessionEditModalProps {
+  visible: boolean;
+  session: Session;
+  availableTaskTypes: string[];
+  onClose: () => void;
+  onSave: (changes: SessionEdit) => void;
+  onDelete: () => void;
+}
+
+const MOODS: { level: EnergyLevel; label: string }[] = [
+  { level: "high", label: "Intense" },
+  { level: "mid", label: "Steady" },
+  { level: "low", label: "Relaxed" },
+];
+
+const FOCUS_STEP = 5;
+
+export default function SessionEditModal({
+  visible,
+  session,
+  availableTaskTypes,
+  onClose,
+  onSave,
+  onDelete,
+}: SessionEditModalProps) {
+  const colors = useThemeColor();
+  const [taskType, setTaskType] = React.useState(session.taskType);
+  const [energyLevel, setEnergyLevel] = React.useState<EnergyLevel>(
+    session.energyLevel,
+  );
+  const [focused, setFocused] = React.useState(
+    Math.round(session.focusedUntilSkipped),
+  );
+  const [completed, setCompleted] = React.useState(session.sessionCompleted);
+
+  // Sync state when modal opens
+  React.useEffect(() => {
+    if (visible) {
+      setTaskType(session.taskType);
+      setEnergyLevel(session.energyLevel);
+      setFocused(Math.round(session.focusedUntilSkipped));
+      setCompleted(session.sessionCompleted);
+    }
+  }, [visible, session]);
+
+  // Always offer the session's own task, even if it was removed since
+  const taskTypes = availableTaskTypes.includes(session.taskType)
+    ? availableTaskTypes
+    : [session.taskType, ...availableTaskTypes];
+
+  const goal = session.userSelectedDuration;
+
+  const toggleCompleted = (value: boolean) => {
+    setCompleted(value);
+    // A completed session ran its full length
+    if (value) setFocused(goal);
+  };
+
+  const adjustFocused = (delta: number) => {
+    const next = Math.max(1, Math.min(goal, focused + delta));
+    setFocused(next);
+    setCompleted(next >= goal);
+  };
+
+  const handleSave = () => {
+    const changes: SessionEdit = {
+      taskType,
+      energyLevel,
+      focusedUntilSkipped: completed ? goal : focused,
+      sessionCompleted: completed,
+    };
+
+    // Only touch the skip reason when completion actually changed
+    if (completed !== session.sessionCompleted) {
+      changes.skipReason = completed ? "none" : "skippedFocus";
+    }
+
+    onSave(changes);
+    onClose();
+  };
+
+  const renderChip = (
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <TouchableOpacity
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected
+            ? colors.primary
+            : colors.text.secondary + "20",
+          borderColor: selected ? colors.primary : "transparent",
+        },
+      ]}
+      onPress={onPress}
+    >
+      <Text
+        style={[
+          styles.chipText,
+          {
+            color: selected ? colors.card : colors.text.primary,
+            fontFamily: selected ? "Outfit_600SemiBold" : "Outfit_400Regular",
+          },
+        ]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay}>
+          <TouchableWithoutFeedback>
+            <View
+              style={[
+                styles.modalContent,
+                { backgroundColor: colors.background },
+              ]}
+            >
+              <View style={styles.header}>
+                <Text style={[styles.title, { color: colors.text.primary }]}>
+                  Edit Session
+                </Text>
+                <TouchableOpacity onPress={onClose}>
+                  <X size={24} color={colors.text.secondary} />
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView
+                style={styles.scrollContent}
+                showsVerticalScrollIndicator={false}
+              >
+                {/* Task Type */}
+                <Text
+                  style={[
+                    styles.sectionTitle,
+                    { color: colors.text.secondary },
+                  ]}
+                >
+                  Task Type
+                </Text>
+                <View style={styles.chipContainer}>
+                  {taskTypes.map((type) => (
+                    <React.Fragment key={type}>
+                      {renderChip(type, taskType === type, () =>
+                        setTaskType(type),
+                      )}
+                    </React.Fragment>
+                  ))}
+                </View>
+
+                {/* Focus Mood */}
+                <Text
+                  style={[
+                    styles.sectionTitle,
+                    { color: colors.text.secondary, marginTop: 20 },
+                  ]}
+                >
+                  Focus Mood
+                </Text>
+                <View style={styles.chipContainer}>
+                  {MOODS.map(({ level, label }) => (
+                    <React.Fragment key={level}>
+                      {renderChip(label, energyLevel === level, () =>
+                        setEnergyLevel(level),
+                      )}
+                    </React.Fragment>
+                  ))}
+                </View>
+
+                {/* Focus Time */}
+                <Text
+                  style={[
+                    styles.sectionTitle,
+                    { color: colors.text.secondary, marginTop: 20 },
+                  ]}
+                >
+                  Focused
+                </Text>
+                <View style={styles.row}>
+                  <Text style={[styles.rowLabel, { color: colors.text.primary }]}>
+                    Completed
+                  </Text>
+                  <Switch
+                    value={completed}
+                    onValueChange={toggleCompleted}
+                    trackColor={{
+                      false: colors.inactive,
+                      true: colors.primary,
+                    }}
+                    thumbColor={colors.card}
+                  />
+                </View>
+                <View style={styles.row}>
+                  <TouchableOpacity
+                    style={[
+                      styles.stepButton,
+                      { backgroundColor: colors.text.secondary + "20" },
+                    ]}
+                    onPress={() => adjustFocused(-FOCUS_STEP)}
+                  >
+                    <Minus size={18} color={colors.text.primary} />
+                  </TouchableOpacity>
+                  <Text
+                    style={[styles.stepValue, { color: colors.text.primary }]}
+                  >
+                    {completed ? goal : focused} of {goal} min
+                  </Text>
+                  <TouchableOpacity
+                    style={[
+                      styles.stepButton,
+                      { backgroundColor: colors.text.secondary + "20" },
+                    ]}
+                    onPress={() => adjustFocused(FOCUS_STEP)}
+                  >
+                    <Plus size={18} color={colors.text.primary} />
+                  </TouchableOpacity>
+                </View>
+              </ScrollView>
+
+              <View style={styles.footer}>
+                <TouchableOpacity style={styles.deleteButton} onPress={onDelete}>
+                  <Trash2 size={18} color={colors.error} />
+                  <Text style={[styles.deleteText, { color: colors.error }]}>
+                    Delete
+                  </Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={[
+                    styles.saveButton,
+                    { backgroundColor: colors.primary },
+                  ]}
+                  onPress={handleSave}
+                >
+                  <Text style={[styles.saveText, { color: colors.card }]}>
+                    Save
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    justifyContent: "center",
+    padding: SPACING.xl,
+  },
+  modalContent: {
+    borderRadius: RADIUS.xl,
+    maxHeight: "80%",
+    padding: SPACING.xl,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: SPACING.xl,
+  },
+  title: {
+    fontSize: TYPOGRAPHY.size.xxl,
+    fontFamily: "Outfit_700Bold",
+  },
+  scrollContent: {
+    marginBottom: SPACING.xl,
+  },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.size.md,
+    fontFamily: "Outfit_600SemiBold",
+    marginBottom: SPACING.md,
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  chipContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.lg,
+    borderRadius: RADIUS.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: TYPOGRAPHY.size.md,
+    fontFamily: "Outfit_400Regular",
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: SPACING.md,
+  },
+  rowLabel: {
+    fontSize: TYPOGRAPHY.size.lg,
+    fontFamily: "Outfit_400Regular",
+  },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: RADIUS.full,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepValue: {
+    fontSize: TYPOGRAPHY.size.lg,
+    fontFamily: "Outfit_600SemiBold",
+  },
+  footer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingTop: SPACING.lg,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(0,0,0,0.05)",
+  },
+  deleteButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: SPACING.xs,
+    padding: SPACING.sm + 2,
+  },
+  deleteText: {
+    fontSize: TYPOGRAPHY.size.lg,
+    fontFamily: "Outfit_600SemiBold",
+  },
+  saveButton: {
+    paddingVertical: SPACING.md,
+    paddingHorizontal: SPACING.xxl,
+    borderRadius: RADIUS.lg,
+  },
+  saveText: {
+    fontSize: TYPOGRAPHY.size.lg,
+    fontFamily: "Outfit_700Bold",
+  },
+});
@@ -2,7 +2,8 @@
  * Session History Item
  *
  * A summary component for a single focus session. Facilitates viewing
- * session details and adding/editing session notes.
+ * session details, adding/editing session notes and correcting or
+ * deleting the session itself.
  */
 import { RADIUS, SPACING, TYPOGRAPHY } from "@/constants/layout";
 import { useThemeColor } from "@/hooks/useThemeColor";
@@ -12,6 +13,9 @@ import {
     CheckCircle,
     Clock,
     Feather,
+    Pause,
+    PenLine,
+    Pencil,
     SquarePen,
     StickyNote,
     XCircle,
@@ -24,19 +28,51 @@ interface SessionHistoryItemProps {
   session: Session;
 }
 
+import { SessionEdit } from "@/store/slices/sliceTypes";
 import useTimerStore from "@/store/timerStore";
 import NoteEditModal from "./NoteEditModal";
+import SessionEditModal from "./SessionEditModal";
 
 const SessionHistoryItem = ({ session }: SessionHistoryItemProps) => {
   const colors = useThemeColor();
-  const { updateSessionNote } = useTimerStore();
+  const {
+    updateSessionNote,
+    updateSession,
+    deleteSession,
+    previousTasks,
+    showThemedAlert,
+  } = useTimerStore();
   const [showNoteModal, setShowNoteModal] = React.useState(false);
+  const [showEditModal, setShowEditModal] = React.useState(false);
 
   const handleSaveNote = async (note: string) => {
     if (session.id === undefined) return;
     await updateSessionNote(session.id, note);
   };
 
+  const handleSaveEdit = async (changes: SessionEdit) => {
+    if (session.id === undefined) return;
+    await updateSession(session.id, changes);
+  };
+
+  const handleDelete = () => {
+    const id = session.id;
+    if (id === undefined) return;
+    setShowEditModal(false);
+    showThemedAlert(
+      "Delete Session",
+      "Move this session to the trash? Your recommendations will be recalculated without it.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          onPress: () => deleteSession(id),
+          style: "destructive",
+        },
+      ],
+    );
+  };
+
   const formatDate = useCallback((dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString("en-US", {
@@ -52,6 +88,11 @@ const SessionHistoryItem = ({ session }: SessionHistoryItemProps) => {
     const actual = Math.round(session.focusedUntilSkipped);
     const goal = session.userSelectedDuration;
 
+    // Flow mode overtime
+    if (session.sessionCompleted && actual > goal) {
+      return `${actual} min · +${actual - goal} over`;
+    }
+
     // If focus was completed (e.g. break skipped) or actual met goal
     if (session.skipReason === "skippedBreak" || actual >= goal) {
       return `${actual} min`;
@@ -63,6 +104,16 @@ const SessionHistoryItem = ({ session }: SessionHistoryItemProps) => {
     return `${actual} min`;
   };
 
+  // e.g. "Paused 2× · 4 min"; empty when the timer ran straight through
+  const getPauseText = () => {
+    const count = session.pauseCount ?? 0;
+    if (count === 0) return "";
+    const minutes = Math.round((session.pausedSeconds ?? 0) / 60);
+    return minutes > 0
+      ? `Paused ${count}× · ${minutes} min`
+      : `Paused ${count}×`;
+  };
+
   const renderEnergyIcon = (level: EnergyLevel) => {
     switch (level) {
       case "low":
@@ -108,6 +159,7 @@ const SessionHistoryItem = ({ session }: SessionHistoryItemProps) => {
   };
 
   const { status, color, icon } = getSessionStatus();
+  const pauseText = getPauseText();
 
   return (
     <View style={[styles.container, { backgroundColor: colors.card }]}>
@@ -115,9 +167,26 @@ const SessionHistoryItem = ({ session }: SessionHistoryItemProps) => {
         <Text style={[styles.taskType, { color: colors.text.primary }]}>
           {session.taskType}
         </Text>
-        <Text style={[styles.date, { color: colors.text.secondary }]}>
-          {formatDate(session.createdAt)}
-        </Text>
+        <View style={styles.headerRight}>
+          {session.isManual && (
+            <View style={styles.manualBadge}>
+              <PenLine size={12} color={colors.text.secondary} />
+              <Text style={[styles.date, { color: colors.text.secondary }]}>
+                Logged
+              </Text>
+            </View>
+          )}
+          <Text style={[styles.date, { color: colors.text.secondary }]}>
+            {formatDate(session.createdAt)}
+          </Text>
+          <TouchableOpacity
+            style={styles.editButton}
+            onPress={() => setShowEditModal(true)}
+            hitSlop={8}
+          >
+            <Pencil size={14} color={colors.text.secondary} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       <View style={styles.details}>
@@ -129,6 +198,17 @@ const SessionHistoryItem = ({ session }: SessionHistoryItemProps) => {
             </Text>
           </View>
 
+          {pauseText !== "" && (
+            <View style={styles.detailItem}>
+              <Pause size={16} color={colors.text.secondary} />
+              <Text
+                style={[styles.detailText, { color: colors.text.secondary }]}
+              >
+                {pauseText}
+              </Text>
+            </View>
+          )}
+
           <View style={styles.detailItem}>
             {renderEnergyIcon(session.energyLevel as EnergyLevel)}
             <Text style={[styles.detailText, { color: colors.text.secondary }]}>
@@ -185,6 +265,15 @@ const SessionHistoryItem = ({ session }: SessionHistoryItemProps) => {
         onClose={() => setShowNoteModal(false)}
         onSave={handleSaveNote}
       />
+
+      <SessionEditModal
+        visible={showEditModal}
+        session={session}
+        availableTaskTypes={previousTasks}
+        onClose={() => setShowEditModal(false)}
+        onSave={handleSaveEdit}
+        onDelete={handleDelete}
+      />
     </View>
   );
 };
@@ -215,10 +304,23 @@ const styles = StyleSheet.create({
     fontSize: TYPOGRAPHY.size.lg,
     fontFamily: "Outfit_700Bold",
   },
+  headerRight: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
   date: {
     fontSize: TYPOGRAPHY.size.sm,
     fontFamily: "Outfit_400Regular",
   },
+  manualBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+    marginRight: SPACING.sm,
+  },
+  editButton: {
+    marginLeft: SPACING.sm,
+  },
   details: {
     gap: SPACING.sm,
   },
@@ -0,0 +1,286 @@
+/**
+ * Survival Curve Chart
+ *
+ * Step chart of the focus drop-off curve for one task: the chance of still
+ * focusing at each minute, one line per focus mood, with the coach's
+ * target probability marked.
+ */
+import { RADIUS, SPACING, TYPOGRAPHY } from "@/constants/layout";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { SURVIVAL_TARGET_PROBABILITY } from "@/services/adaptiveEngine";
+import { EnergyLevel } from "@/types";
+import { SurvivalChartLine } from "@/utils/performanceUtils";
+import React, { useState } from "react";
+import {
+  LayoutChangeEvent,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import Svg, { Line, Path, Text as SvgText } from "react-native-svg";
+
+interface SurvivalCurveChartProps {
+  data: {
+    lines: SurvivalChartLine[];
+    maxMinute: number;
+  };
+  tasks: string[];
+  selectedTask: string;
+  onSelectTask: (task: string) => void;
+  height?: number;
+}
+
+const DEFAULT_CHART_HEIGHT = 180;
+const Y_AXIS_WIDTH = 36;
+const PADDING_RIGHT = 12;
+const PADDING_TOP = 10;
+const X_LABEL_HEIGHT = 20;
+
+const MOOD_LABELS: Record<EnergyLevel, string> = {
+  low: "Relaxed",
+  mid: "Steady",
+  high: "Intense",
+  "": "Unknown",
+};
+
+export default function SurvivalCurveChart({
+  data,
+  tasks,
+  selectedTask,
+  onSelectTask,
+  height = DEFAULT_CHART_HEIGHT,
+}: SurvivalCurveChartProps) {
+  const Colors = useThemeColor();
+  const [width, setWidth] = useState(0);
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const lineColors: Record<EnergyLevel, string> = {
+    low: Colors.success,
+    mid: Colors.primary,
+    high: Colors.warning,
+    "": Colors.inactive,
+  };
+
+  // Round the x-axis up to a tidy multiple of 15 minutes
+  const xMax = Math.max(15, Math.ceil(data.maxMinute / 15) * 15);
+  const drawingWidth = Math.max(0, width - Y_AXIS_WIDTH - PADDING_RIGHT);
+  const graphHeight = height - PADDING_TOP - X_LABEL_HEIGHT;
+
+  const toX = (minute: number) => Y_AXIS_WIDTH + (minute / xMax) * drawingWidth;
+  const toY = (probability: number) =>
+    PADDING_TOP + (1 - probability) * graphHeight;
+
+  const buildPath = (line: SurvivalChartLine) => {
+    let path = `M ${toX(0)} ${toY(1)}`;
+    for (const point of line.points.slice(1)) {
+      path += ` H ${toX(point.minute)} V ${toY(point.probability)}`;
+    }
+    return `${path} H ${toX(data.maxMinute)}`;
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: Colors.card }]}>
+      <Text style={[styles.chartTitle, { color: Colors.text.primary }]}>
+        Focus Drop-off
+      </Text>
+      <Text style={[styles.chartSubtitle, { color: Colors.text.secondary }]}>
+        Chance you're still focusing at each minute
+      </Text>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.taskChips}
+      >
+        {tasks.map((task) => (
+          <TouchableOpacity
+            key={task}
+            onPress={() => onSelectTask(task)}
+            style={[
+              styles.taskChip,
+              {
+                borderColor: Colors.border,
+                backgroundColor:
+                  task === selectedTask ? Colors.primary : "transparent",
+              },
+            ]}
+          >
+            <Text
+              style={[
+                styles.taskChipText,
+                {
+                  color: task === selectedTask ? "#FFF" : Colors.text.primary,
+                },
+              ]}
+            >
+              {task}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <View style={{ width: "100%", height }} onLayout={onLayout}>
+        {width > 0 && data.lines.length > 0 && (
+          <Svg width={width} height={height}>
+            {/* Grid & Y-Axis Labels */}
+            {[0, 0.5, 1].map((p) => (
+              <React.Fragment key={`grid-${p}`}>
+                <Line
+                  x1={Y_AXIS_WIDTH}
+                  x2={Y_AXIS_WIDTH + drawingWidth}
+                  y1={toY(p)}
+                  y2={toY(p)}
+                  stroke={Colors.text.light}
+                  strokeOpacity={0.1}
+                />
+                <SvgText
+                  x={Y_AXIS_WIDTH - 6}
+                  y={toY(p) + 3}
+                  fontSize={TYPOGRAPHY.size.xs}
+                  fontFamily="Outfit_400Regular"
+                  fill={Colors.text.secondary}
+                  textAnchor="end"
+                >
+                  {`${p * 100}%`}
+                </SvgText>
+              </React.Fragment>
+            ))}
+
+            {/* Target probability the coach aims for */}
+            <Line
+              x1={Y_AXIS_WIDTH}
+              x2={Y_AXIS_WIDTH + drawingWidth}
+              y1={toY(SURVIVAL_TARGET_PROBABILITY)}
+              y2={toY(SURVIVAL_TARGET_PROBABILITY)}
+              stroke={Colors.text.secondary}
+              strokeDasharray="4 4"
+              strokeOpacity={0.6}
+            />
+
+            {/* X-Axis Labels */}
+            {[0, xMax / 3, (xMax * 2) / 3, xMax].map((minute) => (
+              <SvgText
+                key={`x-${minute}`}
+                x={toX(minute)}
+                y={height - 4}
+                fontSize="9"
+                fontFamily="Outfit_400Regular"
+                fill={Colors.text.secondary}
+                textAnchor="middle"
+              >
+                {`${Math.round(minute)}m`}
+              </SvgText>
+            ))}
+
+            {/* Curves */}
+            {data.lines.map((line) => (
+              <Path
+                key={line.energyLevel}
+                d={buildPath(line)}
+                stroke={lineColors[line.energyLevel]}
+                strokeWidth={2}
+                fill="none"
+              />
+            ))}
+          </Svg>
+        )}
+
+        {data.lines.length === 0 && (
+          <View style={styles.noDataContainer}>
+            <Text style={[styles.noDataText, { color: Colors.text.light }]}>
+              No data
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {/* Legend */}
+      <View style={styles.legend}>
+        {data.lines.map((line) => (
+          <View key={line.energyLevel} style={styles.legendItem}>
+            <View
+              style={[
+                styles.legendSwatch,
+                { backgroundColor: lineColors[line.energyLevel] },
+              ]}
+            />
+            <Text style={[styles.legendText, { color: Colors.text.secondary }]}>
+              {MOOD_LABELS[line.energyLevel]} ({line.sessionCount})
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: RADIUS.xl,
+    padding: SPACING.p4,
+    marginVertical: SPACING.p2,
+    elevation: 2,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  chartTitle: {
+    fontSize: TYPOGRAPHY.size.lg,
+    fontFamily: "Outfit_600SemiBold",
+  },
+  chartSubtitle: {
+    fontSize: TYPOGRAPHY.size.sm,
+    fontFamily: "Outfit_400Regular",
+    marginTop: 2,
+    marginBottom: SPACING.sm,
+  },
+  taskChips: {
+    gap: SPACING.sm,
+    paddingBottom: SPACING.sm,
+  },
+  taskChip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.md,
+    borderWidth: 1,
+  },
+  taskChipText: {
+    fontSize: TYPOGRAPHY.size.sm,
+    fontFamily: "Outfit_500Medium",
+  },
+  noDataContainer: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  noDataText: {
+    fontSize: TYPOGRAPHY.size.md,
+    fontFamily: "Outfit_400Regular",
+  },
+  legend: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: SPACING.md,
+    marginTop: SPACING.sm,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: SPACING.xs,
+  },
+  legendText: {
+    fontSize: TYPOGRAPHY.size.sm,
+    fontFamily: "Outfit_400Regular",
+  },
+});
@@ -6,6 +6,7 @@
  */
 import { RADIUS, SPACING, TYPOGRAPHY } from "@/constants/layout";
 import { useThemeColor } from "@/hooks/useThemeColor";
+import { isSessionInProgress } from "@/store/slices/timerMachine";
 import useTimerStore from "@/store/timerStore";
 import { ChevronRight } from "lucide-react-native";
 import React, { useState } from "react";
@@ -31,8 +32,7 @@ export default function TaskSelector() {
     setTaskType,
     toggleTaskModal,
     addCustomTask,
-    isActive,
-    isBreakTime,
+    timerPhase,
     removeCustomTask,
     hasMigratedTasks,
     migrateTasks,
@@ -49,7 +49,7 @@ export default function TaskSelector() {
   // but ensure we have unique values just in case
   const taskList = [...new Set(previousTasks)];
 
-  const isTimerRunning = isActive || isBreakTime;
+  const isTimerRunning = isSessionInProgress(timerPhase);
 
   const handleDeleteTask = (task: string) => {
     showThemedAlert(
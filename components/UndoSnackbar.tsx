@@ -0,0 +1,82 @@
+/**
+ * Undo Snackbar
+ *
+ * Shown after a session (or the whole history) is moved to the trash.
+ * Offers a one-tap undo for a few seconds, then gets out of the way; the
+ * sessions stay restorable from the trash screen until they're purged.
+ */
+import { RADIUS, SPACING, TYPOGRAPHY } from "@/constants/layout";
+import { UNDO_TIMEOUT_MS } from "@/constants/timer";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import useTimerStore from "@/store/timerStore";
+import React, { useEffect } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+const TAB_BAR_HEIGHT = 60;
+
+export default function UndoSnackbar() {
+  const colors = useThemeColor();
+  const insets = useSafeAreaInsets();
+  const pendingUndo = useTimerStore((s) => s.pendingUndo);
+  const undoDelete = useTimerStore((s) => s.undoDelete);
+  const dismissUndo = useTimerStore((s) => s.dismissUndo);
+
+  // Each new delete restarts the countdown
+  useEffect(() => {
+    if (!pendingUndo) return;
+    const timeout = setTimeout(dismissUndo, UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, [pendingUndo, dismissUndo]);
+
+  if (!pendingUndo) return null;
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: colors.text.primary,
+          bottom: TAB_BAR_HEIGHT + insets.bottom + SPACING.md,
+        },
+      ]}
+    >
+      <Text style={[styles.message, { color: colors.card }]} numberOfLines={1}>
+        {pendingUndo.message}
+      </Text>
+      <TouchableOpacity onPress={undoDelete} hitSlop={8}>
+        <Text style={[styles.action, { color: colors.primary }]}>UNDO</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    left: SPACING.lg,
+    right: SPACING.lg,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: SPACING.md,
+    paddingHorizontal: SPACING.lg,
+    borderRadius: RADIUS.lg,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  message: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.size.md,
+    fontFamily: "Outfit_400Regular",
+    marginRight: SPACING.md,
+  },
+  action: {
+    fontSize: TYPOGRAPHY.size.md,
+    fontFamily: "Outfit_700Bold",
+    letterSpacing: 0.5,
+  },
+});
@@ -78,6 +78,29 @@ export const DEFAULT_TASKS = [
 
 export const CANCEL_TIMEOUT = 10000; //10 seconds before showing skip button
 export const MIN_SESSION_FOR_SAVE = 60; //minimum seconds of focus before saving session
+export const MAX_OVERTIME = 60 * 60; //flow mode ends focus on its own after this much overtime
+export const UNDO_TIMEOUT_MS = 6000; //how long the undo snackbar stays up after a delete
+
+//how long deleted sessions stay in the trash before they're purged
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90]; //days
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+//how quickly the coach forgets: a session's weight halves after this long
+export const HISTORY_HALF_LIFE_OPTIONS = [7, 21, 45, 90]; //days
+export const DEFAULT_HISTORY_HALF_LIFE_DAYS = 21;
+
+//focus/break cycles run back to back as one sequence
+export const SEQUENCE_CYCLE_OPTIONS = [1, 2, 3, 4, 6, 8]; //1 = single sessions
+export const LONG_BREAK_EVERY_OPTIONS = [2, 3, 4];
+export const DEFAULT_LONG_BREAK_EVERY = 4;
+export const LONG_BREAK_MULTIPLIER = 3; //long break = recommended break x this
+
+//daily and weekly focus goals, in minutes
+export const DAILY_GOAL_OPTIONS = [30, 60, 90, 120, 180, 240];
+export const WEEKLY_GOAL_OPTIONS = [120, 300, 600, 900, 1200, 1800];
+export const GOAL_SUGGESTION_LOOKBACK = { day: 14, week: 4 }; //past periods a suggestion averages
+export const GOAL_STRETCH = 1.1; //suggest a bit above the usual
+export const GOAL_STEP = 5; //suggestions round to this many minutes
 
 export const formatTime = (seconds: number) => {
   const mins = Math.floor(seconds / 60);
@@ -16,6 +16,7 @@ const config = {
     "utils/**/*.ts",
     "!**/*.d.ts",
     "!**/__tests__/**",
+    "!**/__mocks__/**",
   ],
 };
 
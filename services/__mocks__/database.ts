@@ -0,0 +1,347 @@
+/**
+ * In-memory Database Service
+ *
+ * Stand-in for services/database.ts in unit tests. Activate it with
+ * jest.mock("@/services/database") and clear it between tests with
+ * resetMockDatabase().
+ */
+import type {
+  DailyFocusTotal,
+  DBAdaptiveContext,
+  DBAdaptiveRecord,
+  DBFocusSample,
+  DBSession,
+  DBSessionEvent,
+  SessionChanges,
+  SessionCursor,
+  SessionFilter,
+} from "../database";
+
+let sessions: DBSession[] = [];
+let nextSessionId = 1;
+let sessionEvents: DBSessionEvent[] = [];
+let nextEventId = 1;
+let adaptiveContexts = new Map<string, DBAdaptiveContext>();
+let adaptiveRecords: DBAdaptiveRecord[] = [];
+let nextRecordId = 1;
+
+const byTimestamp = (a: DBAdaptiveRecord, b: DBAdaptiveRecord) =>
+  a.timestamp - b.timestamp || (a.id ?? 0) - (b.id ?? 0);
+
+export const resetMockDatabase = () => {
+  sessions = [];
+  nextSessionId = 1;
+  sessionEvents = [];
+  nextEventId = 1;
+  adaptiveContexts = new Map();
+  adaptiveRecords = [];
+  nextRecordId = 1;
+};
+
+export const initDatabase = async (): Promise<void> => {};
+export const ensureDbInitialized = async (): Promise<void> => {};
+
+export const insertSession = async (
+  session: Omit<DBSession, "id">,
+): Promise<number> => {
+  const id = nextSessionId++;
+  sessions.push({ ...session, id });
+  return id;
+};
+
+export const getAllSessions = async (): Promise<DBSession[]> =>
+  sessions
+    .filter((session) => !session.deletedAt)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map((session) => ({ ...session }));
+
+const newestFirst = (a: DBSession, b: DBSession) =>
+  b.createdAt.localeCompare(a.createdAt) || (b.id ?? 0) - (a.id ?? 0);
+
+export const getSessionsPage = async (
+  filter: SessionFilter,
+  cursor: SessionCursor | null,
+  limit: number,
+): Promise<DBSession[]> =>
+  sessions
+    .filter(
+      (s) =>
+        !s.deletedAt &&
+        (!filter.since || s.createdAt >= filter.since) &&
+        (!filter.taskTypes?.length || filter.taskTypes.includes(s.taskType)) &&
+        (!filter.energyLevels?.length ||
+          filter.energyLevels.includes(s.energyLevel)) &&
+        (!cursor ||
+          s.createdAt < cursor.createdAt ||
+          (s.createdAt === cursor.createdAt && (s.id ?? 0) < cursor.id)),
+    )
+    .sort(newestFirst)
+    .slice(0, limit)
+    .map((session) => ({ ...session }));
+
+export const getLatestSession = async (): Promise<DBSession | null> =>
+  (await getSessionsPage({}, null, 1))[0] ?? null;
+
+export const getLatestCompletedSession = async (
+  energyLevel: string,
+  taskType: string,
+): Promise<DBSession | null> => {
+  const task = taskType.trim().toLowerCase();
+  const latest = sessions
+    .filter(
+      (s) =>
+        !s.deletedAt &&
+        s.sessionCompleted &&
+        s.energyLevel === energyLevel &&
+        s.taskType.trim().toLowerCase() === task,
+    )
+    .sort(newestFirst)[0];
+  return latest ? { ...latest } : null;
+};
+
+export const getFocusSamples = async (
+  taskType: string,
+  energyLevel: string,
+): Promise<DBFocusSample[]> =>
+  sessions
+    .filter(
+      (s) =>
+        !s.deletedAt && s.taskType === taskType && s.energyLevel === energyLevel,
+    )
+    .sort((a, b) => -newestFirst(a, b))
+    .map((s) => ({
+      timeOfDay: s.timeOfDay,
+      createdAt: s.createdAt,
+      userSelectedDuration: s.userSelectedDuration,
+      focusedUntilSkipped: s.focusedUntilSkipped,
+      sessionCompleted: s.sessionCompleted,
+      excludeFromLearning: s.excludeFromLearning,
+      pauseCount: s.pauseCount,
+      pausedSeconds: s.pausedSeconds,
+      isManual: s.isManual,
+    }));
+
+export const getReplaySessions = async (
+  contexts: Pick<DBSession, "taskType" | "energyLevel">[],
+): Promise<DBSession[]> => {
+  const live = sessions
+    .filter((s) => !s.deletedAt)
+    .sort((a, b) => -newestFirst(a, b));
+  const picked = live.filter((s) =>
+    contexts.some(
+      (c) => c.taskType === s.taskType && c.energyLevel === s.energyLevel,
+    ),
+  );
+  const next = picked.map((s) => live[live.indexOf(s) + 1]);
+  return live
+    .filter((s) => picked.includes(s) || next.includes(s))
+    .map((session) => ({ ...session }));
+};
+
+export const getContextsBefore = async (
+  createdAts: string[],
+): Promise<Pick<DBSession, "taskType" | "energyLevel">[]> => {
+  const live = sessions
+    .filter((s) => !s.deletedAt)
+    .sort((a, b) => -newestFirst(a, b));
+  const contexts = new Map<string, Pick<DBSession, "taskType" | "energyLevel">>();
+  for (const createdAt of createdAts) {
+    const previous = live.filter((s) => s.createdAt < createdAt).pop();
+    if (previous) {
+      const { taskType, energyLevel } = previous;
+      contexts.set(`${taskType}|${energyLevel}`, { taskType, energyLevel });
+    }
+  }
+  return Array.from(contexts.values());
+};
+
+export const getDailyFocusTotals = async (
+  startDate: string,
+  endDate: string,
+): Promise<DailyFocusTotal[]> => {
+  const totals = new Map<string, DailyFocusTotal>();
+  sessions
+    .filter((s) => !s.deletedAt && s.date >= startDate && s.date <= endDate)
+    .forEach((s) => {
+      const total = totals.get(s.date) ?? {
+        date: s.date,
+        sessions: 0,
+        completedSessions: 0,
+        focusMinutes: 0,
+      };
+      total.sessions++;
+      if (s.sessionCompleted) {
+        total.completedSessions++;
+        total.focusMinutes += s.focusedUntilSkipped;
+      }
+      totals.set(s.date, total);
+    });
+  return Array.from(totals.values()).sort((a, b) =>
+    a.date.localeCompare(b.date),
+  );
+};
+
+export const getSessionCount = async (): Promise<number> =>
+  sessions.filter((session) => !session.deletedAt).length;
+
+export const deleteAllSessions = async (): Promise<void> => {
+  sessions = [];
+  sessionEvents = [];
+};
+
+export const getSessionById = async (id: number): Promise<DBSession | null> => {
+  const session = sessions.find((s) => s.id === id);
+  return session ? { ...session } : null;
+};
+
+export const updateSession = async (
+  id: number,
+  changes: SessionChanges,
+): Promise<void> => {
+  const defined = Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined),
+  );
+  sessions = sessions.map((s) => (s.id === id ? { ...s, ...defined } : s));
+};
+
+export const deleteSession = async (id: number): Promise<void> => {
+  sessions = sessions.filter((s) => s.id !== id);
+  sessionEvents = sessionEvents.filter((e) => e.sessionId !== id);
+};
+
+export const trashSession = async (
+  id: number,
+  deletedAt: string,
+): Promise<void> => {
+  sessions = sessions.map((s) =>
+    s.id === id && !s.deletedAt ? { ...s, deletedAt } : s,
+  );
+};
+
+export const trashAllSessions = async (deletedAt: string): Promise<void> => {
+  sessions = sessions.map((s) => (s.deletedAt ? s : { ...s, deletedAt }));
+};
+
+export const getTrashedSessions = async (
+  deletedAt?: string,
+): Promise<DBSession[]> =>
+  sessions
+    .filter((s) => (deletedAt ? s.deletedAt === deletedAt : !!s.deletedAt))
+    .sort(
+      (a, b) =>
+        (b.deletedAt ?? "").localeCompare(a.deletedAt ?? "") ||
+        b.createdAt.localeCompare(a.createdAt),
+    )
+    .map((session) => ({ ...session }));
+
+export const restoreSessions = async (ids: number[]): Promise<void> => {
+  sessions = sessions.map((s) =>
+    s.id !== undefined && ids.includes(s.id) ? { ...s, deletedAt: null } : s,
+  );
+};
+
+export const purgeTrashedSessions = async (before?: string): Promise<number> => {
+  const purged = sessions.filter(
+    (s) => s.deletedAt && (!before || s.deletedAt < before),
+  );
+  sessions = sessions.filter((s) => !purged.includes(s));
+  sessionEvents = sessionEvents.filter(
+    (e) => !purged.some((s) => s.id === e.sessionId),
+  );
+  return purged.length;
+};
+
+export const insertSessionEvents = async (
+  sessionId: number,
+  events: { type: string; timestamp: string }[],
+): Promise<void> => {
+  events.forEach((event) => {
+    sessionEvents.push({ ...event, sessionId, id: nextEventId++ });
+  });
+};
+
+export const getSessionEvents = async (
+  sessionId: number,
+): Promise<DBSessionEvent[]> =>
+  sessionEvents
+    .filter((e) => e.sessionId === sessionId)
+    .sort(
+      (a, b) =>
+        a.timestamp.localeCompare(b.timestamp) || (a.id ?? 0) - (b.id ?? 0),
+    )
+    .map((event) => ({ ...event }));
+
+export const getAdaptiveContext = async (
+  contextKey: string,
+): Promise<DBAdaptiveContext | null> => {
+  const context = adaptiveContexts.get(contextKey);
+  return context ? { ...context } : null;
+};
+
+export const getAllAdaptiveContexts = async (): Promise<
+  DBAdaptiveContext[]
+> =>
+  Array.from(adaptiveContexts.values())
+    .map((context) => ({ ...context }))
+    .sort((a, b) => a.contextKey.localeCompare(b.contextKey));
+
+export const getAdaptiveRecords = async (
+  contextKey: string,
+): Promise<DBAdaptiveRecord[]> =>
+  adaptiveRecords
+    .filter((record) => record.contextKey === contextKey)
+    .sort(byTimestamp)
+    .map((record) => ({ ...record }));
+
+export const getAdaptiveRecordsForContexts = async (
+  contextKeys: string[],
+): Promise<DBAdaptiveRecord[]> =>
+  adaptiveRecords
+    .filter((record) => contextKeys.includes(record.contextKey))
+    .sort(byTimestamp)
+    .map((record) => ({ ...record }));
+
+export const getAllAdaptiveRecords = async (): Promise<DBAdaptiveRecord[]> =>
+  [...adaptiveRecords].sort(byTimestamp).map((record) => ({ ...record }));
+
+export const saveAdaptiveRecord = async (
+  context: DBAdaptiveContext,
+  record: Omit<DBAdaptiveRecord, "id">,
+  minTimestamp: number,
+): Promise<void> => {
+  adaptiveContexts.set(context.contextKey, { ...context });
+  adaptiveRecords.push({ ...record, id: nextRecordId++ });
+  adaptiveRecords = adaptiveRecords.filter(
+    (r) => r.contextKey !== context.contextKey || r.timestamp >= minTimestamp,
+  );
+};
+
+export const replaceAdaptiveData = async (
+  contexts: DBAdaptiveContext[],
+  records: Omit<DBAdaptiveRecord, "id">[],
+): Promise<void> => {
+  adaptiveContexts = new Map(
+    contexts.map((context) => [context.contextKey, { ...context }]),
+  );
+  adaptiveRecords = records.map((record) => ({
+    ...record,
+    id: nextRecordId++,
+  }));
+};
+
+export const replaceAdaptiveContexts = async (
+  contextKeys: string[],
+  contexts: DBAdaptiveContext[],
+  records: Omit<DBAdaptiveRecord, "id">[],
+): Promise<void> => {
+  for (const key of contextKeys) adaptiveContexts.delete(key);
+  adaptiveRecords = adaptiveRecords.filter(
+    (record) => !contextKeys.includes(record.contextKey),
+  );
+  contexts.forEach((context) =>
+    adaptiveContexts.set(context.contextKey, { ...context }),
+  );
+  adaptiveRecords.push(
+    ...records.map((record) => ({ ...record, id: nextRecordId++ })),
+  );
+};
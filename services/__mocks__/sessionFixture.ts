@@ -0,0 +1,37 @@
+/**
+ * Session Fixture
+ *
+ * Builds session rows for tests that seed the in-memory database (or the
+ * sql.js one). By default a session is a completed 25-minute coding block
+ * with a 5-minute break, taken as recommended in a mid mood; pass only the
+ * fields a test is about.
+ */
+import type { Session } from "@/types";
+
+export const buildSession = (
+  createdAt: string,
+  overrides: Partial<Session> = {},
+): Session => ({
+  taskType: "coding",
+  energyLevel: "mid",
+  timeOfDay: "morning",
+  recommendedDuration: 25,
+  recommendedBreak: 5,
+  userSelectedDuration: 25,
+  userSelectedBreak: 5,
+  acceptedRecommendation: true,
+  sessionCompleted: true,
+  focusedUntilSkipped: 25,
+  reward: 0,
+  date: createdAt.split("T")[0],
+  createdAt,
+  ...overrides,
+});
+
+/**
+ * Overrides for a session planned for `minutes` and focused all the way.
+ */
+export const focusedFor = (minutes: number): Partial<Session> => ({
+  userSelectedDuration: minutes,
+  focusedUntilSkipped: minutes,
+});
@@ -3,38 +3,50 @@
  */
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import {
+  ADAPTIVE_STORAGE_KEY,
+  COACH_PRESETS,
+  DEFAULT_HISTORY_DECAY,
+  getCoachConfig,
+  getConsecutiveSessionPenalty,
+  getContextConfidence,
+  getDailyFatigueMultiplier,
   getRecommendation,
+  getRestDayMultiplier,
+  loadAdaptiveState,
+  migrateLegacyAdaptiveState,
+  rebuildAdaptiveState,
   recordSession,
   getBreakRecommendation,
+  getAdaptiveBreakRecommendation,
+  getBreakSample,
+  recordBreakOutcome,
+  getTimeOfDaySplit,
+  getWelchT,
+  isHeavilyInterrupted,
 } from "../adaptiveEngine";
+import { completeSession } from "../sessionCompletionService";
+import {
+  restoreTrashBatchInDB,
+  trashSessionInDB,
+  updateSessionInDB,
+} from "../sessionService";
+import { buildSession, focusedFor } from "../__mocks__/sessionFixture";
 
-// Mock AsyncStorage - must be fully inline to survive jest.mock hoisting
-const mockStorage: Record<string, string> = {};
-jest.mock("@react-native-async-storage/async-storage", () => {
-  const storage: Record<string, string> = {};
-  const mock = {
-    setItem: jest.fn((key: string, value: string) => {
-      storage[key] = value;
-      return Promise.resolve();
-    }),
-    getItem: jest.fn((key: string) => Promise.resolve(storage[key] || null)),
-    clear: jest.fn(() => {
-      Object.keys(storage).forEach((key) => delete storage[key]);
-      return Promise.resolve();
-    }),
-    removeItem: jest.fn((key: string) => {
-      delete storage[key];
-      return Promise.resolve();
-    }),
-  };
-  return { __esModule: true, default: mock, ...mock };
-});
+// Adaptive state lives in SQLite; use the in-memory stand-in
+jest.mock("../database");
+const { insertSession, resetMockDatabase } = jest.requireMock("../database");
+
+const DAY = 24 * 60 * 60 * 1000;
 
 describe("Adaptive Engine", () => {
   const context = { taskType: "coding", energyLevel: "mid" as const };
 
-  beforeEach(async () => {
-    await AsyncStorage.clear();
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    resetMockDatabase();
     jest.clearAllMocks();
   });
 
@@ -48,23 +60,29 @@ describe("Adaptive Engine", () => {
     it("learns from completed sessions using EWMA", async () => {
       // User does 50m
       await recordSession(context, 50, 50, true);
-      
-      // Need at least 2 sessions to switch to 'learned'
       let rec = await getRecommendation(context, 25);
-      expect(rec.source).toBe("heuristic");
+      expect(rec.trace.ewma).toBe(50);
 
       // User does 50m again
       await recordSession(context, 50, 50, true);
       rec = await getRecommendation(context, 25);
-      expect(rec.source).toBe("learned");
-      expect(rec.value).toBe(50); // Floor/ceil logic rounds to 50
+      expect(rec.trace.ewma).toBe(50);
 
       // User does 60m
       await recordSession(context, 60, 60, true);
       rec = await getRecommendation(context, 25);
       
-      // EWMA: 0.3 * 60 + 0.7 * 50 = 18 + 35 = 53 -> rounded to 55
-      expect(rec.value).toBe(55);
+      // EWMA: 0.3 * 60 + 0.7 * 50 = 18 + 35 = 53
+      expect(rec.trace.ewma).toBeCloseTo(53);
+    });
+
+    it("learns from the time focused past the target", async () => {
+      // Flow mode: 50m target, kept going to 60m
+      await recordSession(context, 50, 50, true);
+      await recordSession(context, 50, 60, true);
+
+      const rec = await getRecommendation(context, 25);
+      expect(rec.trace.ewma).toBeCloseTo(53);
     });
 
     it("defaults to actual focus time if completion rate is low", async () => {
@@ -75,24 +93,227 @@ describe("Adaptive Engine", () => {
 
       const rec = await getRecommendation(context, 25);
       // Since completion rate is 0%, it should use the actual times (20m)
-      expect(rec.source).toBe("learned");
+      expect(rec.trace.ewma).toBe(20);
+      // 60% confidence: 0.6 * 20 + 0.4 * 25 = 22 -> 20
+      expect(rec.source).toBe("blended");
       expect(rec.value).toBe(20);
     });
   });
 
+  describe("Confidence Blending", () => {
+    it("blends a single session lightly into the heuristic", async () => {
+      await recordSession(context, 50, 50, true);
+
+      // 1/5 history -> 20% confidence: 0.2 * 50 + 0.8 * 25 = 30
+      const rec = await getRecommendation(context, 25);
+      expect(rec.confidence).toBeCloseTo(0.2);
+      expect(rec.source).toBe("blended");
+      expect(rec.value).toBe(30);
+    });
+
+    it("moves smoothly towards the EWMA as history grows", async () => {
+      jest.spyOn(Date, "now").mockReturnValue(Date.now()); // No recency decay
+      const values: number[] = [];
+      for (let i = 0; i < 4; i++) {
+        await recordSession(context, 50, 50, true);
+        values.push((await getRecommendation(context, 25)).value);
+      }
+      expect(values).toEqual([30, 35, 40, 45]);
+
+      await recordSession(context, 50, 50, true);
+      const rec = await getRecommendation(context, 25);
+      expect(rec.confidence).toBe(1);
+      expect(rec.trace.baselineSource).toBe("learned");
+    });
+
+    it("trusts inconsistent history less", async () => {
+      for (let i = 0; i < 3; i++) {
+        await recordSession(context, 20, 20, true);
+        await recordSession(context, 60, 60, true);
+      }
+
+      // Coefficient of variation 0.5 -> 50% confidence
+      const rec = await getRecommendation(context, 25);
+      expect(rec.confidence).toBeCloseTo(0.5);
+      expect(rec.source).toBe("blended");
+    });
+
+    it("decays confidence for contexts that haven't been used lately", () => {
+      const day = 24 * 60 * 60 * 1000;
+      const now = 100 * day;
+      const stats = {
+        ewma: 40,
+        completionRate: 1,
+        history: Array.from({ length: 5 }, (_, i) => ({
+          duration: 40,
+          actualFocusTime: 40,
+          completed: true,
+          timestamp: now - 60 * day + i,
+        })),
+      };
+
+      // Two half-lives old
+      expect(getContextConfidence(stats, now)).toBeCloseTo(0.25);
+      expect(getContextConfidence(undefined, now)).toBe(0);
+    });
+  });
+
+  describe("Transfer Learning", () => {
+    const recordMany = async (
+      taskType: string,
+      energyLevel: "low" | "mid" | "high",
+      minutes: number,
+    ) => {
+      for (let i = 0; i < 5; i++) {
+        await recordSession({ taskType, energyLevel }, minutes, minutes, true);
+      }
+    };
+
+    it("borrows from other tasks at the same energy level", async () => {
+      await recordMany("coding", "mid", 40);
+
+      const rec = await getRecommendation({ taskType: "journaling", energyLevel: "mid" }, 25);
+      expect(rec.source).toBe("transferred");
+      expect(rec.value).toBe(40);
+      expect(rec.trace.priorSiblings).toEqual(["coding|mid"]);
+    });
+
+    it("scales the same task from other energies by the learned ratio", async () => {
+      // Reading teaches that high energy doubles focus length
+      await recordMany("reading", "low", 20);
+      await recordMany("reading", "high", 40);
+      await recordMany("coding", "low", 30);
+
+      // reading|high -> 40, coding|low * 2 -> 60, averaged -> 50
+      const rec = await getRecommendation({ taskType: "coding", energyLevel: "high" }, 35);
+      expect(rec.value).toBe(50);
+      expect(rec.trace.priorSiblings.sort()).toEqual(["coding|low", "reading|high"]);
+    });
+
+    it("loads history only for the sibling contexts", async () => {
+      await recordMany("reading", "high", 40);
+      await recordMany("coding", "low", 30);
+      await recordMany("writing", "low", 20);
+      const database = jest.requireMock("../database");
+      const getAllAdaptiveRecords = jest.spyOn(database, "getAllAdaptiveRecords");
+      const getRecordsFor = jest.spyOn(database, "getAdaptiveRecordsForContexts");
+
+      await getRecommendation({ taskType: "coding", energyLevel: "high" }, 35);
+      expect(getAllAdaptiveRecords).not.toHaveBeenCalled();
+      expect(getRecordsFor).toHaveBeenCalledWith(["coding|low", "reading|high"]);
+    });
+
+    it("falls back to the heuristic energy ratio without paired data", async () => {
+      await recordMany("coding", "low", 30);
+
+      // Heuristics are 15m (low) and 35m (high): 30 * 35/15 = 70
+      const rec = await getRecommendation({ taskType: "coding", energyLevel: "high" }, 35);
+      expect(rec.value).toBe(70);
+    });
+
+    it("leans on the heuristic when siblings are barely learned", async () => {
+      await recordSession(context, 45, 45, true);
+
+      // 20% confidence sibling: 0.2 * 45 + 0.8 * 25 = 29 -> 30
+      const rec = await getRecommendation({ taskType: "journaling", energyLevel: "mid" }, 25);
+      expect(rec.value).toBe(30);
+    });
+
+    it("ignores break contexts and uses the heuristic with no siblings", async () => {
+      await recordMany("coding-break", "mid", 10);
+
+      const rec = await getRecommendation({ taskType: "journaling", energyLevel: "mid" }, 25);
+      expect(rec.source).toBe("heuristic");
+      expect(rec.value).toBe(25);
+    });
+  });
+
+  describe("Time-Decayed History", () => {
+    /**
+     * Record `minutes` sessions one after another, `gapDays` apart,
+     * ending now.
+     */
+    const recordSpaced = async (minutes: number[], gapDays: number) => {
+      const end = Date.now();
+      const now = jest.spyOn(Date, "now");
+      for (let i = 0; i < minutes.length; i++) {
+        now.mockReturnValue(end - (minutes.length - 1 - i) * gapDays * DAY);
+        await recordSession(context, minutes[i], minutes[i], true);
+      }
+      now.mockRestore();
+    };
+
+    const history = [60, 60, 60, 60, 30, 30];
+
+    it("matches the positional EWMA when sessions are close together", async () => {
+      await recordSpaced(history, 0);
+
+      // 60 -> 0.3*30 + 0.7*60 = 51 -> 0.3*30 + 0.7*51 = 44.7
+      const rec = await getRecommendation(context, 25);
+      expect(rec.trace.ewma).toBeCloseTo(44.7);
+    });
+
+    it("lets recent sessions dominate when usage is sparse", async () => {
+      const dense = 1;
+      const sparse = 30; // Monthly use
+
+      await recordSpaced(history, dense);
+      const denseRec = await getRecommendation(context, 25);
+
+      resetMockDatabase();
+      await recordSpaced(history, sparse);
+      const sparseRec = await getRecommendation(context, 25);
+
+      // The month-old 60s fade, so the sparse user is pulled towards 30
+      expect(sparseRec.trace.ewma!).toBeLessThan(denseRec.trace.ewma! - 5);
+      expect(sparseRec.value).toBeLessThan(denseRec.value);
+    });
+
+    it("honours a custom half-life", async () => {
+      const end = Date.now();
+      const now = jest.spyOn(Date, "now");
+      const fastDecay = { halfLifeDays: 1, maxAgeDays: 365 };
+
+      now.mockReturnValue(end - 10 * DAY);
+      await recordSession(context, 60, 60, true, fastDecay);
+      now.mockReturnValue(end);
+      await recordSession(context, 30, 30, true, fastDecay);
+      now.mockRestore();
+
+      // Ten half-lives: the old 60m is all but forgotten
+      const state = await loadAdaptiveState();
+      expect(state["coding|mid"].ewma).toBeCloseTo(30, 0);
+    });
+
+    it("weights completion rate by recency", async () => {
+      const end = Date.now();
+      const now = jest.spyOn(Date, "now");
+      now.mockReturnValue(end - 60 * DAY);
+      await recordSession(context, 40, 10, false);
+      now.mockReturnValue(end);
+      await recordSession(context, 40, 40, true);
+      now.mockRestore();
+
+      // Old failure carries 0.5^(60/21) ≈ 0.14 weight -> ~88% completion
+      const state = await loadAdaptiveState();
+      expect(state["coding|mid"].completionRate).toBeGreaterThan(0.85);
+    });
+  });
+
   describe("Burnout Protection", () => {
     it("scales down when daily fatigue is high", async () => {
       // Establish baseline of 60m
       for (let i = 0; i < 3; i++) await recordSession(context, 60, 60, true);
 
       // Normal day (120m) - no penalty
-      const normalRec = await getRecommendation(context, 25, 120);
+      // Heuristic matches the baseline so the blend doesn't move it
+      const normalRec = await getRecommendation(context, 60, 120);
       expect(normalRec.value).toBe(60);
-      expect(normalRec.source).toBe("learned");
+      expect(normalRec.source).toBe("blended");
 
       // Fatigued day (300m) - max penalty (0.6x)
       // 60 * 0.6 = 36 -> rounded to 35
-      const fatigueRec = await getRecommendation(context, 25, 300);
+      const fatigueRec = await getRecommendation(context, 60, 300);
       expect(fatigueRec.value).toBe(35);
       expect(fatigueRec.source).toBe("fatigue-adjusted");
     });
@@ -101,12 +322,12 @@ describe("Adaptive Engine", () => {
       for (let i = 0; i < 3; i++) await recordSession(context, 60, 60, true);
 
       // Gap of 20 minutes (recommended break is 20m for 60m focus)
-      let rec = await getRecommendation(context, 25, 0, Date.now() - 20 * 60000);
+      let rec = await getRecommendation(context, 60, 0, Date.now() - 20 * 60000);
       expect(rec.value).toBe(60);
 
       // Instant restart (0 minutes break) -> 0.8x penalty
       // 60 * 0.8 = 48 -> rounded to 50
-      rec = await getRecommendation(context, 25, 0, Date.now() - 1000); // 1 sec ago
+      rec = await getRecommendation(context, 60, 0, Date.now() - 1000); // 1 sec ago
       expect(rec.value).toBe(50);
       expect(rec.source).toBe("fatigue-adjusted");
     });
@@ -116,12 +337,73 @@ describe("Adaptive Engine", () => {
 
       // 4 days since last session -> 0.8x penalty
       // 60 * 0.8 = 48 -> 50
-      const rec = await getRecommendation(context, 25, 0, 0, 4);
+      const rec = await getRecommendation(context, 60, 0, 0, 4);
       expect(rec.value).toBe(50);
       expect(rec.source).toBe("fatigue-adjusted");
     });
   });
 
+  describe("Coach Tuning", () => {
+    const allRules = { fatigue: true, cooldown: true, restDay: true };
+
+    it.each([
+      // preset, [minutes, multiplier] at threshold, at floor, past floor
+      ["gentle", [[90, 1], [240, 0.5], [400, 0.5]]],
+      ["default", [[120, 1], [300, 0.6], [400, 0.6]]],
+      ["aggressive", [[180, 1], [420, 0.8], [600, 0.8]]],
+    ] as const)("%s preset scales daily fatigue", (preset, points) => {
+      const config = COACH_PRESETS[preset].fatigue;
+      for (const [minutes, multiplier] of points) {
+        expect(getDailyFatigueMultiplier(minutes, config)).toBeCloseTo(multiplier);
+      }
+    });
+
+    it.each([
+      ["gentle", 0.7],
+      ["default", 0.8],
+      ["aggressive", 0.9],
+    ] as const)("%s preset penalises an instant restart", (preset, expected) => {
+      const config = COACH_PRESETS[preset].cooldown;
+      expect(getConsecutiveSessionPenalty(Date.now(), 10, config)).toBeCloseTo(expected);
+      expect(getConsecutiveSessionPenalty(Date.now() - 10 * 60000, 10, config)).toBe(1);
+    });
+
+    it.each([
+      ["gentle", 2, 0.7],
+      ["default", 3, 0.8],
+      ["aggressive", 5, 0.9],
+    ] as const)("%s preset eases back in after %i days off", (preset, days, expected) => {
+      const config = COACH_PRESETS[preset].restDay;
+      expect(getRestDayMultiplier(days - 1, config)).toBe(1);
+      expect(getRestDayMultiplier(days, config)).toBe(expected);
+    });
+
+    it("disabled rules never reduce the recommendation", async () => {
+      for (let i = 0; i < 3; i++) await recordSession(context, 60, 60, true);
+
+      const config = getCoachConfig("gentle", {
+        fatigue: false,
+        cooldown: false,
+        restDay: false,
+      });
+      const rec = await getRecommendation(context, 60, 400, Date.now(), 10, false, config);
+      expect(rec.value).toBe(60);
+      expect(rec.source).toBe("blended");
+    });
+
+    it("feeds the selected preset into getRecommendation", async () => {
+      for (let i = 0; i < 3; i++) await recordSession(context, 60, 60, true);
+
+      // 300m today: gentle 0.5x -> 30, default 0.6x -> 35 (36), aggressive 0.9x -> 55 (54)
+      const values = await Promise.all(
+        (["gentle", "default", "aggressive"] as const).map(async (preset) =>
+          (await getRecommendation(context, 60, 300, 0, 0, false, getCoachConfig(preset, allRules))).value,
+        ),
+      );
+      expect(values).toEqual([30, 35, 55]);
+    });
+  });
+
   describe("Stretch Nudge", () => {
     it("applies a stretch nudge when plateauing", async () => {
       // 5 successful sessions at exactly 40m
@@ -153,6 +435,150 @@ describe("Adaptive Engine", () => {
     });
   });
 
+  describe("Recommendation Trace", () => {
+    it("explains a heuristic recommendation", async () => {
+      const { trace } = await getRecommendation(context, 25);
+      expect(trace).toMatchObject({
+        heuristic: 25,
+        baseline: 25,
+        baselineSource: "heuristic",
+        ewma: null,
+        historySize: 0,
+        stretchNudge: 0,
+        final: 25,
+      });
+      expect(trace.multipliers.aggregate).toBe(1);
+    });
+
+    it("records the learned baseline, nudge and multipliers", async () => {
+      jest.spyOn(Date, "now").mockReturnValue(Date.now()); // No recency decay
+      for (let i = 0; i < 5; i++) await recordSession(context, 40, 40, true);
+
+      // 4 rest days -> 0.8x on (40 + 5) = 36 -> 35
+      const { value, trace } = await getRecommendation(context, 25, 0, 0, 4);
+      expect(value).toBe(35);
+      expect(trace).toMatchObject({
+        baseline: 40,
+        baselineSource: "learned",
+        historySize: 5,
+        completionRate: 1,
+        stretchNudge: 5,
+        rounded: 35,
+        cap: 120,
+        final: 35,
+      });
+      expect(trace.multipliers.rest).toBe(0.8);
+      expect(trace.adjusted).toBeCloseTo(36);
+    });
+
+    it("reports the ADHD-mode cap", async () => {
+      for (let i = 0; i < 3; i++) await recordSession(context, 60, 60, true);
+
+      const { trace } = await getRecommendation(context, 60, 0, 0, 0, true);
+      expect(trace.rounded).toBe(60);
+      expect(trace.cap).toBe(30);
+      expect(trace.final).toBe(30);
+    });
+  });
+
+  describe("Survival Cap", () => {
+    it("caps the recommendation where most sessions drop off", async () => {
+      await recordSession(context, 60, 60, true);
+      await recordSession(context, 60, 60, true);
+      for (let i = 0; i < 3; i++) await recordSession(context, 60, 30, false);
+
+      // 3 of 5 stop at 30m -> P(30m) = 0.4, so 29m is the longest safe, floored to 25
+      const rec = await getRecommendation(context, 25);
+      expect(rec.trace.survivalCap).toBe(25);
+      expect(rec.source).toBe("survival-capped");
+      expect(rec.value).toBe(25);
+    });
+
+    it("leaves occasional drop-outs alone", async () => {
+      for (let i = 0; i < 4; i++) await recordSession(context, 40, 40, true);
+      await recordSession(context, 40, 20, false);
+
+      // 1 of 5 drops at 20m -> 0.8 stays above the 0.7 target
+      const rec = await getRecommendation(context, 25);
+      expect(rec.trace.survivalCap).toBeNull();
+    });
+  });
+
+  describe("Time-of-Day Split", () => {
+    const logPeriod = async (timeOfDay: string, lengths: number[]) => {
+      for (let i = 0; i < lengths.length; i++) {
+        const createdAt = new Date(Date.now() - (i + 1) * DAY).toISOString();
+        await insertSession(
+          buildSession(createdAt, { ...focusedFor(lengths[i]), timeOfDay }),
+        );
+      }
+    };
+
+    it("measures the gap between two samples with Welch's t", () => {
+      expect(getWelchT([20, 25, 15], [20, 25, 15])).toBe(0);
+      expect(getWelchT([20, 20], [50, 50])).toBe(-Infinity);
+      expect(getWelchT([20, 25, 15, 20], [50, 45, 55, 50])).toBeCloseTo(-10.39, 2);
+    });
+
+    it("learns a period separately once it clearly differs", async () => {
+      await logPeriod("morning", [20, 20, 25, 20, 15]);
+      await logPeriod("evening", [50, 45, 50, 55, 50]);
+
+      const split = await getTimeOfDaySplit({ ...context, timeOfDay: "morning" });
+      expect(split?.stats.history).toHaveLength(5);
+      expect(split?.stats.ewma).toBeLessThan(25);
+
+      const rec = await getRecommendation({ ...context, timeOfDay: "morning" }, 25);
+      expect(rec.trace.timeOfDay).toBe("morning");
+      expect(rec.trace.historySize).toBe(5);
+    });
+
+    it("loads only the context's own sessions", async () => {
+      const database = jest.requireMock("../database");
+      const getAllSessions = jest.spyOn(database, "getAllSessions");
+      const getFocusSamples = jest.spyOn(database, "getFocusSamples");
+
+      await getRecommendation({ ...context, timeOfDay: "morning" }, 25);
+      expect(getFocusSamples).toHaveBeenCalledWith("coding", "mid");
+      expect(getAllSessions).not.toHaveBeenCalled();
+    });
+
+    it("keeps the merged context when not opted in", async () => {
+      await logPeriod("morning", [20, 20, 25, 20, 15]);
+      await logPeriod("evening", [50, 45, 50, 55, 50]);
+
+      const rec = await getRecommendation(context, 25);
+      expect(rec.trace.timeOfDay).toBeNull();
+    });
+
+    it("doesn't split without enough sessions on both sides", async () => {
+      await logPeriod("morning", [20, 20, 25, 20]);
+      await logPeriod("evening", [50, 45, 50, 55, 50]);
+
+      expect(await getTimeOfDaySplit({ ...context, timeOfDay: "morning" })).toBeNull();
+    });
+
+    it("leaves out sessions that shouldn't be learned from", async () => {
+      await logPeriod("morning", [20, 20, 25, 20]);
+      await logPeriod("evening", [50, 45, 50, 55, 50]);
+      await insertSession(
+        buildSession(new Date(Date.now() - 6 * DAY).toISOString(), {
+          ...focusedFor(15),
+          excludeFromLearning: true,
+        }),
+      );
+
+      expect(await getTimeOfDaySplit({ ...context, timeOfDay: "morning" })).toBeNull();
+    });
+
+    it("doesn't split when the period isn't significantly different", async () => {
+      await logPeriod("morning", [30, 35, 25, 30, 32]);
+      await logPeriod("evening", [31, 29, 33, 30, 28]);
+
+      expect(await getTimeOfDaySplit({ ...context, timeOfDay: "morning" })).toBeNull();
+    });
+  });
+
   describe("Break Recommendations", () => {
     it("scales break to roughly focus / 3", () => {
       expect(getBreakRecommendation(15)).toBe(5);
@@ -166,4 +592,389 @@ describe("Adaptive Engine", () => {
       expect(getBreakRecommendation(10)).toBe(5);
     });
   });
+
+  describe("Break Learning", () => {
+    const MIN = 60000;
+
+    /**
+     * A 25m focus block started at `start` (ms), followed by a `breakMinutes`
+     * break if completed. Saved at the end of the break, like the app does.
+     */
+    const cycle = (
+      start: number,
+      breakMinutes: number,
+      completed = true,
+      skipReason?: "skippedFocus" | "skippedBreak",
+    ) =>
+      buildSession(
+        new Date(start + (25 + (completed ? breakMinutes : 0)) * MIN).toISOString(),
+        {
+          focusedUntilSkipped: completed || skipReason === "skippedBreak" ? 25 : 10,
+          sessionCompleted: completed,
+          userSelectedBreak: completed ? breakMinutes : 0,
+          skipReason,
+        },
+      );
+
+    it("measures the rest before the next session", () => {
+      const t0 = Date.UTC(2025, 0, 1, 9);
+      // 25m focus + 10m break, next starts 5m later
+      const sample = getBreakSample(cycle(t0, 10), cycle(t0 + 40 * MIN, 10));
+      expect(sample).toMatchObject({ duration: 15, completed: true });
+
+      // Skipped break: the rest is just the idle gap
+      const skipped = cycle(t0, 0, false, "skippedBreak");
+      expect(getBreakSample(skipped, cycle(t0 + 30 * MIN, 10))?.duration).toBe(5);
+
+      // A failed next session marks the rest as unsuccessful
+      const failedNext = cycle(t0 + 40 * MIN, 10, false, "skippedFocus");
+      expect(getBreakSample(cycle(t0, 10), failedNext)?.completed).toBe(false);
+    });
+
+    it("ignores abandoned focus sessions and long gaps", () => {
+      const t0 = Date.UTC(2025, 0, 1, 9);
+      const abandoned = cycle(t0, 0, false, "skippedFocus");
+      expect(getBreakSample(abandoned, cycle(t0 + 30 * MIN, 10))).toBeNull();
+      expect(getBreakSample(cycle(t0, 10), cycle(t0 + 180 * MIN, 10))).toBeNull();
+    });
+
+    it("converges on the rest that precedes successful sessions", async () => {
+      // Five back-to-back cycles with 15m of rest between them
+      const t0 = Date.now() - 10 * 60 * MIN;
+      for (let i = 0; i < 5; i++) {
+        const session = cycle(t0 + i * 40 * MIN, 10);
+        await recordBreakOutcome(session);
+        await insertSession(session);
+      }
+
+      // Heuristic for 25m focus is 10m; 4 samples (80%) of 15m -> 14 -> 15
+      expect(getBreakRecommendation(25)).toBe(10);
+      expect(await getAdaptiveBreakRecommendation(context, 25)).toBe(15);
+      expect(await getAdaptiveBreakRecommendation(context, 25, true)).toBe(5);
+
+      const state = await loadAdaptiveState();
+      expect(state["coding-break|mid"].history).toHaveLength(4);
+    });
+
+    it("uses the heuristic for contexts without break history", async () => {
+      expect(await getAdaptiveBreakRecommendation(context, 60)).toBe(20);
+    });
+
+    it("rebuilds break contexts from session history", async () => {
+      const t0 = Date.now() - 10 * 60 * MIN;
+      for (let i = 0; i < 3; i++) await insertSession(cycle(t0 + i * 40 * MIN, 10));
+
+      await rebuildAdaptiveState();
+
+      const state = await loadAdaptiveState();
+      expect(state["coding-break|mid"].history.map((r) => r.duration)).toEqual([15, 15]);
+    });
+  });
+
+  describe("Persistence", () => {
+    it("stores each context's history as separate records", async () => {
+      await recordSession(context, 30, 30, true);
+      await recordSession({ taskType: "writing", energyLevel: "low" }, 20, 10, false);
+
+      const state = await loadAdaptiveState();
+      expect(Object.keys(state).sort()).toEqual(["coding|mid", "writing|low"]);
+      expect(state["coding|mid"].history).toHaveLength(1);
+      expect(state["writing|low"].history[0].completed).toBe(false);
+    });
+
+    it("ages out records older than the max history age", async () => {
+      const now = jest.spyOn(Date, "now");
+      now.mockReturnValue(0);
+      await recordSession(context, 30, 30, true);
+      now.mockReturnValue((DEFAULT_HISTORY_DECAY.maxAgeDays + 1) * DAY);
+      await recordSession(context, 45, 45, true);
+      await recordSession(context, 45, 45, true);
+      now.mockRestore();
+
+      const state = await loadAdaptiveState();
+      expect(state["coding|mid"].history.map((r) => r.duration)).toEqual([45, 45]);
+      expect(state["coding|mid"].ewma).toBe(45);
+    });
+
+    it("dates a session that ended while the app was closed by its end", async () => {
+      jest.spyOn(console, "log").mockImplementation(() => {});
+      const endedAt = new Date(Date.now() - 2 * 60 * 60 * 1000);
+
+      await completeSession({
+        type: "completed",
+        taskType: "coding",
+        energyLevel: "mid",
+        recommendedFocusDuration: 25,
+        recommendedBreakDuration: 5,
+        userAcceptedRecommendation: true,
+        originalFocusDuration: 25 * 60,
+        selectedBreakDuration: 5 * 60,
+        focusedTime: 25 * 60,
+        endedAt,
+      });
+
+      const state = await loadAdaptiveState();
+      expect(state["coding|mid"].history[0].timestamp).toBe(endedAt.getTime());
+    });
+
+    it("migrates the legacy AsyncStorage blob into SQLite", async () => {
+      const legacyState = {
+        "coding|mid": {
+          ewma: 45,
+          completionRate: 1,
+          history: [
+            { duration: 45, actualFocusTime: 45, completed: true, timestamp: 1 },
+            { duration: 45, actualFocusTime: 45, completed: true, timestamp: 2 },
+          ],
+        },
+      };
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(
+        JSON.stringify(legacyState),
+      );
+
+      await migrateLegacyAdaptiveState();
+
+      expect(await loadAdaptiveState()).toEqual(legacyState);
+      expect(AsyncStorage.removeItem).toHaveBeenCalledWith(ADAPTIVE_STORAGE_KEY);
+    });
+
+    it("keeps the legacy blob when writing it to SQLite fails", async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      jest
+        .spyOn(jest.requireMock("../database"), "replaceAdaptiveData")
+        .mockRejectedValueOnce(new Error("Disk full"));
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(
+        JSON.stringify({
+          "coding|mid": { ewma: 45, completionRate: 1, history: [] },
+        }),
+      );
+
+      await expect(migrateLegacyAdaptiveState()).rejects.toThrow("Disk full");
+      expect(AsyncStorage.removeItem).not.toHaveBeenCalled();
+    });
+
+    it("retries the legacy migration after it fails", async () => {
+      // A fresh engine, so the migration hasn't already run in this file
+      let engine!: typeof import("../adaptiveEngine");
+      let storage!: typeof AsyncStorage;
+      jest.isolateModules(() => {
+        engine = require("../adaptiveEngine");
+        storage = require("@react-native-async-storage/async-storage").default;
+      });
+      jest.spyOn(console, "error").mockImplementation(() => {});
+
+      const legacyState = {
+        "coding|mid": {
+          ewma: 40,
+          completionRate: 1,
+          history: [
+            { duration: 40, actualFocusTime: 40, completed: true, timestamp: 1 },
+          ],
+        },
+      };
+      (storage.getItem as jest.Mock)
+        .mockRejectedValueOnce(new Error("Storage unavailable"))
+        .mockResolvedValueOnce(JSON.stringify(legacyState));
+
+      // The first load carries on without the legacy data
+      expect(await engine.loadAdaptiveState()).toEqual({});
+      expect(await engine.loadAdaptiveState()).toEqual(legacyState);
+    });
+  });
+
+  describe("Rebuild From History", () => {
+    it("replays sessions in chronological order like live recording", async () => {
+      // Inserted out of order; replay must sort by createdAt
+      await insertSession(buildSession("2025-01-03T10:00:00.000Z", focusedFor(60)));
+      await insertSession(buildSession("2025-01-01T10:00:00.000Z", focusedFor(50)));
+      await insertSession(buildSession("2025-01-02T10:00:00.000Z", focusedFor(50)));
+
+      const result = await rebuildAdaptiveState();
+      expect(result).toEqual({ sessions: 3, contexts: 1 });
+      const rebuilt = (await loadAdaptiveState())["coding|mid"];
+
+      resetMockDatabase();
+      const now = jest.spyOn(Date, "now");
+      for (const [day, minutes] of [[1, 50], [2, 50], [3, 60]]) {
+        now.mockReturnValue(new Date(`2025-01-0${day}T10:00:00.000Z`).getTime());
+        await recordSession(context, minutes, minutes, true);
+      }
+      now.mockRestore();
+      const live = (await loadAdaptiveState())["coding|mid"];
+
+      expect(rebuilt.ewma).toBeCloseTo(live.ewma);
+      expect(rebuilt.completionRate).toBe(live.completionRate);
+      expect(rebuilt.history.map((r) => r.duration)).toEqual([50, 50, 60]);
+    });
+
+    it("replaces stale contexts that no longer have sessions", async () => {
+      await recordSession({ taskType: "reading", energyLevel: "low" }, 30, 30, true);
+      await insertSession(
+        buildSession("2025-01-01T10:00:00.000Z", {
+          userSelectedDuration: 40,
+          focusedUntilSkipped: 15,
+          sessionCompleted: false,
+          taskType: "writing",
+        }),
+      );
+
+      await rebuildAdaptiveState();
+
+      const state = await loadAdaptiveState();
+      expect(Object.keys(state)).toEqual(["writing|mid"]);
+      expect(state["writing|mid"].ewma).toBe(15);
+      expect(state["writing|mid"].history[0].timestamp).toBe(
+        new Date("2025-01-01T10:00:00.000Z").getTime(),
+      );
+    });
+  });
+
+  describe("Session Edits", () => {
+    it("re-learns a context without a deleted session and drops it once empty", async () => {
+      await insertSession(buildSession("2025-01-01T10:00:00.000Z", focusedFor(40)));
+      const writingId = await insertSession(
+        buildSession("2025-01-02T10:00:00.000Z", {
+          userSelectedDuration: 30,
+          focusedUntilSkipped: 10,
+          sessionCompleted: false,
+          taskType: "writing",
+        }),
+      );
+      const codingId = await insertSession(
+        buildSession("2025-01-03T10:00:00.000Z", focusedFor(60)),
+      );
+      await rebuildAdaptiveState();
+
+      await trashSessionInDB(codingId);
+      let state = await loadAdaptiveState();
+      expect(state["coding|mid"].history.map((r) => r.duration)).toEqual([40]);
+      expect(state["coding|mid"].ewma).toBe(40);
+
+      await trashSessionInDB(writingId);
+      state = await loadAdaptiveState();
+      expect(state["writing|mid"]).toBeUndefined();
+      expect(state["coding|mid"].ewma).toBe(40);
+    });
+
+    it("re-learns a restored session when a delete is undone", async () => {
+      await insertSession(buildSession("2025-01-01T10:00:00.000Z", focusedFor(40)));
+      const id = await insertSession(
+        buildSession("2025-01-02T10:00:00.000Z", focusedFor(60)),
+      );
+      await rebuildAdaptiveState();
+      const learned = JSON.parse(JSON.stringify(await loadAdaptiveState()));
+
+      const deletedAt = await trashSessionInDB(id);
+      expect((await loadAdaptiveState())["coding|mid"].ewma).toBe(40);
+
+      await restoreTrashBatchInDB(deletedAt);
+      expect(await loadAdaptiveState()).toEqual(learned);
+    });
+
+    it("moves an edited session's learning to its new context", async () => {
+      await insertSession(buildSession("2025-01-01T10:00:00.000Z", focusedFor(40)));
+      const id = await insertSession(
+        buildSession("2025-01-02T10:00:00.000Z", focusedFor(50)),
+      );
+      await rebuildAdaptiveState();
+
+      await updateSessionInDB(id, { taskType: "writing", energyLevel: "high" });
+
+      const state = await loadAdaptiveState();
+      expect(state["coding|mid"].history.map((r) => r.duration)).toEqual([40]);
+      expect(state["writing|high"].ewma).toBe(50);
+
+      // Matches learning the corrected history from scratch
+      const relearned = JSON.parse(JSON.stringify(state));
+      await rebuildAdaptiveState();
+      expect(await loadAdaptiveState()).toEqual(relearned);
+    });
+
+    it("replays only the touched contexts' sessions", async () => {
+      // Back to back, so each session also judges the break before it
+      const tasks = ["coding", "reading", "writing", "coding", "reading", "writing"];
+      const ids: number[] = [];
+      for (let i = 0; i < tasks.length; i++) {
+        const createdAt = new Date(Date.UTC(2025, 0, 1, 9, i * 35)).toISOString();
+        ids.push(await insertSession(buildSession(createdAt, { taskType: tasks[i] })));
+      }
+      await rebuildAdaptiveState();
+      const database = jest.requireMock("../database");
+      const getAllSessions = jest.spyOn(database, "getAllSessions");
+      const getReplaySessions = jest.spyOn(database, "getReplaySessions");
+
+      await trashSessionInDB(ids[2]);
+
+      expect(getAllSessions).not.toHaveBeenCalled();
+      expect(getReplaySessions).toHaveBeenCalledWith([
+        { taskType: "writing", energyLevel: "mid" },
+        { taskType: "reading", energyLevel: "mid" },
+      ]);
+      const relearned = JSON.parse(JSON.stringify(await loadAdaptiveState()));
+      await rebuildAdaptiveState();
+      expect(await loadAdaptiveState()).toEqual(relearned);
+    });
+
+    it("rejects edits to a session that doesn't exist", async () => {
+      await expect(updateSessionInDB(999, { taskType: "writing" })).rejects.toThrow(
+        "Session 999 not found",
+      );
+    });
+  });
+
+  describe("Interrupted Sessions", () => {
+    const interrupted = (
+      createdAt: string,
+      duration: number,
+      focused: number,
+      completed: boolean,
+      pauseCount: number,
+      pausedSeconds: number,
+    ) =>
+      buildSession(createdAt, {
+        userSelectedDuration: duration,
+        focusedUntilSkipped: focused,
+        sessionCompleted: completed,
+        pauseCount,
+        pausedSeconds,
+      });
+
+    it("flags many pauses or long pauses", () => {
+      const base = { focusedUntilSkipped: 20 };
+      expect(isHeavilyInterrupted({ ...base, pauseCount: 0, pausedSeconds: 0 })).toBe(false);
+      expect(isHeavilyInterrupted({ ...base, pauseCount: 1, pausedSeconds: 60 })).toBe(false);
+      expect(isHeavilyInterrupted({ ...base, pauseCount: 3, pausedSeconds: 30 })).toBe(true);
+      expect(isHeavilyInterrupted({ ...base, pauseCount: 1, pausedSeconds: 10 * 60 })).toBe(true);
+    });
+
+    it("doesn't learn from abandoned, heavily interrupted sessions", async () => {
+      await insertSession(buildSession("2025-01-01T10:00:00.000Z", focusedFor(40)));
+      await insertSession(interrupted("2025-01-02T10:00:00.000Z", 40, 5, false, 4, 600));
+      await insertSession(interrupted("2025-01-03T10:00:00.000Z", 50, 50, true, 3, 300));
+      await rebuildAdaptiveState();
+
+      const state = await loadAdaptiveState();
+      // The completed one still counts, pauses and all
+      expect(state["coding|mid"].history.map((r) => r.duration)).toEqual([40, 50]);
+      expect(state["coding|mid"].completionRate).toBe(1);
+    });
+
+    it("doesn't judge a break by an interrupted session after it", () => {
+      const previous = buildSession("2025-01-01T10:30:00.000Z");
+      const next = interrupted("2025-01-01T11:00:00.000Z", 25, 5, false, 3, 60);
+      expect(getBreakSample(previous, next)).toBeNull();
+    });
+
+    it("counts paused time when working out when the next session started", () => {
+      // Ends 10:30 after 25 min focus + 5 min break; next saved 11:20
+      const previous = buildSession("2025-01-01T10:30:00.000Z");
+      const next = buildSession("2025-01-01T11:20:00.000Z", {
+        pauseCount: 1,
+        pausedSeconds: 10 * 60,
+      });
+
+      // Started 11:20 - 30 min - 10 min paused = 10:40: 5 min break + 10 idle
+      expect(getBreakSample(previous, next)?.duration).toBe(15);
+    });
+  });
 });
@@ -0,0 +1,190 @@
+/**
+ * Analytics Tests
+ *
+ * The SQL aggregates must match the in-memory performance helpers they
+ * replace on the Performance tab. The queries run against real SQLite
+ * (sql.js), so their bucketing and focus-time expressions are exercised
+ * as written.
+ */
+import { Session } from "@/types";
+import { suggestGoal } from "@/utils/goals";
+import { calculateStreak, generateInsights } from "@/utils/insightEngine";
+import {
+  calculatePeriodMetrics,
+  getAdaptiveChartData,
+  getHeatmapData,
+  getPeriodDates,
+  getSurvivalChartData,
+  getSurvivalTasks,
+} from "@/utils/performanceUtils";
+import {
+  loadAdaptiveChartData,
+  loadGoalSuggestion,
+  loadHeatmapData,
+  loadInsights,
+  loadMoodBreakdown,
+  loadPeriodMetrics,
+  loadStreak,
+  loadSurvivalChartData,
+  loadSurvivalTasks,
+  loadTaskBreakdown,
+} from "../analytics";
+import { deleteAllSessions, insertSession } from "../database";
+import { buildSession } from "../__mocks__/sessionFixture";
+
+jest.mock("expo-sqlite", () => ({
+  openDatabaseSync: () => require("./sqlJsDatabase").createSqlJsDatabase(),
+}));
+
+const NOW = new Date("2025-03-12T12:00:00.000Z");
+const DAY = 24 * 60 * 60 * 1000;
+const ALL = { includeManual: true };
+
+// A session saved `days` before NOW
+const daysAgo = (days: number) =>
+  new Date(NOW.getTime() - days * DAY).toISOString();
+
+const seed = async (sessions: Session[]) => {
+  for (const session of sessions) {
+    session.id = await insertSession(session);
+  }
+  return sessions;
+};
+
+describe("Analytics", () => {
+  let sessions: Session[];
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(NOW);
+    await deleteAllSessions();
+    sessions = await seed([
+      buildSession(daysAgo(0)),
+      buildSession(daysAgo(0), {
+        sessionCompleted: false,
+        focusedUntilSkipped: 10,
+      }),
+      buildSession(daysAgo(1), { taskType: "writing", energyLevel: "high" }),
+      buildSession(daysAgo(3), {
+        taskType: "writing",
+        userSelectedDuration: 50,
+        sessionCompleted: false,
+        focusedUntilSkipped: 40,
+      }),
+      buildSession(daysAgo(5), { taskType: "writing", focusedUntilSkipped: 40 }),
+      buildSession(daysAgo(9), { energyLevel: "low" }),
+      buildSession(daysAgo(40), { userSelectedDuration: 45 }),
+      buildSession(daysAgo(200)),
+      buildSession(daysAgo(2), { isManual: true, taskType: "reading" }),
+    ]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it.each(["day", "week", "month", "year"] as const)(
+    "should match getAdaptiveChartData for the %s view",
+    async (range) => {
+      for (const offset of [0, 1]) {
+        expect(await loadAdaptiveChartData(range, offset, ALL)).toEqual(
+          getAdaptiveChartData(sessions, range, offset),
+        );
+      }
+    },
+  );
+
+  it.each(["day", "week", "month", "year"] as const)(
+    "should match calculatePeriodMetrics for the %s view",
+    async (range) => {
+      for (const offset of [0, 1]) {
+        const { startDate, endDate } = getPeriodDates(range, offset);
+        const inRange = sessions.filter((s) => {
+          const d = new Date(s.createdAt);
+          return d >= startDate && d <= endDate;
+        });
+
+        const metrics = await loadPeriodMetrics(range, offset, ALL);
+        const expected = calculatePeriodMetrics(inRange);
+        expect(metrics.totalFocusTime).toBe(expected.totalFocusTime);
+        expect(metrics.sessionCount).toBe(expected.sessionCount);
+        expect(metrics.completionRate).toBeCloseTo(expected.completionRate);
+      }
+    },
+  );
+
+  it("should match getHeatmapData", async () => {
+    expect(await loadHeatmapData(ALL)).toEqual(getHeatmapData(sessions));
+    expect(await loadHeatmapData(ALL, 7)).toEqual(getHeatmapData(sessions, 7));
+  });
+
+  it("should leave out logged sessions when asked", async () => {
+    const options = { includeManual: false };
+    const timed = sessions.filter((s) => !s.isManual);
+
+    expect(await loadAdaptiveChartData("week", 0, options)).toEqual(
+      getAdaptiveChartData(timed, "week", 0),
+    );
+    expect((await loadPeriodMetrics("week", 0, options)).sessionCount).toBe(
+      (await loadPeriodMetrics("week", 0, ALL)).sessionCount - 1,
+    );
+    expect((await loadTaskBreakdown(options)).map((t) => t.key)).not.toContain(
+      "reading",
+    );
+  });
+
+  it("should break focus time down by task and mood", async () => {
+    const tasks = await loadTaskBreakdown(ALL);
+    const moods = await loadMoodBreakdown(ALL);
+
+    expect(tasks.map((t) => t.key)).toEqual(["coding", "writing", "reading"]);
+    expect(tasks[0]).toMatchObject({
+      sessions: 5,
+      completedSessions: 4,
+      focusTime: 25 * 3 + 10 + 45,
+      completionRate: 80,
+    });
+    expect(moods.find((m) => m.key === "high")).toMatchObject({
+      sessions: 1,
+      focusTime: 25,
+      completionRate: 100,
+    });
+  });
+
+  it.each([0, 25, 50])(
+    "should match generateInsights and calculateStreak with a %i minute goal",
+    async (dailyGoal) => {
+      expect(await loadInsights(dailyGoal, ALL)).toEqual(
+        generateInsights(sessions, dailyGoal),
+      );
+      expect(await loadStreak(dailyGoal, ALL)).toEqual(
+        calculateStreak(sessions, dailyGoal),
+      );
+    },
+  );
+
+  it("should match suggestGoal", async () => {
+    for (const period of ["day", "week"] as const) {
+      expect(await loadGoalSuggestion(period, ALL)).toBe(
+        suggestGoal(sessions, period),
+      );
+      expect(await loadGoalSuggestion(period, ALL, " Writing")).toBe(
+        suggestGoal(sessions, period, "writing"),
+      );
+    }
+  });
+
+  it("should match the drop-off chart helpers", async () => {
+    const timed = sessions.filter((s) => !s.isManual);
+
+    expect(await loadSurvivalTasks(ALL)).toEqual(getSurvivalTasks(sessions));
+    expect(await loadSurvivalTasks({ includeManual: false })).toEqual(
+      getSurvivalTasks(timed),
+    );
+    for (const task of ["coding", "writing"]) {
+      expect(await loadSurvivalChartData(task, ALL)).toEqual(
+        getSurvivalChartData(sessions, task),
+      );
+    }
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Adaptive Engine Simulator
+ *
+ * Deterministic harness that plays seeded user profiles through the real
+ * recommendation loop (getSessionRecommendation -> simulated focus ->
+ * recordBreakOutcome / insertSession / recordSession) on a fake clock, and
+ * reports how the engine fared: time to converge on each context, overall
+ * completion rate and burnout days.
+ *
+ * Callers must jest.mock("../database") and enable fake timers; the
+ * simulator drives the system time itself.
+ */
+import { EnergyLevel } from "@/types";
+import {
+  CoachConfig,
+  createContextKey,
+  DEFAULT_COACH_CONFIG,
+  recordBreakOutcome,
+  recordSession,
+} from "../adaptiveEngine";
+import type { DBSession } from "../database";
+import { getSessionRecommendation } from "../sessionPlanner";
+
+const { insertSession, resetMockDatabase } = jest.requireMock("../database");
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+// ============================================================================
+// PROFILES
+// ============================================================================
+
+export interface SimulatedTask {
+  taskType: string;
+  energyLevel: EnergyLevel;
+  capacity: number; // Minutes they can sustain on an average day
+  jitter: number; // Day-to-day swing as a fraction of capacity
+}
+
+export interface UserProfile {
+  name: string;
+  seed: number;
+  tasks: SimulatedTask[];
+  sessionsPerDay: [number, number]; // Inclusive range
+  restDayChance: number;
+  dailyLimitMinutes: number; // Focus beyond this in a day is a burnout day
+}
+
+/**
+ * Profiles modelled on scripts/generateMockData.ts.
+ */
+export const SIMULATED_PROFILES: Record<string, UserProfile> = {
+  steady: {
+    name: "steady",
+    seed: 42,
+    tasks: [
+      { taskType: "Coding", energyLevel: "high", capacity: 55, jitter: 0.1 },
+      { taskType: "Coding", energyLevel: "mid", capacity: 35, jitter: 0.1 },
+      { taskType: "Writing", energyLevel: "mid", capacity: 40, jitter: 0.15 },
+      { taskType: "Research", energyLevel: "low", capacity: 20, jitter: 0.1 },
+    ],
+    sessionsPerDay: [1, 4],
+    restDayChance: 0.2,
+    dailyLimitMinutes: 240,
+  },
+  grinder: {
+    name: "grinder",
+    seed: 7,
+    tasks: [
+      { taskType: "Coding", energyLevel: "high", capacity: 70, jitter: 0.1 },
+      { taskType: "Studying", energyLevel: "mid", capacity: 45, jitter: 0.1 },
+    ],
+    sessionsPerDay: [4, 7],
+    restDayChance: 0.05,
+    dailyLimitMinutes: 240,
+  },
+};
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+export interface SimulationOptions {
+  weeks: number;
+  coachConfig?: CoachConfig;
+  startDate?: string; // ISO date the first simulated day begins on
+  convergenceTolerance?: number; // Fraction of capacity counted as "learned"
+}
+
+export interface ContextReport {
+  contextKey: string;
+  capacity: number;
+  sessions: number;
+  completionRate: number;
+  convergenceDay: number | null; // First day the baseline stayed within tolerance
+  finalBaseline: number;
+}
+
+export interface SimulationReport {
+  profile: string;
+  days: number;
+  sessions: number;
+  focusMinutes: number;
+  completionRate: number;
+  burnoutEvents: number; // Days whose focus exceeded the profile's daily limit
+  contexts: ContextReport[];
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/**
+ * Mulberry32: small, fast, seedable PRNG returning floats in [0, 1).
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface ContextTrack {
+  capacity: number;
+  sessions: number;
+  completed: number;
+  baselines: { day: number; value: number }[];
+}
+
+function getConvergenceDay(
+  track: ContextTrack,
+  tolerance: number,
+): number | null {
+  const within = (value: number) =>
+    Math.abs(value - track.capacity) <= track.capacity * tolerance;
+
+  let convergenceDay: number | null = null;
+  for (const { day, value } of track.baselines) {
+    if (!within(value)) convergenceDay = null;
+    else if (convergenceDay === null) convergenceDay = day;
+  }
+  return convergenceDay;
+}
+
+/**
+ * Play `profile` through the engine for `options.weeks` weeks. Starts from
+ * an empty database, so runs with the same profile and options produce
+ * identical reports.
+ */
+export async function simulateUser(
+  profile: UserProfile,
+  options: SimulationOptions,
+): Promise<SimulationReport> {
+  const {
+    weeks,
+    coachConfig = DEFAULT_COACH_CONFIG,
+    startDate = "2026-01-05",
+    convergenceTolerance = 0.2,
+  } = options;
+
+  resetMockDatabase();
+  const random = createRandom(profile.seed);
+  const start = new Date(`${startDate}T00:00:00.000Z`).getTime();
+  const days = weeks * 7;
+
+  const tracks = new Map<string, ContextTrack>();
+  let sessions = 0;
+  let completed = 0;
+  let focusMinutes = 0;
+  let burnoutEvents = 0;
+
+  for (let day = 0; day < days; day++) {
+    if (random() < profile.restDayChance) continue;
+
+    const [minSessions, maxSessions] = profile.sessionsPerDay;
+    const sessionsToday =
+      minSessions + Math.floor(random() * (maxSessions - minSessions + 1));
+    let clock = start + day * MS_PER_DAY + 9 * 60 * MS_PER_MINUTE; // 9 AM
+    let minutesToday = 0;
+
+    for (let s = 0; s < sessionsToday; s++) {
+      const task = profile.tasks[Math.floor(random() * profile.tasks.length)];
+      const key = createContextKey(task);
+      const track = tracks.get(key) ?? {
+        capacity: task.capacity,
+        sessions: 0,
+        completed: 0,
+        baselines: [],
+      };
+      tracks.set(key, track);
+
+      jest.setSystemTime(clock);
+      const recommendation = await getSessionRecommendation(
+        task.energyLevel,
+        task.taskType,
+        [],
+        false,
+        coachConfig,
+      );
+      track.baselines.push({
+        day,
+        value: recommendation.trace?.baseline ?? recommendation.focusDuration,
+      });
+
+      // They last their capacity (± jitter), halved once they're over the limit
+      const swing = 1 + task.jitter * (random() * 2 - 1);
+      const fatigue = minutesToday >= profile.dailyLimitMinutes ? 0.5 : 1;
+      const lasts = task.capacity * swing * fatigue;
+
+      const sessionCompleted = recommendation.focusDuration <= lasts;
+      const focused = sessionCompleted
+        ? recommendation.focusDuration
+        : Math.max(1, Math.floor(lasts));
+      const breakTaken = sessionCompleted ? recommendation.breakDuration : 0;
+
+      // Sessions are saved once the break ends (or focus is skipped)
+      clock += (focused + breakTaken) * MS_PER_MINUTE;
+      jest.setSystemTime(clock);
+
+      const session: Omit<DBSession, "id"> = {
+        taskType: task.taskType,
+        energyLevel: task.energyLevel,
+        timeOfDay: "morning",
+        recommendedDuration: recommendation.focusDuration,
+        recommendedBreak: recommendation.breakDuration,
+        userSelectedDuration: recommendation.focusDuration,
+        userSelectedBreak: breakTaken,
+        acceptedRecommendation: true,
+        sessionCompleted,
+        focusedUntilSkipped: focused,
+        reward: 0,
+        date: new Date(clock).toISOString().split("T")[0],
+        createdAt: new Date(clock).toISOString(),
+        skipReason: sessionCompleted ? undefined : "skippedFocus",
+      };
+
+      await recordBreakOutcome(session);
+      await insertSession(session);
+      await recordSession(
+        task,
+        recommendation.focusDuration,
+        focused,
+        sessionCompleted,
+      );
+
+      sessions++;
+      track.sessions++;
+      if (sessionCompleted) {
+        completed++;
+        track.completed++;
+      }
+      focusMinutes += focused;
+      minutesToday += focused;
+
+      // Idle a little before picking the next task
+      clock += Math.floor(random() * 30) * MS_PER_MINUTE;
+    }
+
+    if (minutesToday > profile.dailyLimitMinutes) burnoutEvents++;
+  }
+
+  const contexts: ContextReport[] = Array.from(tracks.entries())
+    .map(([contextKey, track]) => ({
+      contextKey,
+      capacity: track.capacity,
+      sessions: track.sessions,
+      completionRate: track.sessions > 0 ? track.completed / track.sessions : 0,
+      convergenceDay: getConvergenceDay(track, convergenceTolerance),
+      finalBaseline: track.baselines[track.baselines.length - 1]?.value ?? 0,
+    }))
+    .sort((a, b) => a.contextKey.localeCompare(b.contextKey));
+
+  return {
+    profile: profile.name,
+    days,
+    sessions,
+    focusMinutes,
+    completionRate: sessions > 0 ? completed / sessions : 0,
+    burnoutEvents,
+    contexts,
+  };
+}
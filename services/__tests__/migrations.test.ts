@@ -0,0 +1,177 @@
+/**
+ * Schema Migration Tests
+ *
+ * The steps run against real SQLite (sql.js), so the migration SQL is
+ * exercised exactly as written.
+ */
+import {
+  getSchemaVersion,
+  Migration,
+  MigrationDatabase,
+  MIGRATIONS,
+  runMigrations,
+} from "../migrations";
+import { createSqlJsDatabase } from "./sqlJsDatabase";
+
+const LATEST = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const openDatabase = () =>
+  createSqlJsDatabase() as unknown as MigrationDatabase;
+
+const columnsOf = async (db: MigrationDatabase, table: string) =>
+  (await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`)).map(
+    (column) => column.name,
+  );
+
+const namesOf = async (db: MigrationDatabase, type: "table" | "index") =>
+  (
+    await db.getAllAsync<{ name: string }>(
+      "SELECT name FROM sqlite_master WHERE type = ?",
+      [type],
+    )
+  ).map((row) => row.name);
+
+describe("Schema Migrations", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should build a fresh database up to the latest version", async () => {
+    const db = openDatabase();
+
+    await expect(runMigrations(db)).resolves.toBe(LATEST);
+
+    expect(await getSchemaVersion(db)).toBe(LATEST);
+    expect(await columnsOf(db, "sessions")).toEqual(
+      expect.arrayContaining([
+        "note",
+        "deletedAt",
+        "isManual",
+        "pauseCount",
+        "pausedSeconds",
+      ]),
+    );
+    expect(await namesOf(db, "table")).toEqual(
+      expect.arrayContaining([
+        "adaptive_contexts",
+        "adaptive_records",
+        "session_events",
+      ]),
+    );
+    expect(await namesOf(db, "index")).toEqual(
+      expect.arrayContaining([
+        "idx_adaptive_records_context",
+        "idx_sessions_created",
+        "idx_sessions_date",
+        "idx_sessions_task",
+        "idx_session_events_session",
+      ]),
+    );
+  });
+
+  it("should adopt a pre-versioning database without failing", async () => {
+    const db = openDatabase();
+    // Older builds created every table and re-added "note" on each launch
+    await db.execAsync(`
+      CREATE TABLE sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, taskType TEXT NOT NULL,
+        energyLevel TEXT NOT NULL, timeOfDay TEXT NOT NULL,
+        recommendedDuration INTEGER NOT NULL, recommendedBreak INTEGER NOT NULL,
+        userSelectedDuration INTEGER NOT NULL, userSelectedBreak INTEGER NOT NULL,
+        acceptedRecommendation INTEGER NOT NULL, sessionCompleted INTEGER NOT NULL,
+        focusedUntilSkipped INTEGER NOT NULL, reward REAL NOT NULL,
+        date TEXT NOT NULL, createdAt TEXT NOT NULL,
+        skipReason TEXT DEFAULT 'none', note TEXT
+      );
+      CREATE TABLE adaptive_contexts (
+        contextKey TEXT PRIMARY KEY NOT NULL, taskType TEXT NOT NULL,
+        energyLevel TEXT NOT NULL, ewma REAL NOT NULL,
+        completionRate REAL NOT NULL, updatedAt INTEGER NOT NULL
+      );
+      CREATE TABLE adaptive_records (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, contextKey TEXT NOT NULL,
+        duration INTEGER NOT NULL, actualFocusTime INTEGER NOT NULL,
+        completed INTEGER NOT NULL, timestamp INTEGER NOT NULL
+      );
+      INSERT INTO sessions (
+        taskType, energyLevel, timeOfDay, recommendedDuration, recommendedBreak,
+        userSelectedDuration, userSelectedBreak, acceptedRecommendation,
+        sessionCompleted, focusedUntilSkipped, reward, date, createdAt, note
+      ) VALUES ('coding', 'mid', 'morning', 25, 5, 25, 5, 1, 1, 25, 0,
+        '2025-01-01', '2025-01-01T10:00:00.000Z', 'kept');
+    `);
+
+    await expect(runMigrations(db)).resolves.toBe(LATEST);
+    expect(
+      (await columnsOf(db, "sessions")).filter((c) => c === "note"),
+    ).toHaveLength(1);
+    expect(
+      await db.getFirstAsync("SELECT note, deletedAt, pauseCount FROM sessions"),
+    ).toEqual({ note: "kept", deletedAt: null, pauseCount: 0 });
+  });
+
+  it("should do nothing when already up to date", async () => {
+    const db = openDatabase();
+    await runMigrations(db);
+    const execAsync = jest.spyOn(db, "execAsync");
+    const withTransactionAsync = jest.spyOn(db, "withTransactionAsync");
+
+    await runMigrations(db);
+    expect(execAsync).not.toHaveBeenCalled();
+    expect(withTransactionAsync).not.toHaveBeenCalled();
+  });
+
+  it("should roll back a failing step and surface the error", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const db = openDatabase();
+    const migrations: Migration[] = [
+      {
+        version: 1,
+        name: "create a",
+        up: (db) => db.execAsync("CREATE TABLE a (id INTEGER)"),
+      },
+      {
+        version: 2,
+        name: "half-applied",
+        up: async (db) => {
+          await db.execAsync("CREATE TABLE b (id INTEGER)");
+          await db.execAsync("ALTER TABLE missing ADD COLUMN x TEXT");
+        },
+      },
+    ];
+
+    await expect(runMigrations(db, migrations)).rejects.toThrow(
+      "no such table: missing",
+    );
+    expect(await getSchemaVersion(db)).toBe(1);
+    expect(await namesOf(db, "table")).toContain("a");
+    expect(await namesOf(db, "table")).not.toContain("b");
+  });
+
+  it("should reject migrations that are out of order", async () => {
+    const db = openDatabase();
+    const getFirstAsync = jest.spyOn(db, "getFirstAsync");
+    const noop = async () => {};
+
+    await expect(
+      runMigrations(db, [
+        { version: 2, name: "second", up: noop },
+        { version: 1, name: "first", up: noop },
+      ]),
+    ).rejects.toThrow("versions must be increasing");
+    expect(getFirstAsync).not.toHaveBeenCalled();
+  });
+
+  it("should refuse a database from a newer app version", async () => {
+    const db = openDatabase();
+    await db.execAsync(`PRAGMA user_version = ${LATEST + 1}`);
+
+    await expect(runMigrations(db)).rejects.toThrow(
+      "newer than this app supports",
+    );
+  });
+});
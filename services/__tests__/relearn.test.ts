@@ -0,0 +1,82 @@
+/**
+ * Session Edit Re-learning Tests
+ *
+ * An edit or delete re-learns only the contexts it touches, reading just
+ * their sessions. Run against real SQLite (sql.js), so the replay queries
+ * are exercised as written: the result must match a rebuild from scratch.
+ */
+import {
+  loadAdaptiveState,
+  rebuildAdaptiveState,
+} from "../adaptiveEngine";
+import { deleteAllSessions, insertSession } from "../database";
+import {
+  restoreTrashBatchInDB,
+  trashSessionInDB,
+  updateSessionInDB,
+} from "../sessionService";
+import { buildSession } from "../__mocks__/sessionFixture";
+
+jest.mock("expo-sqlite", () => ({
+  openDatabaseSync: () => require("./sqlJsDatabase").createSqlJsDatabase(),
+}));
+
+const TASKS = ["coding", "reading", "writing", "coding", "reading", "writing"];
+
+describe("Re-learning After Session Edits", () => {
+  let ids: number[];
+
+  const expectRebuildToMatch = async () => {
+    const relearned = JSON.parse(JSON.stringify(await loadAdaptiveState()));
+    await rebuildAdaptiveState();
+    expect(await loadAdaptiveState()).toEqual(relearned);
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    await deleteAllSessions();
+
+    // Back to back, so each session also judges the break before it
+    ids = [];
+    for (let i = 0; i < TASKS.length; i++) {
+      const createdAt = new Date(Date.UTC(2025, 0, 1, 9, i * 35)).toISOString();
+      ids.push(
+        await insertSession(
+          buildSession(createdAt, {
+            taskType: TASKS[i],
+            focusedUntilSkipped: 20 + i,
+          }),
+        ),
+      );
+    }
+    // Saved at the same moment as the one before; id keeps them in order
+    ids.push(
+      await insertSession(
+        buildSession(new Date(Date.UTC(2025, 0, 1, 11, 55)).toISOString(), {
+          taskType: "reading",
+        }),
+      ),
+    );
+    await rebuildAdaptiveState();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should match a rebuild after a session is trashed", async () => {
+    await trashSessionInDB(ids[2]);
+    await expectRebuildToMatch();
+  });
+
+  it("should match a rebuild after a session moves to another context", async () => {
+    await updateSessionInDB(ids[4], { taskType: "writing", energyLevel: "high" });
+    await expectRebuildToMatch();
+  });
+
+  it("should match a rebuild after a delete is undone", async () => {
+    const deletedAt = await trashSessionInDB(ids[0]);
+    await restoreTrashBatchInDB(deletedAt);
+    await expectRebuildToMatch();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Session Planner Tests
+ *
+ * Sessions are saved once their break ends (or straight away when focus is
+ * skipped), so the planner dates the end of the last focus block a break
+ * before the session's createdAt.
+ */
+import { Session } from "@/types";
+import { getSessionRecommendation } from "../sessionPlanner";
+import { buildSession } from "../__mocks__/sessionFixture";
+
+jest.mock("../database");
+
+const { insertSession, resetMockDatabase } = jest.requireMock("../database");
+
+const NOW = new Date("2025-03-12T12:00:00.000Z");
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Saved `savedAgo` ms before NOW, after a 10-minute break
+const saveSession = (
+  savedAgo: number,
+  overrides: Partial<Session> = {},
+): Promise<number> =>
+  insertSession(
+    buildSession(new Date(NOW.getTime() - savedAgo).toISOString(), {
+      taskType: "Coding",
+      userSelectedBreak: 10,
+      ...overrides,
+    }),
+  );
+
+describe("Session Planner", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(NOW);
+    resetMockDatabase();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should count the saved session's break as rest", async () => {
+    // Saved a minute ago after a 10-minute break: focus ended 11 minutes ago
+    await saveSession(MINUTE);
+
+    const { trace } = await getSessionRecommendation("mid", "Coding");
+    expect(trace?.multipliers.cooldown).toBe(1);
+  });
+
+  it("should date a skipped session's focus end when it was saved", async () => {
+    await saveSession(MINUTE, { sessionCompleted: false, focusedUntilSkipped: 15 });
+
+    const { trace } = await getSessionRecommendation("mid", "Coding");
+    expect(trace?.multipliers.cooldown).toBeLessThan(1);
+  });
+
+  it("should count days off from when the last session was saved", async () => {
+    await saveSession(3 * DAY - MINUTE);
+    const recent = await getSessionRecommendation("mid", "Coding");
+
+    resetMockDatabase();
+    await saveSession(3 * DAY + MINUTE);
+    const rested = await getSessionRecommendation("mid", "Coding");
+
+    expect(recent.trace?.multipliers.rest).toBe(1);
+    expect(rested.trace?.multipliers.rest).toBe(0.8);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Session Service Tests
+ *
+ * Paging, trash, manual logging and session events on top of the
+ * in-memory database stand-in.
+ */
+import { summarizePauses } from "@/utils/sessionUtils";
+import { loadAdaptiveState, rebuildAdaptiveState } from "../adaptiveEngine";
+import {
+  clearAllSessionsFromDB,
+  createAndSaveSession,
+  deleteSessionForever,
+  loadSessionEvents,
+  loadSessionPage,
+  loadSessionsFromDB,
+  loadTrashFromDB,
+  logManualSession,
+  purgeExpiredTrash,
+  restoreSessionFromTrash,
+  restoreTrashBatchInDB,
+  trashSessionInDB,
+} from "../sessionService";
+import { buildSession } from "../__mocks__/sessionFixture";
+
+jest.mock("../database");
+const { insertSession, resetMockDatabase } = jest.requireMock("../database");
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("Session Queries", () => {
+  beforeEach(() => {
+    resetMockDatabase();
+  });
+
+  it("should return the inserted row rather than the oldest one", async () => {
+    await insertSession(buildSession("2025-01-02T10:00:00.000Z"));
+    const saved = await createAndSaveSession(
+      buildSession("2025-01-01T10:00:00.000Z", { taskType: "writing" }),
+    );
+
+    expect(saved).toMatchObject({ id: 2, taskType: "writing" });
+  });
+
+  it("should page newest first without skipping sessions saved at the same moment", async () => {
+    const createdAt = ["01", "02", "02", "02", "03"].map(
+      (day) => `2025-01-${day}T10:00:00.000Z`,
+    );
+    for (const stamp of createdAt) await insertSession(buildSession(stamp));
+
+    const first = await loadSessionPage({}, null, 2);
+    const second = await loadSessionPage({}, first[1], 2);
+    const third = await loadSessionPage({}, second[1], 2);
+
+    expect([...first, ...second, ...third].map((s) => s.id)).toEqual([
+      5, 4, 3, 2, 1,
+    ]);
+  });
+
+  it("should load only the newest sessions into the store", async () => {
+    for (const day of ["01", "03", "02"]) {
+      await insertSession(buildSession(`2025-01-${day}T10:00:00.000Z`));
+    }
+
+    const sessions = await loadSessionsFromDB(2);
+    expect(sessions.map((s) => s.id)).toEqual([2, 3]);
+  });
+
+  it("should filter pages by date and task", async () => {
+    await insertSession(buildSession("2025-01-01T10:00:00.000Z"));
+    await insertSession(
+      buildSession("2025-01-05T10:00:00.000Z", { taskType: "writing" }),
+    );
+    await insertSession(buildSession("2025-01-06T10:00:00.000Z"));
+
+    const page = await loadSessionPage(
+      { since: "2025-01-02T00:00:00.000Z", taskTypes: ["coding"] },
+      null,
+    );
+    expect(page.map((s) => s.id)).toEqual([3]);
+  });
+});
+
+describe("Session Events", () => {
+  const at = (time: string) => `2025-01-01T${time}.000Z`;
+  const timeline = [
+    { type: "start" as const, timestamp: at("10:00:00") },
+    { type: "pause" as const, timestamp: at("10:05:00") },
+    { type: "resume" as const, timestamp: at("10:08:00") },
+    { type: "pause" as const, timestamp: at("10:20:00") },
+    { type: "skip" as const, timestamp: at("10:21:30") },
+  ];
+
+  beforeEach(() => {
+    resetMockDatabase();
+  });
+
+  it("should sum focus pauses, closing one still open at the skip", () => {
+    expect(summarizePauses(timeline)).toEqual({
+      pauseCount: 2,
+      pausedSeconds: 3 * 60 + 90,
+    });
+  });
+
+  it("should ignore pauses during the break", () => {
+    expect(
+      summarizePauses([
+        { type: "start", timestamp: at("10:00:00") },
+        { type: "complete", timestamp: at("10:25:00") },
+        { type: "pause", timestamp: at("10:27:00") },
+        { type: "resume", timestamp: at("10:29:00") },
+        { type: "complete", timestamp: at("10:32:00") },
+      ]),
+    ).toEqual({ pauseCount: 0, pausedSeconds: 0 });
+  });
+
+  it("should save a session's timeline and drop it when purged", async () => {
+    const saved = await createAndSaveSession(
+      buildSession("2025-01-01T10:21:30.000Z"),
+      timeline,
+    );
+
+    expect(await loadSessionEvents(saved.id!)).toEqual(timeline);
+
+    await trashSessionInDB(saved.id!);
+    await deleteSessionForever(saved.id!);
+    expect(await loadSessionEvents(saved.id!)).toEqual([]);
+  });
+});
+
+describe("Session Trash", () => {
+  beforeEach(() => {
+    resetMockDatabase();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should hide trashed sessions and restore a whole clear at once", async () => {
+    await insertSession(buildSession("2025-01-01T10:00:00.000Z"));
+    await insertSession(buildSession("2025-01-02T10:00:00.000Z"));
+
+    const deletedAt = await clearAllSessionsFromDB();
+    expect(await loadSessionsFromDB()).toHaveLength(0);
+    expect(await loadTrashFromDB()).toHaveLength(2);
+
+    await restoreTrashBatchInDB(deletedAt);
+    expect(await loadSessionsFromDB()).toHaveLength(2);
+    expect(await loadTrashFromDB()).toHaveLength(0);
+  });
+
+  it("should forget what the coach learned on a clear and relearn it on undo", async () => {
+    await insertSession(buildSession("2025-01-01T10:00:00.000Z"));
+    await insertSession(
+      buildSession("2025-01-02T10:00:00.000Z", { taskType: "writing" }),
+    );
+    await rebuildAdaptiveState();
+    const learned = await loadAdaptiveState();
+    expect(Object.keys(learned)).toHaveLength(2);
+
+    const deletedAt = await clearAllSessionsFromDB();
+    expect(await loadAdaptiveState()).toEqual({});
+
+    await restoreTrashBatchInDB(deletedAt);
+    expect(await loadAdaptiveState()).toEqual(learned);
+  });
+
+  it("should restore a single session without touching the rest of the trash", async () => {
+    const first = await insertSession(buildSession("2025-01-01T10:00:00.000Z"));
+    const second = await insertSession(buildSession("2025-01-02T10:00:00.000Z"));
+    await trashSessionInDB(first);
+    await trashSessionInDB(second);
+
+    await restoreSessionFromTrash(first);
+
+    expect((await loadSessionsFromDB()).map((s) => s.id)).toEqual([first]);
+    expect((await loadTrashFromDB()).map((s) => s.id)).toEqual([second]);
+  });
+
+  it("should only delete sessions forever once they're in the trash", async () => {
+    const id = await insertSession(buildSession("2025-01-01T10:00:00.000Z"));
+
+    await deleteSessionForever(id);
+    expect(await loadSessionsFromDB()).toHaveLength(1);
+
+    await trashSessionInDB(id);
+    await deleteSessionForever(id);
+    expect(await loadTrashFromDB()).toHaveLength(0);
+  });
+
+  it("should purge only sessions trashed longer than the retention period", async () => {
+    const old = await insertSession(buildSession("2025-01-01T10:00:00.000Z"));
+    const recent = await insertSession(buildSession("2025-01-02T10:00:00.000Z"));
+    const start = new Date("2025-02-01T10:00:00.000Z").getTime();
+    jest.useFakeTimers();
+
+    try {
+      jest.setSystemTime(start);
+      await trashSessionInDB(old);
+      jest.setSystemTime(start + 20 * DAY);
+      await trashSessionInDB(recent);
+
+      jest.setSystemTime(start + 31 * DAY);
+      expect(await purgeExpiredTrash(30)).toBe(1);
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect((await loadTrashFromDB()).map((s) => s.id)).toEqual([recent]);
+  });
+});
+
+describe("Manual Sessions", () => {
+  const startedAt = new Date("2025-01-01T09:00:00.000Z");
+
+  beforeEach(() => {
+    resetMockDatabase();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should save a flagged session ending after its actual minutes", async () => {
+    const session = await logManualSession({
+      taskType: "Reading",
+      energyLevel: "low",
+      startedAt,
+      targetMinutes: 45,
+      actualMinutes: 30,
+      learn: false,
+    });
+
+    expect(session).toMatchObject({
+      isManual: true,
+      excludeFromLearning: true,
+      userSelectedDuration: 45,
+      focusedUntilSkipped: 30,
+      sessionCompleted: false,
+      skipReason: "skippedFocus",
+      createdAt: "2025-01-01T09:30:00.000Z",
+    });
+    expect(await loadSessionsFromDB()).toHaveLength(1);
+  });
+
+  it("should teach the coach only when asked, even after a rebuild", async () => {
+    const input = {
+      energyLevel: "mid" as const,
+      startedAt,
+      targetMinutes: 50,
+      actualMinutes: 50,
+    };
+    await logManualSession({ ...input, taskType: "Meeting", learn: true });
+    await logManualSession({ ...input, taskType: "Paper", learn: false });
+
+    let state = await loadAdaptiveState();
+    expect(state["Meeting|mid"].ewma).toBe(50);
+    expect(state["Paper|mid"]).toBeUndefined();
+
+    await rebuildAdaptiveState();
+    state = await loadAdaptiveState();
+    expect(Object.keys(state)).toEqual(["Meeting|mid"]);
+  });
+
+  it("should reject sessions that haven't finished yet", async () => {
+    await expect(
+      logManualSession({
+        taskType: "Reading",
+        energyLevel: "low",
+        startedAt: new Date(Date.now() - 10 * 60000),
+        targetMinutes: 30,
+        actualMinutes: 30,
+        learn: true,
+      }),
+    ).rejects.toThrow("must have already ended");
+  });
+});
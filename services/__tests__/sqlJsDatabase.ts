@@ -0,0 +1,76 @@
+/**
+ * sql.js Database
+ *
+ * expo-sqlite's async API over a real SQLite engine compiled to
+ * WebAssembly, so the queries in services/database.ts run exactly as
+ * written: migrations, strftime bucketing, MAX() and all. Install it in
+ * place of expo-sqlite with:
+ *
+ *   jest.mock("expo-sqlite", () => ({
+ *     openDatabaseSync: () =>
+ *       require("./sqlJsDatabase").createSqlJsDatabase(),
+ *   }));
+ *
+ * or hand one straight to code that takes the database, like runMigrations.
+ */
+import type { BindParams, Database, SqlValue } from "sql.js";
+
+// The asm.js build: the WebAssembly one can't open a database inside
+// Jest's sandbox
+const initSqlJs: typeof import("sql.js").default = require("sql.js/dist/sql-asm.js");
+
+type Param = SqlValue | boolean | undefined;
+
+// expo-sqlite binds booleans as 0/1 and undefined as NULL
+const toBindParams = (params: Param[] = []): BindParams =>
+  params.map((p) =>
+    typeof p === "boolean" ? (p ? 1 : 0) : p === undefined ? null : p,
+  );
+
+export function createSqlJsDatabase() {
+  const ready: Promise<Database> = initSqlJs().then(
+    (SQL) => new SQL.Database(),
+  );
+
+  const getAllAsync = async <T>(source: string, params?: Param[]) => {
+    const db = await ready;
+    const statement = db.prepare(source, toBindParams(params));
+    const rows: T[] = [];
+    try {
+      while (statement.step()) rows.push(statement.getAsObject() as T);
+    } finally {
+      statement.free();
+    }
+    return rows;
+  };
+
+  const execAsync = async (source: string) => {
+    (await ready).exec(source);
+  };
+
+  return {
+    execAsync,
+    getAllAsync,
+    getFirstAsync: async <T>(source: string, params?: Param[]) =>
+      (await getAllAsync<T>(source, params))[0] ?? null,
+    runAsync: async (source: string, params?: Param[]) => {
+      const db = await ready;
+      db.run(source, toBindParams(params));
+      const changes = db.getRowsModified();
+      const [{ id }] = await getAllAsync<{ id: number }>(
+        "SELECT last_insert_rowid() AS id",
+      );
+      return { lastInsertRowId: id, changes };
+    },
+    withTransactionAsync: async (task: () => Promise<void>) => {
+      await execAsync("BEGIN");
+      try {
+        await task();
+        await execAsync("COMMIT");
+      } catch (error) {
+        await execAsync("ROLLBACK");
+        throw error;
+      }
+    },
+  };
+}
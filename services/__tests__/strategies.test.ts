@@ -0,0 +1,180 @@
+/**
+ * Recommendation Strategy Tests
+ */
+import { getSessionRecommendation } from "../sessionPlanner";
+import {
+  getStrategy,
+  getTaskStrategy,
+  STRATEGIES,
+  StrategyId,
+} from "../strategies";
+import { buildSession, focusedFor } from "../__mocks__/sessionFixture";
+
+jest.mock("../database");
+const { insertSession, resetMockDatabase } = jest.requireMock("../database");
+
+describe("Recommendation Strategies", () => {
+  beforeEach(() => {
+    resetMockDatabase();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each([
+    ["pomodoro", 25, 5],
+    ["fifty-two-seventeen", 52, 17],
+    ["ultradian", 90, 20],
+  ] as [StrategyId, number, number][])(
+    "should give %s a fixed %i/%i schedule",
+    async (id, focus, breakMinutes) => {
+      const result = await getSessionRecommendation(
+        "high",
+        "Coding",
+        [],
+        false,
+        undefined,
+        id,
+      );
+
+      expect(result).toEqual({
+        focusDuration: focus,
+        breakDuration: breakMinutes,
+        trace: null,
+        strategy: id,
+      });
+      await expect(
+        STRATEGIES[id].recommendBreak(
+          { taskType: "Coding", energyLevel: "high" },
+          10,
+          false,
+        ),
+      ).resolves.toBe(breakMinutes);
+    },
+  );
+
+  it.each([
+    ["pomodoro", 25],
+    ["fifty-two-seventeen", 30],
+    ["ultradian", 30],
+  ] as [StrategyId, number][])(
+    "should cap %s at %i/5 in ADHD mode",
+    async (id, focus) => {
+      const result = await getSessionRecommendation(
+        "high",
+        "Coding",
+        [],
+        true,
+        undefined,
+        id,
+      );
+
+      expect(result).toMatchObject({ focusDuration: focus, breakDuration: 5 });
+      await expect(
+        STRATEGIES[id].recommendBreak(
+          { taskType: "Coding", energyLevel: "high" },
+          focus,
+          true,
+        ),
+      ).resolves.toBe(5);
+    },
+  );
+
+  it("should repeat the last completed duration in the same context", async () => {
+    await insertSession(
+      buildSession("2026-01-05T09:00:00.000Z", {
+        taskType: "Coding",
+        ...focusedFor(40),
+      }),
+    );
+    await insertSession(
+      buildSession("2026-01-05T10:00:00.000Z", {
+        taskType: "Coding",
+        userSelectedDuration: 50,
+        focusedUntilSkipped: 5,
+        sessionCompleted: false,
+      }),
+    );
+    await insertSession(
+      buildSession("2026-01-05T11:00:00.000Z", {
+        taskType: "Writing",
+        ...focusedFor(60),
+      }),
+    );
+
+    const result = await getSessionRecommendation(
+      "mid",
+      "coding",
+      [],
+      false,
+      undefined,
+      "last-successful",
+    );
+
+    expect(result.focusDuration).toBe(40);
+    expect(result.breakDuration).toBe(15);
+    expect(result.trace).toBeNull();
+  });
+
+  it("should cap a repeated session at 30/5 in ADHD mode", async () => {
+    await insertSession(
+      buildSession("2026-01-05T09:00:00.000Z", focusedFor(50)),
+    );
+
+    const result = await getSessionRecommendation(
+      "mid",
+      "Coding",
+      [],
+      true,
+      undefined,
+      "last-successful",
+    );
+
+    expect(result).toMatchObject({ focusDuration: 30, breakDuration: 5 });
+    await expect(
+      STRATEGIES["last-successful"].recommendBreak(
+        { taskType: "Coding", energyLevel: "mid" },
+        50,
+        true,
+      ),
+    ).resolves.toBe(5);
+  });
+
+  it("should fall back to the heuristic before any completed session", async () => {
+    await insertSession(
+      buildSession("2026-01-05T09:00:00.000Z", {
+        userSelectedDuration: 50,
+        focusedUntilSkipped: 5,
+        sessionCompleted: false,
+      }),
+    );
+
+    const result = await getSessionRecommendation(
+      "mid",
+      "Coding",
+      [],
+      false,
+      undefined,
+      "last-successful",
+    );
+
+    expect(result.focusDuration).toBe(25);
+  });
+
+  it("should default to the adaptive coach", async () => {
+    const result = await getSessionRecommendation("mid", "Coding");
+
+    expect(result.strategy).toBe("adaptive");
+    expect(result.trace).not.toBeNull();
+  });
+
+  it("should resolve per-task choices and unknown ids to the adaptive coach", () => {
+    const choices = { Coding: "pomodoro" } as Record<string, StrategyId>;
+
+    expect(getTaskStrategy(choices, "coding")).toBe("pomodoro");
+    expect(getTaskStrategy(choices, "Writing")).toBe("adaptive");
+    expect(getStrategy("legacy" as StrategyId).id).toBe("adaptive");
+  });
+});
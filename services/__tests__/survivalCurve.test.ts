@@ -0,0 +1,65 @@
+/**
+ * Survival Curve Tests
+ */
+import {
+  estimateSurvivalCurve,
+  getLongestDurationAtProbability,
+  getSurvivalProbability,
+  toSurvivalObservation,
+} from "../survivalCurve";
+
+describe("Survival Curve", () => {
+  // Two drop-outs (10m, 20m) and three sessions that reached 25m
+  const observations = [
+    { minutes: 10, dropped: true },
+    { minutes: 20, dropped: true },
+    { minutes: 25, dropped: false },
+    { minutes: 25, dropped: false },
+    { minutes: 25, dropped: false },
+  ];
+
+  it("estimates a Kaplan-Meier step curve with censoring", () => {
+    const curve = estimateSurvivalCurve(observations);
+
+    // 10m: 1 of 5 drop -> 0.8; 20m: 1 of 4 drop -> 0.6
+    expect(curve.map((p) => [p.minute, p.atRisk])).toEqual([
+      [0, 5],
+      [10, 5],
+      [20, 4],
+    ]);
+    expect(curve[1].probability).toBeCloseTo(0.8);
+    expect(curve[2].probability).toBeCloseTo(0.6);
+    expect(getSurvivalProbability(curve, 5)).toBe(1);
+    expect(getSurvivalProbability(curve, 15)).toBe(0.8);
+    expect(getSurvivalProbability(curve, 25)).toBeCloseTo(0.6);
+  });
+
+  it("picks the longest duration reached with the target probability", () => {
+    const curve = estimateSurvivalCurve(observations);
+    expect(getLongestDurationAtProbability(curve, 0.7)).toBe(19);
+    expect(getLongestDurationAtProbability(curve, 0.9)).toBe(9);
+    expect(getLongestDurationAtProbability(curve, 0.5)).toBeNull();
+  });
+
+  it("has no limit when nobody drops out", () => {
+    const curve = estimateSurvivalCurve([
+      { minutes: 30, dropped: false },
+      { minutes: 45, dropped: false },
+    ]);
+    expect(curve).toHaveLength(1);
+    expect(getLongestDurationAtProbability(curve, 0.7)).toBeNull();
+  });
+
+  it("treats sessions that focused the full target as survivors", () => {
+    expect(
+      toSurvivalObservation({ duration: 40, actualFocusTime: 15, completed: false }),
+    ).toEqual({ minutes: 15, dropped: true });
+    // Focus finished but the break was skipped
+    expect(
+      toSurvivalObservation({ duration: 40, actualFocusTime: 40, completed: false }),
+    ).toEqual({ minutes: 40, dropped: false });
+    expect(
+      toSurvivalObservation({ duration: 40, actualFocusTime: 40, completed: true }),
+    ).toEqual({ minutes: 40, dropped: false });
+  });
+});
@@ -7,22 +7,63 @@
  */
 
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { DEFAULT_HISTORY_HALF_LIFE_DAYS } from "@/constants/timer";
 import { EnergyLevel } from "@/types";
+import {
+  DBAdaptiveContext,
+  DBAdaptiveRecord,
+  DBFocusSample,
+  DBSession,
+  getAdaptiveContext,
+  getAdaptiveRecords,
+  getAdaptiveRecordsForContexts,
+  getAllAdaptiveContexts,
+  getAllAdaptiveRecords,
+  getAllSessions,
+  getContextsBefore,
+  getFocusSamples,
+  getLatestSession,
+  getReplaySessions,
+  replaceAdaptiveContexts,
+  replaceAdaptiveData,
+  saveAdaptiveRecord,
+} from "./database";
 import { getRecommendations } from "./recommendations";
+import {
+  estimateSurvivalCurve,
+  getLongestDurationAtProbability,
+  toSurvivalObservation,
+} from "./survivalCurve";
 import { roundToNearest5 } from "@/utils/time";
 
+// Legacy AsyncStorage blob, migrated into SQLite on first use
 export const ADAPTIVE_STORAGE_KEY = "adaptive_engine_state_v1";
 export const EWMA_ALPHA = 0.3; // Recent sessions carry ~30% weight
 export const MIN_COMPLETION_RATE = 0.6; // Below this, blend in actual durations
-export const HISTORY_LIMIT = 20; // Keep last 20 sessions per context
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+export const BREAK_CONTEXT_SUFFIX = "-break"; // Break contexts are "<task>-break|<energy>"
+export const BREAK_IDLE_LIMIT_MINUTES = 60; // Longer gaps mean they left, not rested
+export const MAX_BREAK_MINUTES = 30;
+export const SURVIVAL_TARGET_PROBABILITY = 0.7; // Recommend durations reached 70% of the time
+export const MIN_SURVIVAL_SAMPLES = 5; // Sessions needed before the drop-off curve caps anything
+export const CONFIDENCE_FULL_HISTORY = 5; // Sessions needed for full size confidence
+export const CONFIDENCE_HALF_LIFE_DAYS = 30; // Confidence halves per month unused
+export const CONFIDENT_THRESHOLD = 0.75; // At or above this, the baseline counts as learned
+export const MIN_PERIOD_SESSIONS = 5; // Sessions needed in a period (and outside it) before splitting
+export const PERIOD_SPLIT_T = 2; // Welch's t beyond this (~95%) means the period really differs
+export const INTERRUPTED_PAUSE_COUNT = 3; // Pauses that make a session heavily interrupted
+export const INTERRUPTED_PAUSE_RATIO = 0.5; // ...or paused for at least half as long as focused
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
+export type TimeOfDay = "morning" | "afternoon" | "evening";
+
 export interface Context {
   taskType: string;
   energyLevel: EnergyLevel;
+  timeOfDay?: TimeOfDay; // Opt-in: only used once the period differs enough
 }
 
 export interface SessionRecord {
@@ -42,28 +83,217 @@ export interface AdaptiveState {
   [contextKey: string]: ContextStats;
 }
 
+/**
+ * How history ages. A record's weight halves every `halfLifeDays` behind
+ * the newest record, and records older than `maxAgeDays` are dropped.
+ */
+export interface HistoryDecayConfig {
+  halfLifeDays: number;
+  maxAgeDays: number;
+}
+
+export const DEFAULT_HISTORY_DECAY: HistoryDecayConfig = {
+  halfLifeDays: DEFAULT_HISTORY_HALF_LIFE_DAYS,
+  maxAgeDays: 120,
+};
+
+/**
+ * History decay with the user's chosen half-life.
+ */
+export function getHistoryDecay(halfLifeDays: number): HistoryDecayConfig {
+  return { ...DEFAULT_HISTORY_DECAY, halfLifeDays };
+}
+
 // ============================================================================
 // STATE MANAGEMENT
 // ============================================================================
 
-export async function loadAdaptiveState(): Promise<AdaptiveState> {
+/**
+ * Split a "taskType|energyLevel" key back into its context.
+ * Task names never contain "|", but split on the last one to be safe.
+ */
+function parseKey(key: string): Context {
+  const separator = key.lastIndexOf("|");
+  return {
+    taskType: key.slice(0, separator),
+    energyLevel: key.slice(separator + 1) as EnergyLevel,
+  };
+}
+
+function toSessionRecord(row: DBAdaptiveRecord): SessionRecord {
+  return {
+    duration: row.duration,
+    actualFocusTime: row.actualFocusTime,
+    completed: row.completed,
+    timestamp: row.timestamp,
+  };
+}
+
+function toContextRow(key: string, stats: ContextStats): DBAdaptiveContext {
+  const { taskType, energyLevel } = parseKey(key);
+  const last = stats.history[stats.history.length - 1];
+  return {
+    contextKey: key,
+    taskType,
+    energyLevel,
+    ewma: stats.ewma,
+    completionRate: stats.completionRate,
+    updatedAt: last ? last.timestamp : Date.now(),
+  };
+}
+
+function toAdaptiveRows(state: AdaptiveState): {
+  contexts: DBAdaptiveContext[];
+  records: Omit<DBAdaptiveRecord, "id">[];
+} {
+  return {
+    contexts: Object.entries(state).map(([key, stats]) =>
+      toContextRow(key, stats),
+    ),
+    records: Object.entries(state).flatMap(([key, stats]) =>
+      stats.history.map((record) => ({ ...record, contextKey: key })),
+    ),
+  };
+}
+
+function toAdaptiveState(
+  contexts: DBAdaptiveContext[],
+  records: DBAdaptiveRecord[],
+): AdaptiveState {
+  const state: AdaptiveState = {};
+  for (const context of contexts) {
+    state[context.contextKey] = {
+      history: [],
+      ewma: context.ewma,
+      completionRate: context.completionRate,
+    };
+  }
+  for (const record of records) {
+    state[record.contextKey]?.history.push(toSessionRecord(record));
+  }
+  return state;
+}
+
+let legacyMigration: Promise<void> | null = null;
+
+/**
+ * One-time migration of the old AsyncStorage JSON blob into the
+ * adaptive_contexts / adaptive_records tables. The blob is only removed
+ * once the rows have been written, and failures are rethrown, so an
+ * interrupted migration retries on the next load.
+ */
+export async function migrateLegacyAdaptiveState(): Promise<void> {
   try {
     const data = await AsyncStorage.getItem(ADAPTIVE_STORAGE_KEY);
-    return data ? JSON.parse(data) : {};
+    if (!data) return;
+
+    const existing = await getAllAdaptiveContexts();
+    if (existing.length === 0) {
+      const legacyState: AdaptiveState = JSON.parse(data);
+      // Not saveAdaptiveState: it swallows write errors, and the blob must
+      // outlive a failed write
+      const { contexts, records } = toAdaptiveRows(legacyState);
+      await replaceAdaptiveData(contexts, records);
+      console.log(
+        `[AdaptiveEngine] Migrated ${Object.keys(legacyState).length} contexts from AsyncStorage`,
+      );
+    }
+
+    await AsyncStorage.removeItem(ADAPTIVE_STORAGE_KEY);
+  } catch (error) {
+    console.error("[AdaptiveEngine] Failed to migrate legacy state", error);
+    throw error;
+  }
+}
+
+/**
+ * Runs the legacy migration once. A failure is already logged, so loads
+ * carry on with what's in SQLite and the next one tries again.
+ */
+async function ensureLegacyMigration(): Promise<void> {
+  if (!legacyMigration) {
+    legacyMigration = migrateLegacyAdaptiveState().catch((error) => {
+      legacyMigration = null; // Let the next load try again
+      throw error;
+    });
+  }
+  try {
+    await legacyMigration;
+  } catch {
+    // Continue without the legacy data
+  }
+}
+
+async function loadContextStats(
+  key: string,
+): Promise<ContextStats | undefined> {
+  await ensureLegacyMigration();
+  try {
+    const context = await getAdaptiveContext(key);
+    if (!context) return undefined;
+
+    const records = await getAdaptiveRecords(key);
+    return {
+      history: records.map(toSessionRecord),
+      ewma: context.ewma,
+      completionRate: context.completionRate,
+    };
+  } catch (error) {
+    console.error("[AdaptiveEngine] Failed to load context", error);
+    return undefined;
+  }
+}
+
+export async function loadAdaptiveState(): Promise<AdaptiveState> {
+  await ensureLegacyMigration();
+  try {
+    const contexts = await getAllAdaptiveContexts();
+    const records = await getAllAdaptiveRecords();
+    return toAdaptiveState(contexts, records);
   } catch (error) {
     console.error("[AdaptiveEngine] Failed to load state", error);
     return {};
   }
 }
 
+/**
+ * What a context's prior reads: every context's EWMA (for the energy
+ * ratio), but history only for its siblings, the focus contexts sharing
+ * its task or energy level. Others come back with an empty history.
+ */
+async function loadPriorState(context: Context): Promise<AdaptiveState> {
+  await ensureLegacyMigration();
+  try {
+    const contexts = await getAllAdaptiveContexts();
+    const siblingKeys = contexts
+      .filter(
+        (row) =>
+          !isBreakContextKey(row.contextKey) &&
+          (row.taskType === context.taskType ||
+            row.energyLevel === context.energyLevel),
+      )
+      .map((row) => row.contextKey);
+    const records = await getAdaptiveRecordsForContexts(siblingKeys);
+    return toAdaptiveState(contexts, records);
+  } catch (error) {
+    console.error("[AdaptiveEngine] Failed to load sibling contexts", error);
+    return {};
+  }
+}
+
 export async function saveAdaptiveState(state: AdaptiveState): Promise<void> {
   try {
-    await AsyncStorage.setItem(ADAPTIVE_STORAGE_KEY, JSON.stringify(state));
+    const { contexts, records } = toAdaptiveRows(state);
+    await replaceAdaptiveData(contexts, records);
   } catch (error) {
     console.error("[AdaptiveEngine] Failed to save state", error);
   }
 }
 
+/**
+ * Stored contexts are always "taskType|energyLevel"; time-of-day splits are
+ * derived from session history on demand (see getTimeOfDaySplit).
+ */
 export function createContextKey(context: Context): string {
   return `${context.taskType}|${context.energyLevel}`;
 }
@@ -73,34 +303,35 @@ export function createContextKey(context: Context): string {
 // ============================================================================
 
 /**
- * Record a session and update the learned EWMA.
+ * Weight of a record `ageMs` older than the newest one.
  */
-export async function recordSession(
-  context: Context,
-  duration: number,
-  actualFocusTime: number,
-  completed: boolean
-): Promise<void> {
-  const state = await loadAdaptiveState();
-  const key = createContextKey(context);
-
-  if (!state[key]) {
-    state[key] = { history: [], ewma: 0, completionRate: 0 };
-  }
-
-  const stats = state[key];
+function getDecayWeight(ageMs: number, decay: HistoryDecayConfig): number {
+  return Math.pow(0.5, Math.max(0, ageMs) / (decay.halfLifeDays * MS_PER_DAY));
+}
 
-  // Add new record
-  stats.history.push({ duration, actualFocusTime, completed, timestamp: Date.now() });
+/**
+ * Append a record to a context's history and recompute its EWMA and
+ * completion rate. Shared by live recording and history replay so both
+ * paths learn identically.
+ */
+function applySessionRecord(
+  stats: ContextStats,
+  record: SessionRecord,
+  decay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
+): ContextStats {
+  stats.history.push(record);
   
-  // Keep window size fixed
-  if (stats.history.length > HISTORY_LIMIT) {
-    stats.history = stats.history.slice(-HISTORY_LIMIT);
-  }
+  // Age out old records rather than keeping a fixed count
+  const newest = record.timestamp;
+  const minTimestamp = newest - decay.maxAgeDays * MS_PER_DAY;
+  stats.history = stats.history.filter(s => s.timestamp >= minTimestamp);
 
-  // Calculate completion rate
-  const completedCount = stats.history.filter((s) => s.completed).length;
-  stats.completionRate = completedCount / stats.history.length;
+  // Calculate completion rate, weighting recent sessions more
+  const decayWeights = stats.history.map(s => getDecayWeight(newest - s.timestamp, decay));
+  const totalDecay = decayWeights.reduce((a, b) => a + b, 0);
+  stats.completionRate = stats.history.reduce(
+    (acc, s, i) => acc + (s.completed ? decayWeights[i] : 0), 0,
+  ) / totalDecay;
 
   // Calculate new EWMA
   // If completion rate < 60%, they are struggling. Use actualFocusTime for ALL sessions to pull the average down to reality.
@@ -112,18 +343,310 @@ export async function recordSession(
     : stats.history.filter(s => s.completed);
 
   if (relevantSessions.length > 0) {
-    const values = relevantSessions.map(s => useActualTimes ? s.actualFocusTime : s.duration);
+    // A completed session that ran past its target (flow mode) shows the
+    // target was too short, so it counts for what was actually focused
+    const values = relevantSessions.map(s =>
+      useActualTimes ? s.actualFocusTime : Math.max(s.duration, s.actualFocusTime),
+    );
     
-    // Calculate EWMA array-style
-    let ewma = values[0];
-    for (let i = 1; i < values.length; i++) {
-      ewma = (EWMA_ALPHA * values[i]) + ((1 - EWMA_ALPHA) * ewma);
-    }
-    stats.ewma = ewma;
+    // Classic EWMA weights by position: the oldest value keeps (1-α)^(n-1),
+    // each later one α(1-α)^(n-1-i). Scale each by its time decay and
+    // renormalise, so a burst of sessions today outweighs last season.
+    const n = values.length;
+    const weights = relevantSessions.map((s, i) => {
+      const positional = i === 0
+        ? Math.pow(1 - EWMA_ALPHA, n - 1)
+        : EWMA_ALPHA * Math.pow(1 - EWMA_ALPHA, n - 1 - i);
+      return positional * getDecayWeight(newest - s.timestamp, decay);
+    });
+    const totalWeight = weights.reduce((a, b) => a + b, 0);
+    stats.ewma = values.reduce((acc, v, i) => acc + v * weights[i], 0) / totalWeight;
   }
 
+  return stats;
+}
+
+/**
+ * Record a session and update the learned EWMA. `endedAt` dates the record
+ * when the session finished while the app was closed.
+ */
+export async function recordSession(
+  context: Context,
+  duration: number,
+  actualFocusTime: number,
+  completed: boolean,
+  decay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
+  endedAt: number = Date.now(),
+): Promise<void> {
+  const key = createContextKey(context);
+  const record: SessionRecord = {
+    duration,
+    actualFocusTime,
+    completed,
+    timestamp: endedAt,
+  };
+  const stats = applySessionRecord(
+    (await loadContextStats(key)) ?? { history: [], ewma: 0, completionRate: 0 },
+    record,
+    decay,
+  );
+
   console.log(`[AdaptiveEngine] Updated ${key}: EWMA=${stats.ewma.toFixed(1)}, CR=${(stats.completionRate*100).toFixed(0)}%`);
-  await saveAdaptiveState(state);
+
+  try {
+    await saveAdaptiveRecord(
+      toContextRow(key, stats),
+      { ...record, contextKey: key },
+      record.timestamp - decay.maxAgeDays * MS_PER_DAY,
+    );
+  } catch (error) {
+    console.error("[AdaptiveEngine] Failed to save context", error);
+  }
+}
+
+export interface RebuildResult {
+  sessions: number;
+  contexts: number;
+}
+
+/**
+ * Whether the focus timer was paused so often, or for so long, that how
+ * the session ended says more about the interruptions than the duration.
+ */
+export function isHeavilyInterrupted(
+  session: Pick<DBSession, "pauseCount" | "pausedSeconds" | "focusedUntilSkipped">,
+): boolean {
+  const pauseCount = session.pauseCount ?? 0;
+  const pausedMinutes = (session.pausedSeconds ?? 0) / 60;
+  return (
+    pauseCount >= INTERRUPTED_PAUSE_COUNT ||
+    (pauseCount > 0 &&
+      pausedMinutes >= session.focusedUntilSkipped * INTERRUPTED_PAUSE_RATIO)
+  );
+}
+
+/**
+ * Whether a session teaches its focus context anything. Excluded sessions
+ * don't, and neither do heavily interrupted ones that were abandoned: the
+ * skip doesn't mean the duration was too long. Interrupted sessions that
+ * still reached the end count as usual.
+ */
+export function shouldLearnFocus(session: DBFocusSample): boolean {
+  if (session.excludeFromLearning) return false;
+  return session.sessionCompleted || !isHeavilyInterrupted(session);
+}
+
+/**
+ * Sessions with a valid createdAt, oldest first. id breaks ties, as in
+ * the queries, so a rebuild and a partial re-learn see the same order.
+ */
+function orderSessions(
+  sessions: DBSession[],
+): { session: DBSession; timestamp: number }[] {
+  return sessions
+    .map((session) => ({
+      session,
+      timestamp: new Date(session.createdAt).getTime(),
+    }))
+    .filter(({ timestamp }) => !isNaN(timestamp))
+    .sort(
+      (a, b) =>
+        a.timestamp - b.timestamp || (a.session.id ?? 0) - (b.session.id ?? 0),
+    );
+}
+
+/**
+ * Learn every context from scratch by replaying sessions oldest-first
+ * through the same logic as recordSession and recordBreakOutcome.
+ * Sessions that shouldn't be learned from keep their place in the
+ * timeline but teach nothing. Given only some sessions, just the contexts
+ * they fully cover come out right.
+ */
+function replaySessions(
+  ordered: { session: Omit<DBSession, "id">; timestamp: number }[],
+  decay: HistoryDecayConfig,
+): AdaptiveState {
+  const state: AdaptiveState = {};
+  for (let i = 0; i < ordered.length; i++) {
+    const { session, timestamp } = ordered[i];
+    const focusContext: Context = {
+      taskType: session.taskType,
+      energyLevel: session.energyLevel as EnergyLevel,
+    };
+
+    // The break before this session is judged by how this session went
+    const previous = ordered[i - 1]?.session;
+    const breakSample = previous ? getBreakSample(previous, session) : null;
+    if (previous && breakSample) {
+      const breakKey = createContextKey(toBreakContext({
+        taskType: previous.taskType,
+        energyLevel: previous.energyLevel as EnergyLevel,
+      }));
+      state[breakKey] = applySessionRecord(
+        state[breakKey] ?? { history: [], ewma: 0, completionRate: 0 },
+        breakSample,
+        decay,
+      );
+    }
+
+    if (!shouldLearnFocus(session)) continue;
+
+    const key = createContextKey(focusContext);
+    state[key] = applySessionRecord(
+      state[key] ?? { history: [], ewma: 0, completionRate: 0 },
+      {
+        duration: session.userSelectedDuration,
+        actualFocusTime: session.focusedUntilSkipped,
+        completed: session.sessionCompleted,
+        timestamp,
+      },
+      decay,
+    );
+  }
+  return state;
+}
+
+/**
+ * Recompute every context from the sessions table.
+ * Replaces whatever adaptive state was stored before; throws if the
+ * sessions can't be read or the new state can't be written.
+ */
+export async function rebuildAdaptiveState(
+  decay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
+): Promise<RebuildResult> {
+  const ordered = orderSessions(await getAllSessions());
+  const state = replaySessions(ordered, decay);
+
+  const { contexts, records } = toAdaptiveRows(state);
+  await replaceAdaptiveData(contexts, records);
+
+  console.log(
+    `[AdaptiveEngine] Rebuilt ${contexts.length} contexts from ${ordered.length} sessions`,
+  );
+  return { sessions: ordered.length, contexts: contexts.length };
+}
+
+/**
+ * Re-learn the contexts touched by editing or deleting sessions, after the
+ * change has been written to the sessions table. Pass each session as it
+ * was before and (for edits) after the change.
+ *
+ * Touched contexts are each version's focus and break context, plus the
+ * break context of the session just before it, whose rest was judged by
+ * the changed session. Only the sessions of those task and energy pairs
+ * (and the one after each) are read and replayed, so an edit costs the
+ * size of the contexts it touches rather than the whole history. Returns
+ * the re-learned context keys.
+ */
+export async function relearnChangedSessions(
+  changed: Omit<DBSession, "id">[],
+  decay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
+): Promise<string[]> {
+  const keyOf = (session: Pick<DBSession, "taskType" | "energyLevel">) => ({
+    taskType: session.taskType,
+    energyLevel: session.energyLevel as EnergyLevel,
+  });
+  const previous = await getContextsBefore(
+    changed.map((session) => session.createdAt),
+  );
+
+  const affected = new Set<string>();
+  const replayed = new Map<string, Context>();
+  for (const session of changed) {
+    affected.add(createContextKey(keyOf(session)));
+    affected.add(createContextKey(toBreakContext(keyOf(session))));
+    replayed.set(createContextKey(keyOf(session)), keyOf(session));
+  }
+  for (const session of previous) {
+    affected.add(createContextKey(toBreakContext(keyOf(session))));
+    replayed.set(createContextKey(keyOf(session)), keyOf(session));
+  }
+
+  // Other contexts' state in the replay is partial, and dropped below
+  const ordered = orderSessions(
+    await getReplaySessions(Array.from(replayed.values())),
+  );
+  const state = replaySessions(ordered, decay);
+
+  const keys = Array.from(affected);
+  const relearned: AdaptiveState = {};
+  for (const key of keys) {
+    if (state[key]) relearned[key] = state[key];
+  }
+  const { contexts, records } = toAdaptiveRows(relearned);
+  await replaceAdaptiveContexts(keys, contexts, records);
+
+  console.log(`[AdaptiveEngine] Re-learned ${keys.join(", ")} after session change`);
+  return keys;
+}
+
+// ============================================================================
+// COACH TUNING
+// ============================================================================
+
+/**
+ * Thresholds for the burnout protection rules. Each rule can be switched
+ * off independently; a disabled rule always returns 1.0x.
+ */
+export interface CoachConfig {
+  fatigue: {
+    enabled: boolean;
+    thresholdMinutes: number; // Daily focus before scaling starts
+    floorMinutes: number; // Daily focus at which the floor is reached
+    minMultiplier: number; // Floor multiplier
+  };
+  cooldown: {
+    enabled: boolean;
+    minMultiplier: number; // Multiplier for an instant restart
+  };
+  restDay: {
+    enabled: boolean;
+    days: number; // Days off before easing back in
+    multiplier: number;
+  };
+}
+
+export type CoachPreset = "gentle" | "default" | "aggressive";
+
+export type CoachRule = keyof CoachConfig;
+
+export type CoachRuleToggles = Record<CoachRule, boolean>;
+
+export const COACH_PRESETS: Record<CoachPreset, CoachConfig> = {
+  // Protects earlier and harder; for people prone to overdoing it
+  gentle: {
+    fatigue: { enabled: true, thresholdMinutes: 90, floorMinutes: 240, minMultiplier: 0.5 },
+    cooldown: { enabled: true, minMultiplier: 0.7 },
+    restDay: { enabled: true, days: 2, multiplier: 0.7 },
+  },
+  default: {
+    fatigue: { enabled: true, thresholdMinutes: 120, floorMinutes: 300, minMultiplier: 0.6 },
+    cooldown: { enabled: true, minMultiplier: 0.8 },
+    restDay: { enabled: true, days: 3, multiplier: 0.8 },
+  },
+  // Tolerates long days; for heavy but sustainable workloads
+  aggressive: {
+    fatigue: { enabled: true, thresholdMinutes: 180, floorMinutes: 420, minMultiplier: 0.8 },
+    cooldown: { enabled: true, minMultiplier: 0.9 },
+    restDay: { enabled: true, days: 5, multiplier: 0.9 },
+  },
+};
+
+export const DEFAULT_COACH_CONFIG = COACH_PRESETS.default;
+
+/**
+ * Combine a preset's thresholds with the user's per-rule switches.
+ */
+export function getCoachConfig(
+  preset: CoachPreset,
+  rules: CoachRuleToggles,
+): CoachConfig {
+  const base = COACH_PRESETS[preset] ?? DEFAULT_COACH_CONFIG;
+  return {
+    fatigue: { ...base.fatigue, enabled: rules.fatigue },
+    cooldown: { ...base.cooldown, enabled: rules.cooldown },
+    restDay: { ...base.restDay, enabled: rules.restDay },
+  };
 }
 
 // ============================================================================
@@ -132,36 +655,49 @@ export async function recordSession(
 
 /**
  * Calculate fatigue multiplier based on today's total focus minutes.
- * Starts dropping after 120 minutes. Floor at 0.6x.
- */
-export function getDailyFatigueMultiplier(todayTotalMinutes: number): number {
-  if (todayTotalMinutes <= 120) return 1.0;
-  // Linearly scale from 1.0 at 120m down to 0.6 at 300+m
-  const maxDrop = 0.4;
-  const minutesOverThreshold = Math.max(0, todayTotalMinutes - 120);
-  const drop = Math.min(maxDrop, (minutesOverThreshold / 180) * maxDrop);
+ * With the default config it starts dropping after 120 minutes and
+ * floors at 0.6x from 300 minutes.
+ */
+export function getDailyFatigueMultiplier(
+  todayTotalMinutes: number,
+  config: CoachConfig["fatigue"] = DEFAULT_COACH_CONFIG.fatigue,
+): number {
+  if (!config.enabled || todayTotalMinutes <= config.thresholdMinutes) return 1.0;
+  // Linearly scale from 1.0 at the threshold down to the floor
+  const maxDrop = 1.0 - config.minMultiplier;
+  const span = Math.max(1, config.floorMinutes - config.thresholdMinutes);
+  const minutesOverThreshold = Math.max(0, todayTotalMinutes - config.thresholdMinutes);
+  const drop = Math.min(maxDrop, (minutesOverThreshold / span) * maxDrop);
   return 1.0 - drop;
 }
 
 /**
  * Applies a penalty if the user starts a new session too soon after the last one.
  */
-export function getConsecutiveSessionPenalty(lastSessionEndTime: number, recommendedBreak: number): number {
-  if (!lastSessionEndTime) return 1.0;
+export function getConsecutiveSessionPenalty(
+  lastSessionEndTime: number,
+  recommendedBreak: number,
+  config: CoachConfig["cooldown"] = DEFAULT_COACH_CONFIG.cooldown,
+): number {
+  if (!config.enabled || !lastSessionEndTime) return 1.0;
   
   const minutesSinceLast = Math.max(0, (Date.now() - lastSessionEndTime) / 60000);
   if (minutesSinceLast >= recommendedBreak) return 1.0; // Rested enough
 
   // Penalty grows as the gap approaches 0
   const restRatio = minutesSinceLast / recommendedBreak;
-  return 0.8 + (0.2 * restRatio); // 0.8x if instant restart, up to 1.0x if taken full break
+  const maxPenalty = 1.0 - config.minMultiplier;
+  return config.minMultiplier + (maxPenalty * restRatio); // minMultiplier if instant restart, up to 1.0x if taken full break
 }
 
 /**
  * Ramp-up multiplier for returning users (days off rest).
  */
-export function getRestDayMultiplier(daysSinceLastSession: number): number {
-  if (daysSinceLastSession >= 3) return 0.8; // Ease back in after 3+ days off
+export function getRestDayMultiplier(
+  daysSinceLastSession: number,
+  config: CoachConfig["restDay"] = DEFAULT_COACH_CONFIG.restDay,
+): number {
+  if (config.enabled && daysSinceLastSession >= config.days) return config.multiplier; // Ease back in after days off
   return 1.0;
 }
 
@@ -184,13 +720,302 @@ export function getStretchNudge(stats: ContextStats): number {
   return 0;
 }
 
+/**
+ * Longest duration (floored to 5m) the user still reaches with
+ * SURVIVAL_TARGET_PROBABILITY, from the context's drop-off curve.
+ * Null until there are enough sessions and at least one drop-out.
+ */
+export function getSurvivalCap(stats: ContextStats): number | null {
+  if (stats.history.length < MIN_SURVIVAL_SAMPLES) return null;
+
+  const curve = estimateSurvivalCurve(stats.history.map(toSurvivalObservation));
+  const longest = getLongestDurationAtProbability(curve, SURVIVAL_TARGET_PROBABILITY);
+  if (longest === null) return null;
+
+  return Math.max(5, Math.floor(longest / 5) * 5);
+}
+
+// ============================================================================
+// CONFIDENCE
+// ============================================================================
+
+/**
+ * How much to trust a context's EWMA, from 0 (no idea) to 1 (fully trusted).
+ * The product of three factors:
+ * - size: grows linearly until CONFIDENCE_FULL_HISTORY sessions
+ * - consistency: 1 - coefficient of variation of the session lengths
+ * - recency: halves every CONFIDENCE_HALF_LIFE_DAYS since the last session
+ */
+export function getContextConfidence(
+  stats: ContextStats | undefined,
+  now: number = Date.now(),
+): number {
+  if (!stats || stats.history.length === 0 || stats.ewma <= 0) return 0;
+
+  const size = Math.min(1, stats.history.length / CONFIDENCE_FULL_HISTORY);
+
+  // Failed sessions count for as long as they actually lasted
+  const lengths = stats.history.map(s => s.completed ? s.duration : s.actualFocusTime);
+  const mean = lengths.reduce((a, b) => a + b, 0) / lengths.length;
+  const variance = lengths.reduce((acc, v) => acc + (v - mean) ** 2, 0) / lengths.length;
+  const consistency = mean > 0 ? Math.max(0, 1 - Math.sqrt(variance) / mean) : 0;
+
+  const last = stats.history[stats.history.length - 1];
+  const daysSinceLast = Math.max(0, (now - last.timestamp) / MS_PER_DAY);
+  const recency = Math.pow(0.5, daysSinceLast / CONFIDENCE_HALF_LIFE_DAYS);
+
+  return size * consistency * recency;
+}
+
+// ============================================================================
+// TRANSFER LEARNING
+// ============================================================================
+
+/**
+ * Starting point for a context, before its own EWMA is blended in.
+ * Borrowed from sibling contexts when the user has history there,
+ * otherwise the static heuristic.
+ */
+export interface ContextPrior {
+  value: number;
+  source: "heuristic" | "transferred";
+  confidence: number; // Strongest sibling's confidence (0 for heuristic)
+  siblings: string[]; // Context keys that contributed
+}
+
+function isBreakContextKey(key: string): boolean {
+  return parseKey(key).taskType.endsWith(BREAK_CONTEXT_SUFFIX);
+}
+
+/**
+ * How focus length scales between two energy levels for this user:
+ * the mean EWMA ratio over tasks learned at both levels, falling back to
+ * the ratio between the heuristic defaults.
+ */
+async function getEnergyRatio(
+  state: AdaptiveState,
+  from: EnergyLevel,
+  to: EnergyLevel,
+): Promise<number> {
+  const ratios: number[] = [];
+  for (const [key, stats] of Object.entries(state)) {
+    const { taskType, energyLevel } = parseKey(key);
+    if (energyLevel !== from || isBreakContextKey(key)) continue;
+
+    const target = state[createContextKey({ taskType, energyLevel: to })];
+    if (stats.ewma > 0 && target && target.ewma > 0) {
+      ratios.push(target.ewma / stats.ewma);
+    }
+  }
+  if (ratios.length > 0) {
+    return ratios.reduce((a, b) => a + b, 0) / ratios.length;
+  }
+
+  const [fromHeuristic, toHeuristic] = await Promise.all([
+    getRecommendations(from),
+    getRecommendations(to),
+  ]);
+  return toHeuristic.focusDuration / fromHeuristic.focusDuration;
+}
+
+/**
+ * Fallback chain for cold-start contexts. Borrows from:
+ * 1. the same energy level on other tasks
+ * 2. the same task at other energy levels, scaled by the energy ratio
+ * Siblings are averaged by their confidence, and the result is blended
+ * with the heuristic by the strongest sibling's confidence. With no
+ * sibling history this is just the heuristic.
+ */
+export async function getContextPrior(
+  context: Context,
+  heuristicRecommendation: number,
+  state?: AdaptiveState,
+  now: number = Date.now(),
+): Promise<ContextPrior> {
+  const allStats = state ?? (await loadPriorState(context));
+  const ownKey = createContextKey(context);
+  const evidence: { key: string; value: number; weight: number }[] = [];
+
+  for (const [key, stats] of Object.entries(allStats)) {
+    if (key === ownKey || isBreakContextKey(key)) continue;
+    const weight = getContextConfidence(stats, now);
+    if (weight <= 0) continue;
+
+    const { taskType, energyLevel } = parseKey(key);
+    if (energyLevel === context.energyLevel) {
+      evidence.push({ key, value: stats.ewma, weight });
+    } else if (taskType === context.taskType) {
+      const ratio = await getEnergyRatio(allStats, energyLevel, context.energyLevel);
+      evidence.push({ key, value: stats.ewma * ratio, weight });
+    }
+  }
+
+  if (evidence.length === 0) {
+    return { value: heuristicRecommendation, source: "heuristic", confidence: 0, siblings: [] };
+  }
+
+  const totalWeight = evidence.reduce((acc, e) => acc + e.weight, 0);
+  const siblingValue = evidence.reduce((acc, e) => acc + e.value * e.weight, 0) / totalWeight;
+  const confidence = Math.max(...evidence.map(e => e.weight));
+
+  return {
+    value: (confidence * siblingValue) + ((1 - confidence) * heuristicRecommendation),
+    source: "transferred",
+    confidence,
+    siblings: evidence.map(e => e.key),
+  };
+}
+
+// ============================================================================
+// TIME-OF-DAY SPLIT
+// ============================================================================
+
+/**
+ * Period of the day for a timestamp, matching the timeOfDay column stored
+ * with each session.
+ */
+export function getTimeOfDay(date: Date = new Date()): TimeOfDay {
+  const hour = date.getHours();
+  if (hour < 12) return "morning";
+  if (hour < 17) return "afternoon";
+  return "evening";
+}
+
+function getSessionTimeOfDay(
+  session: Pick<DBSession, "timeOfDay" | "createdAt">,
+): TimeOfDay {
+  if (
+    session.timeOfDay === "morning" ||
+    session.timeOfDay === "afternoon" ||
+    session.timeOfDay === "evening"
+  ) {
+    return session.timeOfDay;
+  }
+  return getTimeOfDay(new Date(session.createdAt));
+}
+
+/**
+ * Welch's t statistic for the difference in means of two samples.
+ * Infinite (signed) when both samples are constant but differ.
+ */
+export function getWelchT(a: number[], b: number[]): number {
+  const mean = (xs: number[]) => xs.reduce((acc, x) => acc + x, 0) / xs.length;
+  const variance = (xs: number[], m: number) =>
+    xs.reduce((acc, x) => acc + (x - m) ** 2, 0) / (xs.length - 1);
+
+  const meanA = mean(a);
+  const meanB = mean(b);
+  const standardError = Math.sqrt(
+    variance(a, meanA) / a.length + variance(b, meanB) / b.length,
+  );
+  if (standardError === 0) return meanA === meanB ? 0 : Math.sign(meanA - meanB) * Infinity;
+  return (meanA - meanB) / standardError;
+}
+
+export interface TimeOfDaySplit {
+  timeOfDay: TimeOfDay;
+  stats: ContextStats; // Learned from this period's sessions only
+  t: number; // Welch's t of this period vs the rest of the context
+}
+
+/**
+ * Stats for `context` learned from its `context.timeOfDay` sessions alone,
+ * or null if the split isn't warranted: too few sessions on either side,
+ * or session lengths in the period aren't significantly different from
+ * the rest of the day.
+ */
+export async function getTimeOfDaySplit(
+  context: Context,
+  decay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
+): Promise<TimeOfDaySplit | null> {
+  if (!context.timeOfDay) return null;
+
+  const inPeriod: SessionRecord[] = [];
+  const outside: SessionRecord[] = [];
+  try {
+    const sessions = await getFocusSamples(context.taskType, context.energyLevel);
+    for (const session of sessions) {
+      if (!shouldLearnFocus(session)) continue;
+
+      const timestamp = new Date(session.createdAt).getTime();
+      if (isNaN(timestamp)) continue;
+
+      const record: SessionRecord = {
+        duration: session.userSelectedDuration,
+        actualFocusTime: session.focusedUntilSkipped,
+        completed: session.sessionCompleted,
+        timestamp,
+      };
+      (getSessionTimeOfDay(session) === context.timeOfDay ? inPeriod : outside).push(record);
+    }
+  } catch (error) {
+    console.error("[AdaptiveEngine] Failed to load sessions for time-of-day split", error);
+    return null;
+  }
+
+  if (inPeriod.length < MIN_PERIOD_SESSIONS || outside.length < MIN_PERIOD_SESSIONS) {
+    return null;
+  }
+
+  // Failed sessions count for as long as they actually lasted
+  const lengths = (records: SessionRecord[]) =>
+    records.map(s => s.completed ? s.duration : s.actualFocusTime);
+  const t = getWelchT(lengths(inPeriod), lengths(outside));
+  if (Math.abs(t) < PERIOD_SPLIT_T) return null;
+
+  let stats: ContextStats = { history: [], ewma: 0, completionRate: 0 };
+  for (const record of inPeriod.sort((a, b) => a.timestamp - b.timestamp)) {
+    stats = applySessionRecord(stats, record, decay);
+  }
+  return { timeOfDay: context.timeOfDay, stats, t };
+}
+
 // ============================================================================
 // RECOMMENDATION API
 // ============================================================================
 
+/**
+ * Step-by-step breakdown of how a recommendation was reached, so the UI can
+ * explain the number instead of presenting it as a black box.
+ */
+export interface RecommendationTrace {
+  heuristic: number; // Rule-based starting point
+  prior: number; // Heuristic, or borrowed from sibling contexts
+  priorSource: ContextPrior["source"];
+  priorSiblings: string[];
+  baseline: number; // Prior/EWMA blend, before adjustments
+  baselineSource: "heuristic" | "transferred" | "blended" | "learned";
+  confidence: number; // Weight given to the EWMA in the blend (0-1)
+  ewma: number | null; // Learned EWMA, if the context has any
+  historySize: number; // Sessions in this context's window
+  timeOfDay: TimeOfDay | null; // Period the history was split on, if any
+  completionRate: number | null;
+  stretchNudge: number; // Minutes added for plateauing
+  survivalCap: number | null; // Longest duration reached with the target probability
+  multipliers: {
+    fatigue: number;
+    cooldown: number;
+    rest: number;
+    aggregate: number;
+  };
+  adjusted: number; // After nudge and multipliers, before rounding
+  rounded: number;
+  cap: number; // Upper clamp (30 in ADHD mode, 120 otherwise)
+  final: number;
+}
+
 export interface RecommendationResult {
   value: number;
-  source: "heuristic" | "learned" | "fatigue-adjusted" | "stretch";
+  source:
+    | "heuristic"
+    | "transferred"
+    | "blended"
+    | "learned"
+    | "stretch"
+    | "survival-capped"
+    | "fatigue-adjusted";
+  confidence: number; // Below CONFIDENT_THRESHOLD the coach is still learning
+  trace: RecommendationTrace;
 }
 
 export async function getRecommendation(
@@ -199,32 +1024,51 @@ export async function getRecommendation(
   todayTotalMinutes: number = 0,
   lastSessionEndTime: number = 0,
   daysSinceLastSession: number = 0,
-  includeShortSessions: boolean = false
+  includeShortSessions: boolean = false,
+  coachConfig: CoachConfig = DEFAULT_COACH_CONFIG,
+  decay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY
 ): Promise<RecommendationResult> {
-  const state = await loadAdaptiveState();
   const key = createContextKey(context);
-  const stats = state[key];
+
+  // 0. TIME-OF-DAY SPLIT (opt-in): use this period's history if it clearly differs
+  const split = await getTimeOfDaySplit(context, decay);
+  const stats = split ? split.stats : await loadContextStats(key);
 
   console.log(`\n=== Adaptive Recommendation ===`);
   console.log(`Context: ${key} | Heuristic: ${heuristicRecommendation}m`);
+  if (split) {
+    console.log(`[AdaptiveEngine] Split on ${split.timeOfDay}: ${split.stats.history.length} sessions, t=${split.t.toFixed(2)}`);
+  }
 
-  // 1. BASELINE: Heuristic or Learned
-  let baseValue = heuristicRecommendation;
-  let source: RecommendationResult["source"] = "heuristic";
-
+  // 1. BASELINE: Prior (heuristic or sibling contexts) blended with Learned, weighted by confidence
   const hasEnoughHistory = stats && stats.history.length >= 2;
+  const confidence = getContextConfidence(stats);
+
+  const prior: ContextPrior = confidence < 1
+    ? await getContextPrior(context, heuristicRecommendation)
+    : { value: heuristicRecommendation, source: "heuristic", confidence: 0, siblings: [] };
+  if (prior.source === "transferred") {
+    console.log(`[AdaptiveEngine] Prior: ${prior.value.toFixed(1)}m borrowed from ${prior.siblings.join(", ")}`);
+  }
+
+  let baseValue = prior.value;
+  let source: RecommendationResult["source"] = prior.source;
   
-  if (hasEnoughHistory && stats.ewma > 0) {
-    baseValue = stats.ewma;
-    source = "learned";
-    console.log(`[AdaptiveEngine] Baseline: Learned EWMA (${baseValue.toFixed(1)}m)`);
+  if (stats && confidence > 0) {
+    baseValue = (confidence * stats.ewma) + ((1 - confidence) * prior.value);
+    source = confidence >= CONFIDENT_THRESHOLD ? "learned" : "blended";
+    console.log(`[AdaptiveEngine] Baseline: ${(confidence*100).toFixed(0)}% EWMA (${stats.ewma.toFixed(1)}m) + ${((1-confidence)*100).toFixed(0)}% Prior = ${baseValue.toFixed(1)}m`);
   } else {
-    console.log(`[AdaptiveEngine] Baseline: Heuristic (${baseValue.toFixed(1)}m) - Not enough history or no EWMA`);
+    console.log(`[AdaptiveEngine] Baseline: Prior (${baseValue.toFixed(1)}m) - No history or no EWMA`);
   }
 
+  const baseline = baseValue;
+  const baselineSource = source as RecommendationTrace["baselineSource"];
+
   // 2. STRETCH NUDGE
+  let nudge = 0;
   if (hasEnoughHistory) {
-    const nudge = getStretchNudge(stats);
+    nudge = getStretchNudge(stats);
     if (nudge > 0) {
       baseValue += nudge;
       source = "stretch";
@@ -232,10 +1076,19 @@ export async function getRecommendation(
     }
   }
 
-  // 3. BURNOUT PROTECTION (Fatigue, Cooldown, Ramp-up)
-  const fatigueMult = getDailyFatigueMultiplier(todayTotalMinutes);
-  const cooldownMult = getConsecutiveSessionPenalty(lastSessionEndTime, Math.max(5, baseValue / 3));
-  const restMult = getRestDayMultiplier(daysSinceLastSession);
+  // 3. SURVIVAL CAP
+  // Don't recommend past the point where they usually drop off
+  const survivalCap = stats ? getSurvivalCap(stats) : null;
+  if (survivalCap !== null && baseValue > survivalCap) {
+    console.log(`[AdaptiveEngine] Survival cap: ${baseValue.toFixed(1)}m -> ${survivalCap}m (P(still focusing) >= ${SURVIVAL_TARGET_PROBABILITY})`);
+    baseValue = survivalCap;
+    source = "survival-capped";
+  }
+
+  // 4. BURNOUT PROTECTION (Fatigue, Cooldown, Ramp-up)
+  const fatigueMult = getDailyFatigueMultiplier(todayTotalMinutes, coachConfig.fatigue);
+  const cooldownMult = getConsecutiveSessionPenalty(lastSessionEndTime, Math.max(5, baseValue / 3), coachConfig.cooldown);
+  const restMult = getRestDayMultiplier(daysSinceLastSession, coachConfig.restDay);
 
   const aggregateMultiplier = fatigueMult * cooldownMult * restMult;
   
@@ -248,15 +1101,44 @@ export async function getRecommendation(
     console.log(`[AdaptiveEngine] Protection triggered: ${original.toFixed(1)}m * ${(aggregateMultiplier).toFixed(2)}x (aggregate) = ${baseValue.toFixed(1)}m`);
   }
 
-  // 4. CLAMP AND ROUND
+  // 5. CLAMP AND ROUND
   // Cap between 5m and 120m, round to 5s. If ADHD mode, cap at 30m.
-  let finalValue = roundToNearest5(baseValue);
+  const rounded = roundToNearest5(baseValue);
   const maxCap = includeShortSessions ? 30 : 120;
-  finalValue = Math.max(5, Math.min(maxCap, finalValue));
+  const finalValue = Math.max(5, Math.min(maxCap, rounded));
 
-  console.log(`[AdaptiveEngine] Rounding & Clamping -> Rounded: ${roundToNearest5(baseValue)}m, ADHD Mode: ${includeShortSessions}, Cap: ${maxCap}m`);
+  console.log(`[AdaptiveEngine] Rounding & Clamping -> Rounded: ${rounded}m, ADHD Mode: ${includeShortSessions}, Cap: ${maxCap}m`);
   console.log(`Result: ${finalValue}m (${source})\n`);
-  return { value: finalValue, source };
+  return {
+    value: finalValue,
+    source,
+    confidence,
+    trace: {
+      heuristic: heuristicRecommendation,
+      prior: prior.value,
+      priorSource: prior.source,
+      priorSiblings: prior.siblings,
+      baseline,
+      baselineSource,
+      confidence,
+      ewma: stats && stats.ewma > 0 ? stats.ewma : null,
+      historySize: stats?.history.length ?? 0,
+      timeOfDay: split ? split.timeOfDay : null,
+      completionRate: stats?.history.length ? stats.completionRate : null,
+      stretchNudge: nudge,
+      survivalCap,
+      multipliers: {
+        fatigue: fatigueMult,
+        cooldown: cooldownMult,
+        rest: restMult,
+        aggregate: aggregateMultiplier,
+      },
+      adjusted: baseValue,
+      rounded,
+      cap: maxCap,
+      final: finalValue,
+    },
+  };
 }
 
 export function getBreakRecommendation(focusDuration: number): number {
@@ -264,6 +1146,121 @@ export function getBreakRecommendation(focusDuration: number): number {
   return Math.max(5, roundToNearest5(focusDuration / 3));
 }
 
+// ============================================================================
+// BREAK LEARNING
+// ============================================================================
+
+/**
+ * The break context that follows focus sessions in `context`.
+ */
+export function toBreakContext(context: Context): Context {
+  return {
+    taskType: `${context.taskType}${BREAK_CONTEXT_SUFFIX}`,
+    energyLevel: context.energyLevel,
+  };
+}
+
+/**
+ * Judge the rest taken after `previous` by how `next` went.
+ * The rest is the chosen break (0 if skipped) plus any idle time before
+ * `next` started; it counts as a success if `next` reached the end of its
+ * focus block. Returns null if `previous` had no break to learn from or
+ * the gap was long enough that they'd simply stopped for the day.
+ */
+export function getBreakSample(
+  previous: Omit<DBSession, "id">,
+  next: Omit<DBSession, "id">,
+): SessionRecord | null {
+  // Logged-after-the-fact sessions have no timed break or reliable start
+  if (previous.isManual || next.isManual) return null;
+
+  // An abandoned, heavily interrupted session doesn't reflect the rest before it
+  if (!next.sessionCompleted && isHeavilyInterrupted(next)) return null;
+
+  const tookBreakDecision =
+    previous.sessionCompleted || previous.skipReason === "skippedBreak";
+  if (!tookBreakDecision) return null;
+
+  // Sessions are saved at the end of their break (or the skip)
+  const previousEnd = new Date(previous.createdAt).getTime();
+  const nextBreak = next.sessionCompleted ? next.userSelectedBreak : 0;
+  const nextStart =
+    new Date(next.createdAt).getTime() -
+    (next.focusedUntilSkipped + nextBreak) * 60000 -
+    (next.pausedSeconds ?? 0) * 1000;
+  if (isNaN(previousEnd) || isNaN(nextStart)) return null;
+
+  const idleMinutes = Math.max(0, (nextStart - previousEnd) / 60000);
+  if (idleMinutes > BREAK_IDLE_LIMIT_MINUTES) return null;
+
+  const breakTaken = previous.sessionCompleted ? previous.userSelectedBreak : 0;
+  const rest = Math.round(breakTaken + idleMinutes);
+  return {
+    duration: rest,
+    actualFocusTime: rest,
+    completed: next.sessionCompleted || next.skipReason === "skippedBreak",
+    timestamp: nextStart,
+  };
+}
+
+/**
+ * Learn from the break between the most recent stored session and `next`,
+ * which is about to be saved. Call before inserting `next`.
+ */
+export async function recordBreakOutcome(
+  next: Omit<DBSession, "id">,
+  decay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
+): Promise<void> {
+  try {
+    const previous = await getLatestSession();
+    const sample = previous ? getBreakSample(previous, next) : null;
+    if (!previous || !sample) return;
+
+    const key = createContextKey(toBreakContext({
+      taskType: previous.taskType,
+      energyLevel: previous.energyLevel as EnergyLevel,
+    }));
+    const stats = applySessionRecord(
+      (await loadContextStats(key)) ?? { history: [], ewma: 0, completionRate: 0 },
+      sample,
+      decay,
+    );
+
+    console.log(`[AdaptiveEngine] Break ${key}: rested ${sample.duration}m, next ${sample.completed ? "succeeded" : "failed"} -> EWMA=${stats.ewma.toFixed(1)}`);
+
+    await saveAdaptiveRecord(
+      toContextRow(key, stats),
+      { ...sample, contextKey: key },
+      sample.timestamp - decay.maxAgeDays * MS_PER_DAY,
+    );
+  } catch (error) {
+    console.error("[AdaptiveEngine] Failed to record break", error);
+  }
+}
+
+/**
+ * Break length for a focus block in `context`: the focus ÷ 3 heuristic,
+ * blended towards the learned rest that precedes successful sessions as
+ * the break context gains confidence.
+ */
+export async function getAdaptiveBreakRecommendation(
+  context: Context,
+  focusDuration: number,
+  includeShortSessions: boolean = false,
+): Promise<number> {
+  const heuristic = getBreakRecommendation(focusDuration);
+  const stats = await loadContextStats(createContextKey(toBreakContext(context)));
+  const confidence = getContextConfidence(stats);
+  if (!stats || confidence <= 0) return heuristic;
+
+  const blended = (confidence * stats.ewma) + ((1 - confidence) * heuristic);
+  const maxBreak = includeShortSessions ? 5 : MAX_BREAK_MINUTES;
+  const result = Math.max(5, Math.min(maxBreak, roundToNearest5(blended)));
+
+  console.log(`[AdaptiveEngine] Break: ${(confidence*100).toFixed(0)}% learned (${stats.ewma.toFixed(1)}m) + heuristic ${heuristic}m -> ${result}m`);
+  return result;
+}
+
 // ============================================================================
 // EXPORT / IMPORT
 // ============================================================================
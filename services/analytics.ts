@@ -0,0 +1,290 @@
+/**
+ * Analytics Service
+ *
+ * Aggregates for the Performance tab and goals, computed in SQLite with
+ * GROUP BY queries instead of walking the whole session history in JS on
+ * every render (the store only holds the most recent sessions). Results have the same shapes as the in-memory helpers in
+ * utils/performanceUtils.ts, so screens can switch between them freely.
+ */
+import { GOAL_SUGGESTION_LOOKBACK } from "@/constants/timer";
+import { EnergyLevel } from "@/types";
+import { GoalPeriod, stretchGoal } from "@/utils/goals";
+import {
+  calculateStreakFromDays,
+  InsightData,
+  summarizeInsights,
+} from "@/utils/insightEngine";
+import {
+  AdaptiveChartData,
+  ChartRange,
+  formatChartDateRange,
+  getAdaptiveChartBucket,
+  getAdaptiveChartLabels,
+  getPeriodDates,
+  PeriodMetrics,
+  SurvivalChartLine,
+  toSurvivalChartData,
+} from "@/utils/performanceUtils";
+import {
+  AggregateFilter,
+  DBFocusSample,
+  getFocusSamples,
+  getSessionAggregates,
+  SessionAggregate,
+} from "./database";
+
+export interface AnalyticsOptions {
+  includeManual: boolean; // Count sessions logged after the fact
+}
+
+export interface BreakdownEntry<K extends string = string> {
+  key: K;
+  sessions: number;
+  completedSessions: number;
+  focusTime: number;
+  completionRate: number; // 0-100
+}
+
+const toFilter = (
+  startDate: Date | undefined,
+  endDate: Date | undefined,
+  options: AnalyticsOptions,
+): AggregateFilter => ({
+  start: startDate?.toISOString(),
+  end: endDate?.toISOString(),
+  includeManual: options.includeManual,
+});
+
+const completionRate = (aggregate: SessionAggregate): number =>
+  aggregate.sessions > 0
+    ? (aggregate.completedSessions / aggregate.sessions) * 100
+    : 0;
+
+// ============================================================================
+// PERIOD VIEWS
+// ============================================================================
+
+/**
+ * Adaptive Bar Chart data for a period; see getAdaptiveChartData.
+ */
+export const loadAdaptiveChartData = async (
+  timeRange: ChartRange,
+  offset: number,
+  options: AnalyticsOptions,
+): Promise<AdaptiveChartData> => {
+  const { startDate, endDate } = getPeriodDates(timeRange, offset);
+  const labels = getAdaptiveChartLabels(timeRange, startDate, endDate);
+  const values: number[] = new Array(labels.length).fill(0);
+
+  const grouping =
+    timeRange === "day" ? "hour" : timeRange === "year" ? "month" : "day";
+  const buckets = await getSessionAggregates(
+    grouping,
+    toFilter(startDate, endDate, options),
+  );
+
+  buckets.forEach(({ key, focusTime }) => {
+    let index: number;
+    if (grouping === "hour") {
+      index = Number(key);
+    } else if (grouping === "month") {
+      index = Number(key) - 1;
+    } else {
+      const [year, month, day] = key.split("-").map(Number);
+      index = getAdaptiveChartBucket(
+        timeRange,
+        startDate,
+        new Date(year, month - 1, day),
+      );
+    }
+    if (index >= 0 && index < values.length) values[index] += focusTime;
+  });
+
+  return {
+    labels,
+    values,
+    maxValue: Math.max(...values, 1),
+    dateRange: formatChartDateRange(timeRange, startDate, endDate, offset),
+  };
+};
+
+/**
+ * Totals for a period; see calculatePeriodMetrics.
+ */
+export const loadPeriodMetrics = async (
+  timeRange: ChartRange,
+  offset: number,
+  options: AnalyticsOptions,
+): Promise<PeriodMetrics> => {
+  const { startDate, endDate } = getPeriodDates(timeRange, offset);
+  const [total] = await getSessionAggregates(
+    "all",
+    toFilter(startDate, endDate, options),
+  );
+  if (!total) return { totalFocusTime: 0, sessionCount: 0, completionRate: 0 };
+
+  return {
+    totalFocusTime: total.focusTime,
+    sessionCount: total.sessions,
+    completionRate: completionRate(total),
+  };
+};
+
+/**
+ * Minutes per UTC day over the last `daysCount` days; see getHeatmapData.
+ */
+export const loadHeatmapData = async (
+  options: AnalyticsOptions,
+  daysCount: number = 100,
+): Promise<{ data: Record<string, number>; maxMinutes: number }> => {
+  const endDate = new Date();
+  const startDate = new Date(endDate);
+  startDate.setDate(startDate.getDate() - daysCount);
+
+  const buckets = await getSessionAggregates(
+    "utcDay",
+    toFilter(startDate, endDate, options),
+  );
+
+  const data: Record<string, number> = {};
+  let maxMinutes = 0;
+  buckets.forEach(({ key, focusTime }) => {
+    data[key] = focusTime;
+    maxMinutes = Math.max(maxMinutes, focusTime);
+  });
+
+  return { data, maxMinutes };
+};
+
+// ============================================================================
+// BREAKDOWNS
+// ============================================================================
+
+const loadBreakdown = async <K extends string>(
+  grouping: "taskType" | "energyLevel",
+  startDate: Date | undefined,
+  endDate: Date | undefined,
+  options: AnalyticsOptions,
+): Promise<BreakdownEntry<K>[]> => {
+  const buckets = await getSessionAggregates(
+    grouping,
+    toFilter(startDate, endDate, options),
+  );
+  return buckets
+    .map((bucket) => ({
+      ...bucket,
+      key: bucket.key as K,
+      completionRate: completionRate(bucket),
+    }))
+    .sort((a, b) => b.focusTime - a.focusTime);
+};
+
+/**
+ * Per-task totals, most focus time first. Omit the dates for all time.
+ */
+export const loadTaskBreakdown = (
+  options: AnalyticsOptions,
+  startDate?: Date,
+  endDate?: Date,
+): Promise<BreakdownEntry[]> =>
+  loadBreakdown("taskType", startDate, endDate, options);
+
+/**
+ * Per-mood totals, most focus time first. Omit the dates for all time.
+ */
+export const loadMoodBreakdown = (
+  options: AnalyticsOptions,
+  startDate?: Date,
+  endDate?: Date,
+): Promise<BreakdownEntry<EnergyLevel>[]> =>
+  loadBreakdown<EnergyLevel>("energyLevel", startDate, endDate, options);
+
+// ============================================================================
+// GOALS & INSIGHTS
+// ============================================================================
+
+const allTime = (options: AnalyticsOptions) =>
+  toFilter(undefined, undefined, options);
+
+/**
+ * Current and best daily streaks over all history; see calculateStreak.
+ */
+export const loadStreak = async (
+  dailyGoal: number,
+  options: AnalyticsOptions,
+): Promise<InsightData["streak"]> =>
+  calculateStreakFromDays(
+    await getSessionAggregates("day", allTime(options)),
+    dailyGoal,
+  );
+
+/**
+ * Smart insights over all history; see generateInsights.
+ */
+export const loadInsights = async (
+  dailyGoal: number,
+  options: AnalyticsOptions,
+): Promise<InsightData> => {
+  const [taskEnergy, hour, taskDuration, day] = await Promise.all([
+    getSessionAggregates("taskEnergy", allTime(options)),
+    getSessionAggregates("hour", allTime(options)),
+    getSessionAggregates("taskDuration", allTime(options)),
+    getSessionAggregates("day", allTime(options)),
+  ]);
+  return summarizeInsights({ taskEnergy, hour, taskDuration, day }, dailyGoal);
+};
+
+/**
+ * Suggested goal for a period, overall or for one task; see suggestGoal.
+ */
+export const loadGoalSuggestion = async (
+  period: GoalPeriod,
+  options: AnalyticsOptions,
+  taskType?: string,
+): Promise<number> => {
+  const totals = await Promise.all(
+    Array.from({ length: GOAL_SUGGESTION_LOOKBACK[period] }, (_, i) => {
+      const { startDate, endDate } = getPeriodDates(period, i + 1);
+      return getSessionAggregates("all", {
+        ...toFilter(startDate, endDate, options),
+        taskType,
+      });
+    }),
+  );
+  // Periods without sessions have no row: rest days don't count
+  return stretchGoal(totals.flatMap(([total]) => (total ? [total.focusTime] : [])));
+};
+
+// ============================================================================
+// DROP-OFF CURVES
+// ============================================================================
+
+/**
+ * Tasks that have sessions, most used first; see getSurvivalTasks.
+ */
+export const loadSurvivalTasks = async (
+  options: AnalyticsOptions,
+): Promise<string[]> => {
+  const buckets = await getSessionAggregates("taskType", allTime(options));
+  return buckets
+    .filter((bucket) => bucket.key)
+    .sort((a, b) => b.sessions - a.sessions)
+    .map((bucket) => bucket.key);
+};
+
+/**
+ * Drop-off curves for one task over all history; see getSurvivalChartData.
+ */
+export const loadSurvivalChartData = async (
+  taskType: string,
+  options: AnalyticsOptions,
+): Promise<{ lines: SurvivalChartLine[]; maxMinute: number }> => {
+  const counted = (samples: DBFocusSample[]) =>
+    options.includeManual ? samples : samples.filter((s) => !s.isManual);
+  const [low, mid, high] = await Promise.all(
+    (["low", "mid", "high"] as const).map((energyLevel) =>
+      getFocusSamples(taskType, energyLevel).then(counted),
+    ),
+  );
+  return toSurvivalChartData({ low, mid, high });
+};
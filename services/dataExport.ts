@@ -10,7 +10,13 @@ import {
     getAllSessions,
     insertSession,
 } from "@/services/database";
-import { exportAdaptiveState, importAdaptiveState } from "@/services/adaptiveEngine";
+import {
+    DEFAULT_HISTORY_DECAY,
+    exportAdaptiveState,
+    HistoryDecayConfig,
+    importAdaptiveState,
+    rebuildAdaptiveState,
+} from "@/services/adaptiveEngine";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as DocumentPicker from "expo-document-picker";
 import * as FileSystem from "expo-file-system/legacy";
@@ -167,6 +173,7 @@ export const pickAndParseZip = async (): Promise<ParsedImportData | null> => {
 export const performImport = async (
   data: ParsedImportData,
   selection: ImportSelection,
+  decay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
 ): Promise<void> => {
   try {
     // 1. Import Sessions
@@ -190,6 +197,9 @@ export const performImport = async (
     // 2. Import Adaptive State
     if (selection.adaptiveState && data.adaptiveState) {
       await importAdaptiveState(data.adaptiveState);
+    } else if (selection.sessions && data.sessions.length > 0) {
+      // Sessions came in without a matching model: relearn from them
+      await rebuildAdaptiveState(decay);
     }
 
     // 3. Import Settings
@@ -1,10 +1,12 @@
 /**
  * Database Service
  *
- * Handles all SQLite database operations for focus sessions, including
- * migrations, insertions, and queries for history and analytics.
+ * Handles all SQLite database operations for focus sessions and the
+ * adaptive engine's learned state, including migrations, insertions,
+ * and queries for history and analytics.
  */
 import * as SQLite from "expo-sqlite";
+import { runMigrations } from "./migrations";
 
 export interface DBSession {
   id?: number;
@@ -23,6 +25,44 @@ export interface DBSession {
   createdAt: string;
   skipReason?: "skippedFocus" | "skippedBreak" | "none";
   note?: string;
+  deletedAt?: string | null; // Set while the session sits in the trash
+  isManual?: boolean; // Logged after the fact rather than timed in the app
+  excludeFromLearning?: boolean; // Kept out of the adaptive engine's history
+  pauseCount?: number; // Times the focus timer was paused
+  pausedSeconds?: number; // Total time the focus timer sat paused
+}
+
+export interface DBSessionEvent {
+  id?: number;
+  sessionId: number;
+  type: string; // start | pause | resume | skip | complete
+  timestamp: string;
+}
+
+/**
+ * One learned context (taskType|energyLevel) of the adaptive engine.
+ * taskType and energyLevel are stored alongside the key so rows can be
+ * joined against the sessions table.
+ */
+export interface DBAdaptiveContext {
+  contextKey: string;
+  taskType: string;
+  energyLevel: string;
+  ewma: number;
+  completionRate: number;
+  updatedAt: number;
+}
+
+/**
+ * A single session record in an adaptive context's history window.
+ */
+export interface DBAdaptiveRecord {
+  id?: number;
+  contextKey: string;
+  duration: number;
+  actualFocusTime: number;
+  completed: boolean;
+  timestamp: number;
 }
 
 const db = SQLite.openDatabaseSync("kairos_timer.db");
@@ -36,36 +76,11 @@ export const initDatabase = async (): Promise<void> => {
 
   initPromise = (async () => {
     try {
-      await db.execAsync(`
-        CREATE TABLE IF NOT EXISTS sessions (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          taskType TEXT NOT NULL,
-          energyLevel TEXT NOT NULL,
-          timeOfDay TEXT NOT NULL,
-          recommendedDuration INTEGER NOT NULL,
-          recommendedBreak INTEGER NOT NULL,
-          userSelectedDuration INTEGER NOT NULL,
-          userSelectedBreak INTEGER NOT NULL,
-          acceptedRecommendation INTEGER NOT NULL,
-          sessionCompleted INTEGER NOT NULL,
-          focusedUntilSkipped INTEGER NOT NULL,
-          reward REAL NOT NULL,
-          date TEXT NOT NULL,
-          createdAt TEXT NOT NULL,
-          skipReason TEXT DEFAULT 'none'
-        )
-      `);
-
-      // Migration: Add note column if it doesn't exist
-      try {
-        await db.execAsync(`ALTER TABLE sessions ADD COLUMN note TEXT`);
-      } catch (e) {
-        // Column likely already exists, ignore
-      }
-
+      await runMigrations(db);
       dbInitialized = true;
     } catch (error) {
       console.error("Error initializing database:", error);
+      initPromise = null; // Let the next call retry
       throw error;
     }
   })();
@@ -79,6 +94,17 @@ export const ensureDbInitialized = async (): Promise<void> => {
   }
 };
 
+/**
+ * SQLite stores booleans as 0/1.
+ */
+const fromSessionRow = (row: any): DBSession => ({
+  ...row,
+  acceptedRecommendation: !!row.acceptedRecommendation,
+  sessionCompleted: !!row.sessionCompleted,
+  isManual: !!row.isManual,
+  excludeFromLearning: !!row.excludeFromLearning,
+});
+
 export const insertSession = async (
   session: Omit<DBSession, "id">,
 ): Promise<number> => {
@@ -88,8 +114,9 @@ export const insertSession = async (
       `INSERT INTO sessions (
         taskType, energyLevel, timeOfDay, recommendedDuration, recommendedBreak,
         userSelectedDuration, userSelectedBreak, acceptedRecommendation,
-        sessionCompleted, focusedUntilSkipped, reward, date, createdAt, skipReason, note
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        sessionCompleted, focusedUntilSkipped, reward, date, createdAt, skipReason, note,
+        isManual, excludeFromLearning, pauseCount, pausedSeconds
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         session.taskType,
         session.energyLevel,
@@ -106,6 +133,10 @@ export const insertSession = async (
         session.createdAt,
         session.skipReason || "none",
         session.note || null,
+        session.isManual ? 1 : 0,
+        session.excludeFromLearning ? 1 : 0,
+        session.pauseCount ?? 0,
+        session.pausedSeconds ?? 0,
       ],
     );
     return result.lastInsertRowId;
@@ -119,13 +150,9 @@ export const getAllSessions = async (): Promise<DBSession[]> => {
   await ensureDbInitialized();
   try {
     const result = await db.getAllAsync<any>(
-      `SELECT * FROM sessions ORDER BY createdAt DESC`,
+      `SELECT * FROM sessions WHERE deletedAt IS NULL ORDER BY createdAt DESC`,
     );
-    return result.map((row) => ({
-      ...row,
-      acceptedRecommendation: !!row.acceptedRecommendation,
-      sessionCompleted: !!row.sessionCompleted,
-    }));
+    return result.map(fromSessionRow);
   } catch (error) {
     console.error("Error getting sessions:", error);
     throw error;
@@ -139,14 +166,10 @@ export const getSessionsByDateRange = async (
   await ensureDbInitialized();
   try {
     const result = await db.getAllAsync<any>(
-      `SELECT * FROM sessions WHERE date >= ? AND date <= ? ORDER BY createdAt DESC`,
+      `SELECT * FROM sessions WHERE deletedAt IS NULL AND date >= ? AND date <= ? ORDER BY createdAt DESC`,
       [startDate, endDate],
     );
-    return result.map((row) => ({
-      ...row,
-      acceptedRecommendation: !!row.acceptedRecommendation,
-      sessionCompleted: !!row.sessionCompleted,
-    }));
+    return result.map(fromSessionRow);
   } catch (error) {
     console.error("Error getting sessions by date range:", error);
     throw error;
@@ -157,16 +180,355 @@ export const getSessionsByDate = async (date: string): Promise<DBSession[]> => {
   await ensureDbInitialized();
   try {
     const result = await db.getAllAsync<any>(
-      `SELECT * FROM sessions WHERE date = ? ORDER BY createdAt DESC`,
+      `SELECT * FROM sessions WHERE deletedAt IS NULL AND date = ? ORDER BY createdAt DESC`,
       [date],
     );
+    return result.map(fromSessionRow);
+  } catch (error) {
+    console.error("Error getting sessions by date:", error);
+    throw error;
+  }
+};
+
+// ============================================================================
+// PAGED QUERIES
+// ============================================================================
+
+/**
+ * Position in the history list: the last session of the previous page.
+ * createdAt can repeat, so id breaks ties.
+ */
+export interface SessionCursor {
+  createdAt: string;
+  id: number;
+}
+
+export interface SessionFilter {
+  since?: string; // ISO timestamp; only sessions saved at or after it
+  taskTypes?: string[];
+  energyLevels?: string[];
+}
+
+/**
+ * WHERE clause and parameters shared by filtered session queries.
+ */
+const buildSessionFilter = (
+  filter: SessionFilter,
+): { where: string; params: (string | number)[] } => {
+  const clauses = ["deletedAt IS NULL"];
+  const params: (string | number)[] = [];
+
+  if (filter.since) {
+    clauses.push("createdAt >= ?");
+    params.push(filter.since);
+  }
+  if (filter.taskTypes && filter.taskTypes.length > 0) {
+    clauses.push(`taskType IN (${filter.taskTypes.map(() => "?").join(", ")})`);
+    params.push(...filter.taskTypes);
+  }
+  if (filter.energyLevels && filter.energyLevels.length > 0) {
+    clauses.push(
+      `energyLevel IN (${filter.energyLevels.map(() => "?").join(", ")})`,
+    );
+    params.push(...filter.energyLevels);
+  }
+
+  return { where: clauses.join(" AND "), params };
+};
+
+/**
+ * One page of live sessions, newest first, starting after `cursor`.
+ */
+export const getSessionsPage = async (
+  filter: SessionFilter,
+  cursor: SessionCursor | null,
+  limit: number,
+): Promise<DBSession[]> => {
+  await ensureDbInitialized();
+  try {
+    const { where, params } = buildSessionFilter(filter);
+    const after = cursor ? " AND (createdAt < ? OR (createdAt = ? AND id < ?))" : "";
+    const afterParams = cursor ? [cursor.createdAt, cursor.createdAt, cursor.id] : [];
+    const result = await db.getAllAsync<any>(
+      `SELECT * FROM sessions WHERE ${where}${after} ORDER BY createdAt DESC, id DESC LIMIT ?`,
+      [...params, ...afterParams, limit],
+    );
+    return result.map(fromSessionRow);
+  } catch (error) {
+    console.error("Error getting sessions page:", error);
+    throw error;
+  }
+};
+
+/**
+ * The most recently saved live session, if any.
+ */
+export const getLatestSession = async (): Promise<DBSession | null> => {
+  const [latest] = await getSessionsPage({}, null, 1);
+  return latest ?? null;
+};
+
+/**
+ * The most recent completed live session for an energy level and task.
+ * Task names match the way normalizeTask compares them.
+ */
+export const getLatestCompletedSession = async (
+  energyLevel: string,
+  taskType: string,
+): Promise<DBSession | null> => {
+  await ensureDbInitialized();
+  try {
+    const row = await db.getFirstAsync<any>(
+      `SELECT * FROM sessions
+      WHERE deletedAt IS NULL AND sessionCompleted = 1
+        AND energyLevel = ? AND LOWER(TRIM(taskType)) = LOWER(TRIM(?))
+      ORDER BY createdAt DESC, id DESC
+      LIMIT 1`,
+      [energyLevel, taskType],
+    );
+    return row ? fromSessionRow(row) : null;
+  } catch (error) {
+    console.error("Error getting latest completed session:", error);
+    throw error;
+  }
+};
+
+/**
+ * The columns the adaptive engine needs to learn from a focus session.
+ */
+export type DBFocusSample = Pick<
+  DBSession,
+  | "timeOfDay"
+  | "createdAt"
+  | "userSelectedDuration"
+  | "focusedUntilSkipped"
+  | "sessionCompleted"
+  | "excludeFromLearning"
+  | "pauseCount"
+  | "pausedSeconds"
+  | "isManual"
+>;
+
+/**
+ * Focus samples of the live sessions for one task and energy level,
+ * oldest first. Served by the (taskType, energyLevel) index.
+ */
+export const getFocusSamples = async (
+  taskType: string,
+  energyLevel: string,
+): Promise<DBFocusSample[]> => {
+  await ensureDbInitialized();
+  try {
+    const result = await db.getAllAsync<any>(
+      `SELECT timeOfDay, createdAt, userSelectedDuration, focusedUntilSkipped,
+        sessionCompleted, excludeFromLearning, pauseCount, pausedSeconds, isManual
+      FROM sessions
+      WHERE taskType = ? AND energyLevel = ? AND deletedAt IS NULL
+      ORDER BY createdAt ASC, id ASC`,
+      [taskType, energyLevel],
+    );
     return result.map((row) => ({
       ...row,
-      acceptedRecommendation: !!row.acceptedRecommendation,
       sessionCompleted: !!row.sessionCompleted,
+      excludeFromLearning: !!row.excludeFromLearning,
+      isManual: !!row.isManual,
     }));
   } catch (error) {
-    console.error("Error getting sessions by date:", error);
+    console.error("Error getting focus samples:", error);
+    throw error;
+  }
+};
+
+/**
+ * What re-learning a few contexts has to replay: the live sessions of the
+ * given task and energy level pairs plus the session right after each
+ * (whose start judges the break before it), oldest first.
+ */
+export const getReplaySessions = async (
+  contexts: Pick<DBSession, "taskType" | "energyLevel">[],
+): Promise<DBSession[]> => {
+  if (contexts.length === 0) return [];
+
+  await ensureDbInitialized();
+  try {
+    const matches = contexts
+      .map(() => "(taskType = ? AND energyLevel = ?)")
+      .join(" OR ");
+    const result = await db.getAllAsync<any>(
+      `WITH picked AS (
+        SELECT id, createdAt FROM sessions
+        WHERE deletedAt IS NULL AND (${matches})
+      )
+      SELECT * FROM sessions
+      WHERE id IN (SELECT id FROM picked)
+        OR id IN (
+          SELECT (
+            SELECT n.id FROM sessions n
+            WHERE n.deletedAt IS NULL
+              AND (n.createdAt > p.createdAt OR (n.createdAt = p.createdAt AND n.id > p.id))
+            ORDER BY n.createdAt ASC, n.id ASC
+            LIMIT 1
+          ) FROM picked p
+        )
+      ORDER BY createdAt ASC, id ASC`,
+      contexts.flatMap((c) => [c.taskType, c.energyLevel]),
+    );
+    return result.map(fromSessionRow);
+  } catch (error) {
+    console.error("Error getting sessions to replay:", error);
+    throw error;
+  }
+};
+
+/**
+ * Task and energy level of the live session just before each of
+ * `createdAts`, without duplicates. Times with nothing before them add
+ * nothing.
+ */
+export const getContextsBefore = async (
+  createdAts: string[],
+): Promise<Pick<DBSession, "taskType" | "energyLevel">[]> => {
+  if (createdAts.length === 0) return [];
+
+  await ensureDbInitialized();
+  try {
+    const placeholders = createdAts.map(() => "(?)").join(", ");
+    return await db.getAllAsync<Pick<DBSession, "taskType" | "energyLevel">>(
+      `SELECT DISTINCT s.taskType, s.energyLevel
+      FROM (VALUES ${placeholders}) AS changed
+      JOIN sessions s ON s.id = (
+        SELECT p.id FROM sessions p
+        WHERE p.deletedAt IS NULL AND p.createdAt < changed.column1
+        ORDER BY p.createdAt DESC, p.id DESC
+        LIMIT 1
+      )`,
+      createdAts,
+    );
+  } catch (error) {
+    console.error("Error getting previous sessions:", error);
+    throw error;
+  }
+};
+
+// ============================================================================
+// AGGREGATES
+// ============================================================================
+
+export interface DailyFocusTotal {
+  date: string;
+  sessions: number;
+  completedSessions: number;
+  focusMinutes: number; // Focus time of completed sessions
+}
+
+/**
+ * Per-day totals between two dates (inclusive), oldest first. Days
+ * without sessions are omitted.
+ */
+export const getDailyFocusTotals = async (
+  startDate: string,
+  endDate: string,
+): Promise<DailyFocusTotal[]> => {
+  await ensureDbInitialized();
+  try {
+    return await db.getAllAsync<DailyFocusTotal>(
+      `SELECT date,
+        COUNT(*) AS sessions,
+        SUM(sessionCompleted) AS completedSessions,
+        COALESCE(SUM(CASE WHEN sessionCompleted = 1 THEN focusedUntilSkipped ELSE 0 END), 0) AS focusMinutes
+      FROM sessions
+      WHERE deletedAt IS NULL AND date >= ? AND date <= ?
+      GROUP BY date
+      ORDER BY date ASC`,
+      [startDate, endDate],
+    );
+  } catch (error) {
+    console.error("Error getting daily focus totals:", error);
+    throw error;
+  }
+};
+
+/**
+ * How getSessionAggregates buckets sessions. Time buckets follow the
+ * device's local time, except utcDay which matches the UTC date keys of
+ * the heatmap.
+ */
+export type SessionGrouping =
+  | "all"
+  | "hour"
+  | "day"
+  | "utcDay"
+  | "month"
+  | "taskType"
+  | "energyLevel"
+  | "taskEnergy"
+  | "taskDuration";
+
+const GROUPING_EXPRESSIONS: Record<SessionGrouping, string> = {
+  all: "'all'",
+  hour: "strftime('%H', createdAt, 'localtime')",
+  day: "strftime('%Y-%m-%d', createdAt, 'localtime')",
+  utcDay: "substr(createdAt, 1, 10)",
+  month: "strftime('%m', createdAt, 'localtime')",
+  taskType: "taskType",
+  energyLevel: "energyLevel",
+  taskEnergy: "taskType || '|' || energyLevel",
+  taskDuration: "taskType || '|' || userSelectedDuration",
+};
+
+export interface AggregateFilter {
+  start?: string; // ISO timestamps, inclusive
+  end?: string;
+  includeManual?: boolean; // Defaults to true
+  taskType?: string; // Matched the way normalizeTask compares tasks
+}
+
+export interface SessionAggregate {
+  key: string; // "all", "07", "2025-01-31", "03", a task type, a mood, "task|mood" or "task|minutes"
+  sessions: number;
+  completedSessions: number;
+  focusTime: number; // Planned (or more, with overtime) minutes when completed, focused minutes when skipped
+}
+
+/**
+ * Session counts and focus time per bucket, for live sessions saved in
+ * the filter's range. Buckets without sessions are omitted.
+ */
+export const getSessionAggregates = async (
+  grouping: SessionGrouping,
+  filter: AggregateFilter = {},
+): Promise<SessionAggregate[]> => {
+  await ensureDbInitialized();
+  try {
+    const clauses = ["deletedAt IS NULL"];
+    const params: string[] = [];
+    if (filter.start) {
+      clauses.push("createdAt >= ?");
+      params.push(filter.start);
+    }
+    if (filter.end) {
+      clauses.push("createdAt <= ?");
+      params.push(filter.end);
+    }
+    if (filter.includeManual === false) clauses.push("isManual = 0");
+    if (filter.taskType) {
+      clauses.push("LOWER(TRIM(taskType)) = LOWER(TRIM(?))");
+      params.push(filter.taskType);
+    }
+
+    return await db.getAllAsync<SessionAggregate>(
+      `SELECT ${GROUPING_EXPRESSIONS[grouping]} AS key,
+        COUNT(*) AS sessions,
+        SUM(sessionCompleted) AS completedSessions,
+        SUM(CASE WHEN sessionCompleted = 1 THEN MAX(userSelectedDuration, focusedUntilSkipped) ELSE focusedUntilSkipped END) AS focusTime
+      FROM sessions
+      WHERE ${clauses.join(" AND ")}
+      GROUP BY key
+      ORDER BY key ASC`,
+      params,
+    );
+  } catch (error) {
+    console.error("Error getting session aggregates:", error);
     throw error;
   }
 };
@@ -174,7 +536,7 @@ export const getSessionsByDate = async (date: string): Promise<DBSession[]> => {
 export const deleteAllSessions = async (): Promise<void> => {
   await ensureDbInitialized();
   try {
-    await db.execAsync(`DELETE FROM sessions`);
+    await db.execAsync(`DELETE FROM session_events; DELETE FROM sessions;`);
   } catch (error) {
     console.error("Error deleting all sessions:", error);
     throw error;
@@ -185,7 +547,7 @@ export const getSessionCount = async (): Promise<number> => {
   await ensureDbInitialized();
   try {
     const result = await db.getFirstAsync<{ count: number }>(
-      `SELECT COUNT(*) as count FROM sessions`,
+      `SELECT COUNT(*) as count FROM sessions WHERE deletedAt IS NULL`,
     );
     return result?.count || 0;
   } catch (error) {
@@ -206,3 +568,457 @@ export const updateSessionNote = async (
     throw error;
   }
 };
+
+/**
+ * Fields of a session that can be edited after it was logged.
+ */
+export type SessionChanges = Partial<
+  Omit<
+    DBSession,
+    | "id"
+    | "createdAt"
+    | "deletedAt"
+    | "isManual"
+    | "excludeFromLearning"
+    | "pauseCount"
+    | "pausedSeconds"
+  >
+>;
+
+const EDITABLE_SESSION_COLUMNS: (keyof SessionChanges)[] = [
+  "taskType",
+  "energyLevel",
+  "timeOfDay",
+  "recommendedDuration",
+  "recommendedBreak",
+  "userSelectedDuration",
+  "userSelectedBreak",
+  "acceptedRecommendation",
+  "sessionCompleted",
+  "focusedUntilSkipped",
+  "reward",
+  "date",
+  "skipReason",
+  "note",
+];
+
+const toSessionColumnValue = (
+  column: keyof SessionChanges,
+  value: SessionChanges[keyof SessionChanges],
+): string | number | null => {
+  if (column === "acceptedRecommendation" || column === "sessionCompleted") {
+    return value ? 1 : 0;
+  }
+  return (value as string | number | undefined) ?? null;
+};
+
+export const getSessionById = async (id: number): Promise<DBSession | null> => {
+  await ensureDbInitialized();
+  try {
+    const row = await db.getFirstAsync<any>(
+      `SELECT * FROM sessions WHERE id = ?`,
+      [id],
+    );
+    return row ? fromSessionRow(row) : null;
+  } catch (error) {
+    console.error("Error getting session:", error);
+    throw error;
+  }
+};
+
+export const updateSession = async (
+  id: number,
+  changes: SessionChanges,
+): Promise<void> => {
+  const columns = EDITABLE_SESSION_COLUMNS.filter(
+    (column) => changes[column] !== undefined,
+  );
+  if (columns.length === 0) return;
+
+  await ensureDbInitialized();
+  try {
+    await db.runAsync(
+      `UPDATE sessions SET ${columns.map((c) => `${c} = ?`).join(", ")} WHERE id = ?`,
+      [...columns.map((c) => toSessionColumnValue(c, changes[c])), id],
+    );
+  } catch (error) {
+    console.error("Error updating session:", error);
+    throw error;
+  }
+};
+
+export const deleteSession = async (id: number): Promise<void> => {
+  await ensureDbInitialized();
+  try {
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(`DELETE FROM session_events WHERE sessionId = ?`, [id]);
+      await db.runAsync(`DELETE FROM sessions WHERE id = ?`, [id]);
+    });
+  } catch (error) {
+    console.error("Error deleting session:", error);
+    throw error;
+  }
+};
+
+// ============================================================================
+// TRASH
+// ============================================================================
+
+/**
+ * Move one session to the trash. Sessions trashed together share a
+ * `deletedAt` stamp so the whole batch can be restored at once.
+ */
+export const trashSession = async (
+  id: number,
+  deletedAt: string,
+): Promise<void> => {
+  await ensureDbInitialized();
+  try {
+    await db.runAsync(
+      `UPDATE sessions SET deletedAt = ? WHERE id = ? AND deletedAt IS NULL`,
+      [deletedAt, id],
+    );
+  } catch (error) {
+    console.error("Error trashing session:", error);
+    throw error;
+  }
+};
+
+export const trashAllSessions = async (deletedAt: string): Promise<void> => {
+  await ensureDbInitialized();
+  try {
+    await db.runAsync(
+      `UPDATE sessions SET deletedAt = ? WHERE deletedAt IS NULL`,
+      [deletedAt],
+    );
+  } catch (error) {
+    console.error("Error trashing all sessions:", error);
+    throw error;
+  }
+};
+
+/**
+ * Trashed sessions, most recently deleted first. Pass `deletedAt` to get
+ * a single batch.
+ */
+export const getTrashedSessions = async (
+  deletedAt?: string,
+): Promise<DBSession[]> => {
+  await ensureDbInitialized();
+  try {
+    const result = deletedAt
+      ? await db.getAllAsync<any>(
+          `SELECT * FROM sessions WHERE deletedAt = ? ORDER BY createdAt DESC`,
+          [deletedAt],
+        )
+      : await db.getAllAsync<any>(
+          `SELECT * FROM sessions WHERE deletedAt IS NOT NULL ORDER BY deletedAt DESC, createdAt DESC`,
+        );
+    return result.map(fromSessionRow);
+  } catch (error) {
+    console.error("Error getting trashed sessions:", error);
+    throw error;
+  }
+};
+
+export const restoreSessions = async (ids: number[]): Promise<void> => {
+  if (ids.length === 0) return;
+  await ensureDbInitialized();
+  try {
+    await db.runAsync(
+      `UPDATE sessions SET deletedAt = NULL WHERE id IN (${ids.map(() => "?").join(", ")})`,
+      ids,
+    );
+  } catch (error) {
+    console.error("Error restoring sessions:", error);
+    throw error;
+  }
+};
+
+/**
+ * Permanently delete trashed sessions deleted before `before` (ISO
+ * timestamp), or the whole trash if omitted. Returns how many were purged.
+ */
+export const purgeTrashedSessions = async (before?: string): Promise<number> => {
+  await ensureDbInitialized();
+  try {
+    const where = before
+      ? "deletedAt IS NOT NULL AND deletedAt < ?"
+      : "deletedAt IS NOT NULL";
+    const params = before ? [before] : [];
+    let purged = 0;
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(
+        `DELETE FROM session_events WHERE sessionId IN (SELECT id FROM sessions WHERE ${where})`,
+        params,
+      );
+      const result = await db.runAsync(`DELETE FROM sessions WHERE ${where}`, params);
+      purged = result.changes;
+    });
+    return purged;
+  } catch (error) {
+    console.error("Error purging trashed sessions:", error);
+    throw error;
+  }
+};
+
+// ============================================================================
+// SESSION EVENTS
+// ============================================================================
+
+/**
+ * Store the timeline of a saved session.
+ */
+export const insertSessionEvents = async (
+  sessionId: number,
+  events: { type: string; timestamp: string }[],
+): Promise<void> => {
+  if (events.length === 0) return;
+  await ensureDbInitialized();
+  try {
+    await db.withTransactionAsync(async () => {
+      for (const event of events) {
+        await db.runAsync(
+          `INSERT INTO session_events (sessionId, type, timestamp) VALUES (?, ?, ?)`,
+          [sessionId, event.type, event.timestamp],
+        );
+      }
+    });
+  } catch (error) {
+    console.error("Error inserting session events:", error);
+    throw error;
+  }
+};
+
+/**
+ * A session's timeline, oldest first.
+ */
+export const getSessionEvents = async (
+  sessionId: number,
+): Promise<DBSessionEvent[]> => {
+  await ensureDbInitialized();
+  try {
+    return await db.getAllAsync<DBSessionEvent>(
+      `SELECT * FROM session_events WHERE sessionId = ? ORDER BY timestamp ASC, id ASC`,
+      [sessionId],
+    );
+  } catch (error) {
+    console.error("Error getting session events:", error);
+    throw error;
+  }
+};
+
+// ============================================================================
+// ADAPTIVE ENGINE STATE
+// ============================================================================
+
+const mapAdaptiveRecordRow = (row: any): DBAdaptiveRecord => ({
+  ...row,
+  completed: !!row.completed,
+});
+
+const insertAdaptiveContextRow = async (
+  context: DBAdaptiveContext,
+): Promise<void> => {
+  await db.runAsync(
+    `INSERT OR REPLACE INTO adaptive_contexts (
+      contextKey, taskType, energyLevel, ewma, completionRate, updatedAt
+    ) VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      context.contextKey,
+      context.taskType,
+      context.energyLevel,
+      context.ewma,
+      context.completionRate,
+      context.updatedAt,
+    ],
+  );
+};
+
+const insertAdaptiveRecordRow = async (
+  record: Omit<DBAdaptiveRecord, "id">,
+): Promise<void> => {
+  await db.runAsync(
+    `INSERT INTO adaptive_records (
+      contextKey, duration, actualFocusTime, completed, timestamp
+    ) VALUES (?, ?, ?, ?, ?)`,
+    [
+      record.contextKey,
+      record.duration,
+      record.actualFocusTime,
+      record.completed ? 1 : 0,
+      record.timestamp,
+    ],
+  );
+};
+
+export const getAdaptiveContext = async (
+  contextKey: string,
+): Promise<DBAdaptiveContext | null> => {
+  await ensureDbInitialized();
+  try {
+    return await db.getFirstAsync<DBAdaptiveContext>(
+      `SELECT * FROM adaptive_contexts WHERE contextKey = ?`,
+      [contextKey],
+    );
+  } catch (error) {
+    console.error("Error getting adaptive context:", error);
+    throw error;
+  }
+};
+
+export const getAllAdaptiveContexts = async (): Promise<
+  DBAdaptiveContext[]
+> => {
+  await ensureDbInitialized();
+  try {
+    return await db.getAllAsync<DBAdaptiveContext>(
+      `SELECT * FROM adaptive_contexts ORDER BY contextKey`,
+    );
+  } catch (error) {
+    console.error("Error getting adaptive contexts:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get the history window of a context, oldest first.
+ */
+export const getAdaptiveRecords = async (
+  contextKey: string,
+): Promise<DBAdaptiveRecord[]> => {
+  await ensureDbInitialized();
+  try {
+    const result = await db.getAllAsync<any>(
+      `SELECT * FROM adaptive_records WHERE contextKey = ? ORDER BY timestamp ASC, id ASC`,
+      [contextKey],
+    );
+    return result.map(mapAdaptiveRecordRow);
+  } catch (error) {
+    console.error("Error getting adaptive records:", error);
+    throw error;
+  }
+};
+
+/**
+ * Records of several contexts, oldest first within each.
+ */
+export const getAdaptiveRecordsForContexts = async (
+  contextKeys: string[],
+): Promise<DBAdaptiveRecord[]> => {
+  if (contextKeys.length === 0) return [];
+
+  await ensureDbInitialized();
+  try {
+    const placeholders = contextKeys.map(() => "?").join(", ");
+    const result = await db.getAllAsync<any>(
+      `SELECT * FROM adaptive_records WHERE contextKey IN (${placeholders})
+      ORDER BY timestamp ASC, id ASC`,
+      contextKeys,
+    );
+    return result.map(mapAdaptiveRecordRow);
+  } catch (error) {
+    console.error("Error getting adaptive records:", error);
+    throw error;
+  }
+};
+
+export const getAllAdaptiveRecords = async (): Promise<DBAdaptiveRecord[]> => {
+  await ensureDbInitialized();
+  try {
+    const result = await db.getAllAsync<any>(
+      `SELECT * FROM adaptive_records ORDER BY contextKey, timestamp ASC, id ASC`,
+    );
+    return result.map(mapAdaptiveRecordRow);
+  } catch (error) {
+    console.error("Error getting adaptive records:", error);
+    throw error;
+  }
+};
+
+/**
+ * Atomically update a context's learned values and append a record to its
+ * history, dropping records older than `minTimestamp`.
+ */
+export const saveAdaptiveRecord = async (
+  context: DBAdaptiveContext,
+  record: Omit<DBAdaptiveRecord, "id">,
+  minTimestamp: number,
+): Promise<void> => {
+  await ensureDbInitialized();
+  try {
+    await db.withTransactionAsync(async () => {
+      await insertAdaptiveContextRow(context);
+      await insertAdaptiveRecordRow(record);
+      await db.runAsync(
+        `DELETE FROM adaptive_records WHERE contextKey = ? AND timestamp < ?`,
+        [context.contextKey, minTimestamp],
+      );
+    });
+  } catch (error) {
+    console.error("Error saving adaptive record:", error);
+    throw error;
+  }
+};
+
+/**
+ * Replace the whole adaptive state (used by imports and migrations).
+ */
+export const replaceAdaptiveData = async (
+  contexts: DBAdaptiveContext[],
+  records: Omit<DBAdaptiveRecord, "id">[],
+): Promise<void> => {
+  await ensureDbInitialized();
+  try {
+    await db.withTransactionAsync(async () => {
+      await db.execAsync(
+        `DELETE FROM adaptive_records; DELETE FROM adaptive_contexts;`,
+      );
+      for (const context of contexts) {
+        await insertAdaptiveContextRow(context);
+      }
+      for (const record of records) {
+        await insertAdaptiveRecordRow(record);
+      }
+    });
+  } catch (error) {
+    console.error("Error replacing adaptive data:", error);
+    throw error;
+  }
+};
+
+/**
+ * Replace the rows of just the given contexts, e.g. after a session edit.
+ * Keys with no new context row are removed.
+ */
+export const replaceAdaptiveContexts = async (
+  contextKeys: string[],
+  contexts: DBAdaptiveContext[],
+  records: Omit<DBAdaptiveRecord, "id">[],
+): Promise<void> => {
+  if (contextKeys.length === 0) return;
+
+  await ensureDbInitialized();
+  try {
+    const placeholders = contextKeys.map(() => "?").join(", ");
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(
+        `DELETE FROM adaptive_records WHERE contextKey IN (${placeholders})`,
+        contextKeys,
+      );
+      await db.runAsync(
+        `DELETE FROM adaptive_contexts WHERE contextKey IN (${placeholders})`,
+        contextKeys,
+      );
+      for (const context of contexts) {
+        await insertAdaptiveContextRow(context);
+      }
+      for (const record of records) {
+        await insertAdaptiveRecordRow(record);
+      }
+    });
+  } catch (error) {
+    console.error("Error replacing adaptive contexts:", error);
+    throw error;
+  }
+};
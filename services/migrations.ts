@@ -0,0 +1,229 @@
+/**
+ * Schema Migrations
+ *
+ * Ordered, versioned schema steps for the SQLite database. The applied
+ * version lives in `PRAGMA user_version`; each pending step runs in its own
+ * transaction together with the version bump, so a failed step leaves the
+ * database at the last good version and the error surfaces to the caller.
+ *
+ * To change the schema, append a step with the next version number. Never
+ * edit or reorder a step that has shipped.
+ */
+import type { SQLiteDatabase } from "expo-sqlite";
+
+export type MigrationDatabase = Pick<
+  SQLiteDatabase,
+  "execAsync" | "getFirstAsync" | "getAllAsync" | "withTransactionAsync"
+>;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: MigrationDatabase) => Promise<void>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Whether `table` already has `column`. Databases created before versioning
+ * may already contain columns that a migration adds.
+ */
+export async function hasColumn(
+  db: MigrationDatabase,
+  table: string,
+  column: string,
+): Promise<boolean> {
+  const columns = await db.getAllAsync<{ name: string }>(
+    `PRAGMA table_info(${table})`,
+  );
+  return columns.some((c) => c.name === column);
+}
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "create sessions",
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          taskType TEXT NOT NULL,
+          energyLevel TEXT NOT NULL,
+          timeOfDay TEXT NOT NULL,
+          recommendedDuration INTEGER NOT NULL,
+          recommendedBreak INTEGER NOT NULL,
+          userSelectedDuration INTEGER NOT NULL,
+          userSelectedBreak INTEGER NOT NULL,
+          acceptedRecommendation INTEGER NOT NULL,
+          sessionCompleted INTEGER NOT NULL,
+          focusedUntilSkipped INTEGER NOT NULL,
+          reward REAL NOT NULL,
+          date TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          skipReason TEXT DEFAULT 'none'
+        )
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "add session notes",
+    up: async (db) => {
+      // Pre-versioning builds added this column on every launch
+      if (await hasColumn(db, "sessions", "note")) return;
+      await db.execAsync(`ALTER TABLE sessions ADD COLUMN note TEXT`);
+    },
+  },
+  {
+    version: 3,
+    name: "create adaptive engine tables",
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS adaptive_contexts (
+          contextKey TEXT PRIMARY KEY NOT NULL,
+          taskType TEXT NOT NULL,
+          energyLevel TEXT NOT NULL,
+          ewma REAL NOT NULL,
+          completionRate REAL NOT NULL,
+          updatedAt INTEGER NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS adaptive_records (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          contextKey TEXT NOT NULL,
+          duration INTEGER NOT NULL,
+          actualFocusTime INTEGER NOT NULL,
+          completed INTEGER NOT NULL,
+          timestamp INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_adaptive_records_context
+          ON adaptive_records (contextKey, timestamp);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "add session tombstones",
+    up: async (db) => {
+      // Deleted sessions stay in the trash until purged; NULL means live
+      await db.execAsync(`
+        ALTER TABLE sessions ADD COLUMN deletedAt TEXT;
+        CREATE INDEX IF NOT EXISTS idx_sessions_deleted ON sessions (deletedAt);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "add manual session flags",
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE sessions ADD COLUMN isManual INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE sessions ADD COLUMN excludeFromLearning INTEGER NOT NULL DEFAULT 0;
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "index session queries",
+    up: async (db) => {
+      // History pages walk (createdAt, id); charts group by date and task
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_sessions_created ON sessions (createdAt, id);
+        CREATE INDEX IF NOT EXISTS idx_sessions_date ON sessions (date);
+        CREATE INDEX IF NOT EXISTS idx_sessions_task ON sessions (taskType, energyLevel);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "record session events",
+    up: async (db) => {
+      // Events are written when their session is saved, so sessionId is known
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS session_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          sessionId INTEGER NOT NULL,
+          type TEXT NOT NULL,
+          timestamp TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_session_events_session
+          ON session_events (sessionId, timestamp);
+        ALTER TABLE sessions ADD COLUMN pauseCount INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE sessions ADD COLUMN pausedSeconds INTEGER NOT NULL DEFAULT 0;
+      `);
+    },
+  },
+];
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+export async function getSchemaVersion(db: MigrationDatabase): Promise<number> {
+  const row = await db.getFirstAsync<{ user_version: number }>(
+    "PRAGMA user_version",
+  );
+  return row?.user_version ?? 0;
+}
+
+/**
+ * Migrations must have unique, strictly increasing positive versions.
+ */
+function assertOrdered(migrations: Migration[]): void {
+  migrations.forEach((migration, i) => {
+    const previous = i === 0 ? 0 : migrations[i - 1].version;
+    if (!Number.isInteger(migration.version) || migration.version <= previous) {
+      throw new Error(
+        `Migration "${migration.name}" has version ${migration.version}; versions must be increasing integers`,
+      );
+    }
+  });
+}
+
+/**
+ * Apply every migration newer than the database's user_version, in order.
+ * Returns the resulting schema version. Throws (after logging) on the
+ * first failing step; earlier steps stay applied.
+ */
+export async function runMigrations(
+  db: MigrationDatabase,
+  migrations: Migration[] = MIGRATIONS,
+): Promise<number> {
+  assertOrdered(migrations);
+
+  let version = await getSchemaVersion(db);
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  if (version > latest) {
+    throw new Error(
+      `Database schema version ${version} is newer than this app supports (${latest})`,
+    );
+  }
+
+  for (const migration of migrations) {
+    if (migration.version <= version) continue;
+
+    try {
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        // PRAGMA doesn't take bound parameters; version is a checked integer
+        await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
+    } catch (error) {
+      console.error(
+        `[Migrations] Failed at v${migration.version} (${migration.name}):`,
+        error,
+      );
+      throw error;
+    }
+
+    version = migration.version;
+    console.log(`[Migrations] Applied v${version} (${migration.name})`);
+  }
+
+  return version;
+}
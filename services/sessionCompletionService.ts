@@ -2,18 +2,26 @@
  * Session Completion Service
  *
  * Orchestrates the final steps of a focus session, including saving to DB
- * and updating the Adaptive Engine.
+ * and updating the Adaptive Engine (focus and the preceding break).
  */
 import { MIN_SESSION_FOR_SAVE } from "@/constants/timer";
-import { recordSession } from "@/services/adaptiveEngine";
+import {
+    DEFAULT_HISTORY_DECAY,
+    HistoryDecayConfig,
+    recordBreakOutcome,
+    recordSession,
+    shouldLearnFocus,
+} from "@/services/adaptiveEngine";
 import {
     createAndSaveSession,
     loadSessionsFromDB,
 } from "@/services/sessionService";
-import { EnergyLevel } from "@/types";
+import { DBSession } from "@/services/database";
+import { EnergyLevel, Session, SessionEvent } from "@/types";
 import {
     detectTimeOfDay,
     secondsToMinutes,
+    summarizePauses,
 } from "@/utils/sessionUtils";
 
 export type CompletionType = "completed" | "skippedFocus" | "skippedBreak";
@@ -28,14 +36,18 @@ export interface SessionCompletionParams {
   originalFocusDuration: number; // in seconds
   selectedBreakDuration: number; // in seconds
   focusedTime: number; // actual focused time in seconds (for skips)
+  events?: SessionEvent[]; // start/pause/resume/... timeline of the session
+  endedAt?: Date; // When it ended, if not now (e.g. while the app was closed)
+  historyDecay?: HistoryDecayConfig; // How quickly the coach forgets
 }
 
 /**
  * Complete a session - handles all 3 completion types.
+ * Returns the saved session, or null if it was too short to keep.
  */
 export async function completeSession(
   params: SessionCompletionParams,
-): Promise<void> {
+): Promise<Session | null> {
   const {
     type,
     taskType,
@@ -46,6 +58,9 @@ export async function completeSession(
     originalFocusDuration,
     selectedBreakDuration,
     focusedTime,
+    events = [],
+    endedAt = new Date(),
+    historyDecay = DEFAULT_HISTORY_DECAY,
   } = params;
 
   const focusTimeInMinutes = secondsToMinutes(focusedTime);
@@ -73,7 +88,7 @@ export async function completeSession(
     console.log(
       `[AdaptiveEngine] Skipping save: Session was only ${focusedTime}s. Too short to be useful.`,
     );
-    return;
+    return null;
   }
 
   const sessionCompleted = type === "completed";
@@ -84,11 +99,10 @@ export async function completeSession(
         ? "skippedBreak"
         : undefined;
 
-  // Create and save session to DB
-  await createAndSaveSession({
+  const session: Omit<DBSession, "id"> = {
     taskType,
     energyLevel,
-    timeOfDay: detectTimeOfDay(),
+    timeOfDay: detectTimeOfDay(endedAt),
     recommendedDuration: recommendedFocusDuration,
     recommendedBreak: recommendedBreakDuration,
     userSelectedDuration: totalFocusDuration,
@@ -97,23 +111,40 @@ export async function completeSession(
     sessionCompleted,
     focusedUntilSkipped: focusTimeInMinutes,
     reward: 0, // Legacy DB column
-    date: new Date().toISOString().split("T")[0],
-    createdAt: new Date().toISOString(),
+    date: endedAt.toISOString().split("T")[0],
+    createdAt: endedAt.toISOString(),
     skipReason,
-  });
+    ...summarizePauses(events),
+  };
+
+  // Judge the previous break by this session, before it becomes the latest
+  await recordBreakOutcome(session, historyDecay);
+
+  // Create and save session to DB
+  const saved = await createAndSaveSession(session, events);
 
   // Update Adaptive Engine
-  await recordSession(
-    { taskType, energyLevel },
-    totalFocusDuration,
-    focusTimeInMinutes,
-    sessionCompleted
-  );
+  if (shouldLearnFocus(session)) {
+    await recordSession(
+      { taskType, energyLevel },
+      totalFocusDuration,
+      focusTimeInMinutes,
+      sessionCompleted,
+      historyDecay,
+      endedAt.getTime(),
+    );
+  } else {
+    console.log(
+      `[AdaptiveEngine] Not learning focus: session was paused ${session.pauseCount} times and abandoned`,
+    );
+  }
+
+  return saved;
 }
 
 /**
  * Load sessions from database.
  */
-export async function loadSessions(): Promise<import("@/types").Session[]> {
+export async function loadSessions(): Promise<Session[]> {
   return loadSessionsFromDB();
 }
@@ -1,82 +1,67 @@
 /**
  * Session Planner
  *
- * High-level service that orchestrates session recommendations by combining
- * heuristic (rule-based) logic with the Adaptive Engine.
+ * High-level service that orchestrates session recommendations by
+ * dispatching to the recommendation strategy chosen for the task (the
+ * Adaptive Engine by default).
  */
 import { EnergyLevel } from "@/types";
-import { FocusRecommendation, getRecommendations } from "./recommendations";
-import { getRecommendation, getBreakRecommendation, Context } from "./adaptiveEngine";
-import { getAllSessions } from "./database";
+import {
+  CoachConfig,
+  Context,
+  DEFAULT_COACH_CONFIG,
+  DEFAULT_HISTORY_DECAY,
+  getTimeOfDay,
+  HistoryDecayConfig,
+} from "./adaptiveEngine";
+import {
+  DEFAULT_STRATEGY,
+  getStrategy,
+  StrategyId,
+  StrategyRecommendation,
+} from "./strategies";
+
+export interface SessionRecommendation extends StrategyRecommendation {
+  strategy: StrategyId;
+}
 
 /**
- * Get a complete session recommendation, combining
- * rule-based logic with the adaptive learning system.
+ * Get a complete session recommendation from the task's strategy.
  *
  * @param energyLevel - User's current energy level
  * @param taskType - Type of task being performed
  * @param dynamicFocusArms - Custom focus durations added by user (unused in new engine but kept for API compat)
  * @param includeShortSessions - Whether to use ADHD mode fast sessions
- * @returns { focusDuration, breakDuration } both in minutes
+ * @param coachConfig - Burnout protection tuning (preset + enabled rules)
+ * @param strategyId - How durations are picked for this task
+ * @param timeOfDayAware - Let the engine split this context by time of day
+ * @param historyDecay - How quickly the engine forgets older sessions
+ * @returns { focusDuration, breakDuration } both in minutes, plus the
+ *          engine's trace explaining the focus duration (adaptive only)
  */
 export async function getSessionRecommendation(
   energyLevel: EnergyLevel,
   taskType: string,
   dynamicFocusArms: number[] = [],
   includeShortSessions: boolean = false,
-): Promise<FocusRecommendation> {
+  coachConfig: CoachConfig = DEFAULT_COACH_CONFIG,
+  strategyId: StrategyId = DEFAULT_STRATEGY,
+  timeOfDayAware: boolean = false,
+  historyDecay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
+): Promise<SessionRecommendation> {
   const context: Context = {
     energyLevel,
     taskType: taskType || "default",
+    ...(timeOfDayAware && { timeOfDay: getTimeOfDay() }),
   };
 
-  // Get base recommendation from rule-based system
-  const baseRecommendation = await getRecommendations(
-    energyLevel,
-    taskType,
-    includeShortSessions,
-  );
-
-  // Compute burnout protection metrics from session history
-  let todayTotalMinutes = 0;
-  let lastSessionEndTime = 0;
-  let daysSinceLastSession = 0;
-
-  try {
-    const sessions = await getAllSessions();
-    if (sessions.length > 0) {
-      const todayStr = new Date().toISOString().split("T")[0];
-      todayTotalMinutes = sessions
-        .filter((s) => s.date === todayStr && s.sessionCompleted)
-        .reduce((acc, s) => acc + s.focusedUntilSkipped, 0);
-
-      const lastSession = sessions[0]; // They are sorted DESC by createdAt
-      const lastSessionStart = new Date(lastSession.createdAt).getTime();
-      lastSessionEndTime = lastSessionStart + (lastSession.focusedUntilSkipped * 60000);
-      
-      // Calculate midnight-to-midnight days difference, or just simple 24h chunk
-      const msPerDay = 1000 * 60 * 60 * 24;
-      daysSinceLastSession = Math.floor((Date.now() - lastSessionStart) / msPerDay);
-    }
-  } catch (error) {
-    console.error("Error fetching sessions for planner:", error);
-  }
-
-  // Get smart recommendation from Adaptive Engine
-  const smartFocus = await getRecommendation(
+  const strategy = getStrategy(strategyId);
+  const recommendation = await strategy.recommend({
     context,
-    baseRecommendation.focusDuration,
-    todayTotalMinutes,
-    lastSessionEndTime,
-    daysSinceLastSession,
-    includeShortSessions
-  );
-
-  // Get smart break - deterministic scale of focus duration
-  const smartBreakStr = getBreakRecommendation(smartFocus.value);
+    includeShortSessions,
+    coachConfig,
+    historyDecay,
+  });
 
-  return {
-    focusDuration: smartFocus.value,
-    breakDuration: smartBreakStr,
-  };
+  return { ...recommendation, strategy: strategy.id };
 }
@@ -4,41 +4,264 @@
  * High-level service for interacting with session data, bridging
  * the database layer and the UI/Store layers.
  */
+import {
+    DEFAULT_HISTORY_DECAY,
+    getTimeOfDay,
+    HistoryDecayConfig,
+    rebuildAdaptiveState,
+    relearnChangedSessions,
+} from "@/services/adaptiveEngine";
 import {
     DBSession,
-    deleteAllSessions,
-    getAllSessions,
+    deleteSession,
+    getSessionById,
+    getSessionCount,
+    getSessionEvents,
+    getSessionsPage,
+    getTrashedSessions,
     insertSession,
+    insertSessionEvents,
+    purgeTrashedSessions,
+    restoreSessions,
+    SessionChanges,
+    SessionFilter,
+    trashAllSessions,
+    trashSession,
+    updateSession,
     updateSessionNote,
 } from "@/services/database";
-import { EnergyLevel, Session } from "@/types";
+import { EnergyLevel, Session, SessionEvent } from "@/types";
 
-export const loadSessionsFromDB = async (): Promise<Session[]> => {
-  const dbSessions = await getAllSessions();
-  return dbSessions.map((session) => ({
-    ...session,
-    energyLevel: session.energyLevel as EnergyLevel,
-  }));
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toSession = (session: DBSession): Session => ({
+  ...session,
+  energyLevel: session.energyLevel as EnergyLevel,
+});
+
+// Sessions the store keeps for the current goal periods; all-time stats,
+// insights, streaks and the drop-off curve are aggregated in SQLite (see
+// services/analytics) and history is paged
+export const RECENT_SESSION_LIMIT = 1000;
+
+/**
+ * The newest sessions, up to `limit`, newest first.
+ */
+export const loadSessionsFromDB = async (
+  limit: number = RECENT_SESSION_LIMIT,
+): Promise<Session[]> => {
+  const dbSessions = await getSessionsPage({}, null, limit);
+  return dbSessions.map(toSession);
 };
 
-export const clearAllSessionsFromDB = async (): Promise<void> => {
-  await deleteAllSessions();
+/**
+ * How many live sessions are stored, including any older than the ones
+ * the store holds.
+ */
+export const countSessionsInDB = (): Promise<number> => getSessionCount();
+
+/**
+ * Move every session to the trash and reset what the coach learned from
+ * them. Returns the batch's deletedAt stamp, which undoes the clear (and
+ * re-learns the sessions) when passed to restoreTrashBatchInDB.
+ */
+export const clearAllSessionsFromDB = async (
+  decay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
+): Promise<string> => {
+  const deletedAt = new Date().toISOString();
+  await trashAllSessions(deletedAt);
+  await rebuildAdaptiveState(decay); // No live sessions left, so this resets it
+  return deletedAt;
+};
+
+export const HISTORY_PAGE_SIZE = 30;
+
+/**
+ * One page of history, newest first. Pass the last session of the
+ * previous page to continue after it.
+ */
+export const loadSessionPage = async (
+  filter: SessionFilter,
+  after: Session | null,
+  limit: number = HISTORY_PAGE_SIZE,
+): Promise<Session[]> => {
+  const cursor =
+    after?.id !== undefined ? { createdAt: after.createdAt, id: after.id } : null;
+  const dbSessions = await getSessionsPage(filter, cursor, limit);
+  return dbSessions.map(toSession);
 };
 
 export const createAndSaveSession = async (
   sessionData: Omit<DBSession, "id">,
+  events: SessionEvent[] = [],
 ): Promise<Session> => {
-  await insertSession(sessionData);
-  const dbSessions = await getAllSessions();
-  const newSession = dbSessions[dbSessions.length - 1];
-  return {
-    ...newSession,
-    energyLevel: newSession.energyLevel as EnergyLevel,
+  const id = await insertSession(sessionData);
+  await insertSessionEvents(id, events);
+  const newSession = await getSessionById(id);
+  if (!newSession) throw new Error(`Session ${id} was not saved`);
+  return toSession(newSession);
+};
+
+/**
+ * The start/pause/resume/skip/complete timeline of a saved session.
+ */
+export const loadSessionEvents = async (
+  sessionId: number,
+): Promise<SessionEvent[]> => {
+  const events = await getSessionEvents(sessionId);
+  return events.map(({ type, timestamp }) => ({
+    type: type as SessionEvent["type"],
+    timestamp,
+  }));
+};
+
+export interface ManualSessionInput {
+  taskType: string;
+  energyLevel: EnergyLevel;
+  startedAt: Date;
+  targetMinutes: number;
+  actualMinutes: number;
+  learn: boolean; // Feed the session to the adaptive engine
+  note?: string;
+}
+
+/**
+ * Log a focus session that happened away from the app. It's saved as if
+ * timed (ending `actualMinutes` after `startedAt`, no break) and flagged as
+ * manual; when `learn` is set the affected contexts are re-learned with the
+ * session slotted into its place in history.
+ */
+export const logManualSession = async (
+  input: ManualSessionInput,
+  decay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
+): Promise<Session> => {
+  const { taskType, energyLevel, startedAt, targetMinutes, actualMinutes } =
+    input;
+  if (actualMinutes <= 0 || targetMinutes <= 0) {
+    throw new Error("Manual sessions need a positive duration");
+  }
+  const endedAt = new Date(startedAt.getTime() + actualMinutes * 60000);
+  if (endedAt.getTime() > Date.now()) {
+    throw new Error("Manual sessions must have already ended");
+  }
+
+  const sessionCompleted = actualMinutes >= targetMinutes;
+  const session: Omit<DBSession, "id"> = {
+    taskType,
+    energyLevel,
+    timeOfDay: getTimeOfDay(startedAt),
+    recommendedDuration: targetMinutes,
+    recommendedBreak: 0,
+    userSelectedDuration: targetMinutes,
+    userSelectedBreak: 0,
+    acceptedRecommendation: false,
+    sessionCompleted,
+    focusedUntilSkipped: actualMinutes,
+    reward: 0, // Legacy DB column
+    date: endedAt.toISOString().split("T")[0],
+    createdAt: endedAt.toISOString(),
+    skipReason: sessionCompleted ? undefined : "skippedFocus",
+    note: input.note,
+    isManual: true,
+    excludeFromLearning: !input.learn,
   };
+
+  const id = await insertSession(session);
+  if (input.learn) await relearnChangedSessions([session], decay);
+  return toSession({ ...session, id });
 };
+
 export const updateSessionNoteInDB = async (
   id: number,
   note: string,
 ): Promise<void> => {
   await updateSessionNote(id, note);
 };
+
+/**
+ * Edit a saved session, then re-learn the contexts it left and joined.
+ */
+export const updateSessionInDB = async (
+  id: number,
+  changes: SessionChanges,
+  decay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
+): Promise<void> => {
+  const before = await getSessionById(id);
+  if (!before) throw new Error(`Session ${id} not found`);
+
+  await updateSession(id, changes);
+  await relearnChangedSessions([before, { ...before, ...changes }], decay);
+};
+
+/**
+ * Move a saved session to the trash, then re-learn the contexts it
+ * contributed to. Returns the deletedAt stamp for undo.
+ */
+export const trashSessionInDB = async (
+  id: number,
+  decay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
+): Promise<string> => {
+  const before = await getSessionById(id);
+  if (!before) throw new Error(`Session ${id} not found`);
+
+  const deletedAt = new Date().toISOString();
+  await trashSession(id, deletedAt);
+  await relearnChangedSessions([before], decay);
+  return deletedAt;
+};
+
+// ============================================================================
+// TRASH
+// ============================================================================
+
+export const loadTrashFromDB = async (): Promise<Session[]> => {
+  const dbSessions = await getTrashedSessions();
+  return dbSessions.map(toSession);
+};
+
+/**
+ * Bring back everything trashed together at `deletedAt` and re-learn the
+ * contexts the sessions return to.
+ */
+export const restoreTrashBatchInDB = async (
+  deletedAt: string,
+  decay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
+): Promise<void> => {
+  const batch = await getTrashedSessions(deletedAt);
+  await restoreSessions(batch.map((s) => s.id!));
+  if (batch.length > 0) await relearnChangedSessions(batch, decay);
+};
+
+export const restoreSessionFromTrash = async (
+  id: number,
+  decay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
+): Promise<void> => {
+  const session = await getSessionById(id);
+  if (!session?.deletedAt) return;
+
+  await restoreSessions([id]);
+  await relearnChangedSessions([session], decay);
+};
+
+/**
+ * Permanently delete a trashed session. Live sessions are left alone.
+ */
+export const deleteSessionForever = async (id: number): Promise<void> => {
+  const session = await getSessionById(id);
+  if (!session?.deletedAt) return;
+  await deleteSession(id);
+};
+
+export const emptyTrashInDB = async (): Promise<number> => purgeTrashedSessions();
+
+/**
+ * Purge sessions that have been in the trash longer than `retentionDays`.
+ */
+export const purgeExpiredTrash = async (retentionDays: number): Promise<number> => {
+  const cutoff = new Date(Date.now() - retentionDays * MS_PER_DAY).toISOString();
+  const purged = await purgeTrashedSessions(cutoff);
+  if (purged > 0) {
+    console.log(`[Trash] Purged ${purged} sessions older than ${retentionDays} days`);
+  }
+  return purged;
+};
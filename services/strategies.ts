@@ -0,0 +1,285 @@
+/**
+ * Recommendation Strategies
+ *
+ * Pluggable ways of picking a focus/break duration. The adaptive coach is
+ * the default; fixed schedules (Pomodoro, 52/17, Ultradian) and "repeat my
+ * last successful session" are available per task for people who prefer a
+ * classic rhythm but still want Kairos's history and analytics.
+ */
+import { normalizeTask } from "@/utils/task";
+import {
+  CoachConfig,
+  Context,
+  getAdaptiveBreakRecommendation,
+  getBreakRecommendation,
+  getRecommendation,
+  HistoryDecayConfig,
+  RecommendationTrace,
+} from "./adaptiveEngine";
+import {
+  getDailyFocusTotals,
+  getLatestCompletedSession,
+  getLatestSession,
+} from "./database";
+import { FocusRecommendation, getRecommendations } from "./recommendations";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type StrategyId =
+  | "adaptive"
+  | "pomodoro"
+  | "fifty-two-seventeen"
+  | "ultradian"
+  | "last-successful";
+
+export interface StrategyRequest {
+  context: Context;
+  includeShortSessions: boolean;
+  coachConfig: CoachConfig;
+  historyDecay: HistoryDecayConfig;
+}
+
+export interface StrategyRecommendation extends FocusRecommendation {
+  trace: RecommendationTrace | null; // Only the adaptive coach explains itself
+}
+
+export interface RecommendationStrategy {
+  id: StrategyId;
+  label: string;
+  description: string;
+  recommend: (request: StrategyRequest) => Promise<StrategyRecommendation>;
+  /** Break for a focus block the user may have resized before starting. */
+  recommendBreak: (
+    context: Context,
+    focusDuration: number,
+    includeShortSessions: boolean,
+  ) => Promise<number>;
+}
+
+export const DEFAULT_STRATEGY: StrategyId = "adaptive";
+
+// ============================================================================
+// ADAPTIVE COACH
+// ============================================================================
+
+/**
+ * Burnout protection inputs derived from session history.
+ */
+async function getBurnoutMetrics(): Promise<{
+  todayTotalMinutes: number;
+  lastSessionEndTime: number;
+  daysSinceLastSession: number;
+}> {
+  let todayTotalMinutes = 0;
+  let lastSessionEndTime = 0;
+  let daysSinceLastSession = 0;
+
+  try {
+    const todayStr = new Date().toISOString().split("T")[0];
+    const [today] = await getDailyFocusTotals(todayStr, todayStr);
+    todayTotalMinutes = today?.focusMinutes ?? 0;
+
+    const lastSession = await getLatestSession();
+    if (lastSession) {
+      // Sessions are saved once their break ends, so focus ended a break earlier
+      const lastSessionSaved = new Date(lastSession.createdAt).getTime();
+      const lastBreak = lastSession.sessionCompleted ? lastSession.userSelectedBreak : 0;
+      lastSessionEndTime = lastSessionSaved - (lastBreak * 60000);
+
+      // Calculate midnight-to-midnight days difference, or just simple 24h chunk
+      const msPerDay = 1000 * 60 * 60 * 24;
+      daysSinceLastSession = Math.floor((Date.now() - lastSessionSaved) / msPerDay);
+    }
+  } catch (error) {
+    console.error("Error fetching sessions for planner:", error);
+  }
+
+  return { todayTotalMinutes, lastSessionEndTime, daysSinceLastSession };
+}
+
+const adaptiveStrategy: RecommendationStrategy = {
+  id: "adaptive",
+  label: "Adaptive coach",
+  description: "Learns the right length from your history",
+  recommend: async ({
+    context,
+    includeShortSessions,
+    coachConfig,
+    historyDecay,
+  }) => {
+    // Get base recommendation from rule-based system
+    const baseRecommendation = await getRecommendations(
+      context.energyLevel,
+      context.taskType,
+      includeShortSessions,
+    );
+
+    const { todayTotalMinutes, lastSessionEndTime, daysSinceLastSession } =
+      await getBurnoutMetrics();
+
+    // Get smart recommendation from Adaptive Engine
+    const smartFocus = await getRecommendation(
+      context,
+      baseRecommendation.focusDuration,
+      todayTotalMinutes,
+      lastSessionEndTime,
+      daysSinceLastSession,
+      includeShortSessions,
+      coachConfig,
+      historyDecay,
+    );
+
+    // Get smart break - focus ÷ 3, blended towards learned rest for this context
+    const smartBreak = await getAdaptiveBreakRecommendation(
+      context,
+      smartFocus.value,
+      includeShortSessions,
+    );
+
+    return {
+      focusDuration: smartFocus.value,
+      breakDuration: smartBreak,
+      trace: smartFocus.trace,
+    };
+  },
+  recommendBreak: getAdaptiveBreakRecommendation,
+};
+
+// ============================================================================
+// FIXED SCHEDULES
+// ============================================================================
+
+// ADHD mode caps fixed schedules and repeats the way the adaptive coach
+// caps itself
+const SHORT_FOCUS_CAP = 30;
+const SHORT_BREAK_CAP = 5;
+
+const capFocus = (minutes: number, includeShortSessions: boolean) =>
+  includeShortSessions ? Math.min(SHORT_FOCUS_CAP, minutes) : minutes;
+
+const capBreak = (minutes: number, includeShortSessions: boolean) =>
+  includeShortSessions ? Math.min(SHORT_BREAK_CAP, minutes) : minutes;
+
+const createFixedStrategy = (
+  id: StrategyId,
+  label: string,
+  description: string,
+  focusDuration: number,
+  breakDuration: number,
+): RecommendationStrategy => ({
+  id,
+  label,
+  description,
+  recommend: async ({ includeShortSessions }) => ({
+    focusDuration: capFocus(focusDuration, includeShortSessions),
+    breakDuration: capBreak(breakDuration, includeShortSessions),
+    trace: null,
+  }),
+  recommendBreak: async (_context, _focusDuration, includeShortSessions) =>
+    capBreak(breakDuration, includeShortSessions),
+});
+
+// ============================================================================
+// LAST SUCCESSFUL DURATION
+// ============================================================================
+
+/**
+ * Duration of the most recent completed session in this context, or null
+ * if they haven't finished one yet.
+ */
+export async function getLastSuccessfulDuration(
+  context: Context,
+): Promise<number | null> {
+  const last = await getLatestCompletedSession(
+    context.energyLevel,
+    context.taskType,
+  );
+  return last ? last.userSelectedDuration : null;
+}
+
+const lastSuccessfulStrategy: RecommendationStrategy = {
+  id: "last-successful",
+  label: "Last success",
+  description: "Repeats your last completed session",
+  recommend: async ({ context, includeShortSessions }) => {
+    let focusDuration: number | null = null;
+    try {
+      focusDuration = await getLastSuccessfulDuration(context);
+    } catch (error) {
+      console.error("Error fetching sessions for last success:", error);
+    }
+
+    // Nothing finished yet in this context - start from the heuristic
+    if (focusDuration === null) {
+      const heuristic = await getRecommendations(
+        context.energyLevel,
+        context.taskType,
+        includeShortSessions,
+      );
+      focusDuration = heuristic.focusDuration;
+    }
+
+    focusDuration = capFocus(focusDuration, includeShortSessions);
+    return {
+      focusDuration,
+      breakDuration: capBreak(
+        getBreakRecommendation(focusDuration),
+        includeShortSessions,
+      ),
+      trace: null,
+    };
+  },
+  recommendBreak: async (_context, focusDuration, includeShortSessions) =>
+    capBreak(getBreakRecommendation(focusDuration), includeShortSessions),
+};
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const STRATEGIES: Record<StrategyId, RecommendationStrategy> = {
+  adaptive: adaptiveStrategy,
+  pomodoro: createFixedStrategy(
+    "pomodoro",
+    "Pomodoro 25/5",
+    "Classic 25 minutes on, 5 off",
+    25,
+    5,
+  ),
+  "fifty-two-seventeen": createFixedStrategy(
+    "fifty-two-seventeen",
+    "52/17",
+    "52 minutes on, 17 off",
+    52,
+    17,
+  ),
+  ultradian: createFixedStrategy(
+    "ultradian",
+    "Ultradian 90/20",
+    "One full 90 minute cycle, then 20 off",
+    90,
+    20,
+  ),
+  "last-successful": lastSuccessfulStrategy,
+};
+
+/**
+ * Look up a strategy, falling back to the adaptive coach for unknown ids
+ * (e.g. from an older persisted store).
+ */
+export function getStrategy(id: StrategyId | undefined): RecommendationStrategy {
+  return (id && STRATEGIES[id]) || STRATEGIES[DEFAULT_STRATEGY];
+}
+
+/**
+ * Strategy chosen for a task, keyed by its normalized name.
+ */
+export function getTaskStrategy(
+  taskStrategies: Record<string, StrategyId>,
+  taskType: string,
+): StrategyId {
+  return taskStrategies[normalizeTask(taskType)] ?? DEFAULT_STRATEGY;
+}
+
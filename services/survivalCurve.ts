@@ -0,0 +1,97 @@
+/**
+ * Survival Curve
+ *
+ * Kaplan–Meier estimate of how long focus lasts in a context: the
+ * probability of still focusing at minute N. Skipped sessions are drop-outs
+ * at the minute they stopped; sessions that reached their target are
+ * censored there (we only know they lasted at least that long).
+ */
+
+export interface SurvivalObservation {
+  minutes: number; // How long they focused
+  dropped: boolean; // Stopped early (true) or reached the target (false)
+}
+
+export interface SurvivalPoint {
+  minute: number;
+  probability: number; // P(still focusing at this minute)
+  atRisk: number; // Sessions still running just before this minute
+}
+
+/**
+ * Turn a session (target, actual, completed) into an observation. A session
+ * that isn't marked completed but focused the whole target (e.g. skipped
+ * its break) still survived the full duration.
+ */
+export function toSurvivalObservation(record: {
+  duration: number;
+  actualFocusTime: number;
+  completed: boolean;
+}): SurvivalObservation {
+  const dropped = !record.completed && record.actualFocusTime < record.duration;
+  return {
+    // Overtime keeps the session alive past its target
+    minutes: dropped
+      ? record.actualFocusTime
+      : Math.max(record.duration, record.actualFocusTime),
+    dropped,
+  };
+}
+
+/**
+ * Kaplan–Meier product-limit estimator. Returns a step curve starting at
+ * (0, 1) with one point per minute at which someone dropped out.
+ */
+export function estimateSurvivalCurve(
+  observations: SurvivalObservation[],
+): SurvivalPoint[] {
+  const valid = observations.filter((o) => o.minutes >= 0);
+  const curve: SurvivalPoint[] = [
+    { minute: 0, probability: 1, atRisk: valid.length },
+  ];
+
+  const dropMinutes = Array.from(
+    new Set(valid.filter((o) => o.dropped).map((o) => o.minutes)),
+  ).sort((a, b) => a - b);
+
+  let probability = 1;
+  for (const minute of dropMinutes) {
+    const atRisk = valid.filter((o) => o.minutes >= minute).length;
+    const drops = valid.filter((o) => o.dropped && o.minutes === minute).length;
+    if (atRisk === 0) continue;
+
+    probability *= 1 - drops / atRisk;
+    curve.push({ minute, probability, atRisk });
+  }
+
+  return curve;
+}
+
+/**
+ * Probability of still focusing at `minute` (step function lookup).
+ */
+export function getSurvivalProbability(
+  curve: SurvivalPoint[],
+  minute: number,
+): number {
+  let probability = 1;
+  for (const point of curve) {
+    if (point.minute > minute) break;
+    probability = point.probability;
+  }
+  return probability;
+}
+
+/**
+ * Longest whole-minute duration still reached with at least `target`
+ * probability, or null if the curve never drops below the target within
+ * the observed range.
+ */
+export function getLongestDurationAtProbability(
+  curve: SurvivalPoint[],
+  target: number,
+): number | null {
+  const firstBelow = curve.find((point) => point.probability < target);
+  if (!firstBelow) return null;
+  return Math.max(0, firstBelow.minute - 1);
+}
@@ -0,0 +1,102 @@
+/**
+ * Timer Machine Tests
+ *
+ * Every phase against every event, so a transition can't be added or
+ * dropped without a test noticing.
+ */
+import {
+  canTransition,
+  isSessionInProgress,
+  nextPhase,
+  TimerEvent,
+  TimerPhase,
+} from "../slices/timerMachine";
+
+const PHASES: TimerPhase[] = [
+  "idle",
+  "ready",
+  "focusing",
+  "paused",
+  "overtime",
+  "awaitingBreak",
+  "onBreak",
+  "done",
+];
+
+const EVENTS: TimerEvent[] = [
+  "prepare",
+  "unprepare",
+  "start",
+  "pause",
+  "resume",
+  "reachTarget",
+  "finishFocus",
+  "startBreak",
+  "skipBreak",
+  "finishBreak",
+  "skip",
+  "cancel",
+];
+
+// The only legal moves; everything else must be rejected
+const LEGAL: Record<TimerPhase, Partial<Record<TimerEvent, TimerPhase>>> = {
+  idle: { prepare: "ready" },
+  ready: { unprepare: "idle", start: "focusing", cancel: "idle" },
+  focusing: {
+    pause: "paused",
+    reachTarget: "overtime",
+    finishFocus: "awaitingBreak",
+    skip: "done",
+    cancel: "idle",
+  },
+  paused: { resume: "focusing", skip: "done", cancel: "idle" },
+  overtime: { finishFocus: "awaitingBreak" },
+  awaitingBreak: { startBreak: "onBreak", skipBreak: "done" },
+  onBreak: { finishBreak: "done", skip: "done" },
+  done: { prepare: "ready" },
+};
+
+const cases = PHASES.flatMap((phase) =>
+  EVENTS.map((event) => [phase, event, LEGAL[phase][event] ?? null] as const),
+);
+
+describe("Timer Machine", () => {
+  it.each(cases)("%s + %s → %s", (phase, event, expected) => {
+    expect(nextPhase(phase, event)).toBe(expected);
+    expect(canTransition(phase, event)).toBe(expected !== null);
+  });
+
+  it("should reach done from idle along the happy path", () => {
+    const path: TimerEvent[] = [
+      "prepare",
+      "start",
+      "pause",
+      "resume",
+      "finishFocus",
+      "startBreak",
+      "finishBreak",
+    ];
+    const end = path.reduce<TimerPhase | null>(
+      (phase, event) => phase && nextPhase(phase, event),
+      "idle",
+    );
+    expect(end).toBe("done");
+  });
+
+  it("should only let overtime end by finishing focus", () => {
+    expect(nextPhase("focusing", "reachTarget")).toBe("overtime");
+    expect(
+      EVENTS.filter((event) => canTransition("overtime", event)),
+    ).toEqual(["finishFocus"]);
+  });
+
+  it("should only count started, unsaved sessions as in progress", () => {
+    expect(PHASES.filter(isSessionInProgress)).toEqual([
+      "focusing",
+      "paused",
+      "overtime",
+      "awaitingBreak",
+      "onBreak",
+    ]);
+  });
+});
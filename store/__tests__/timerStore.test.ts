@@ -32,7 +32,11 @@ jest.mock("@react-native-async-storage/async-storage", () => {
 
 jest.mock("@/services/sessionService", () => ({
   loadSessionsFromDB: jest.fn(() => Promise.resolve([])),
-  clearAllSessionsFromDB: jest.fn(() => Promise.resolve()),
+  clearAllSessionsFromDB: jest.fn(() =>
+    Promise.resolve("2025-01-01T10:00:00.000Z"),
+  ),
+  restoreTrashBatchInDB: jest.fn(() => Promise.resolve()),
+  purgeExpiredTrash: jest.fn(() => Promise.resolve(0)),
   createAndSaveSession: jest.fn(() => Promise.resolve({ id: 1, reward: 1.0 })),
 }));
 
@@ -48,16 +52,21 @@ jest.mock("@/services/sessionPlanner", () => ({
 
 jest.mock("@/services/adaptiveEngine", () => ({
   getBreakRecommendation: jest.fn(() => 5),
+  getAdaptiveBreakRecommendation: jest.fn(() => Promise.resolve(5)),
+  getCoachConfig: jest.fn(() => ({})),
+  getHistoryDecay: jest.fn((halfLifeDays: number) => ({ halfLifeDays })),
   recordSession: jest.fn(() => Promise.resolve()),
 }));
 
 // Import after mocks
 import useTimerStore from "../timerStore";
+import { MAX_OVERTIME } from "@/constants/timer";
 
 describe("Timer Store", () => {
   beforeEach(() => {
     // Reset store to initial state before each test
     useTimerStore.setState({
+      timerPhase: "idle",
       isActive: false,
       isBreakTime: false,
       time: 0,
@@ -77,17 +86,27 @@ describe("Timer Store", () => {
       hasInteractedWithTimer: false,
       hasDismissedRecommendationCard: false,
       sessionStartTimestamp: undefined,
+      accumulatedMs: 0,
+      segmentStartedAt: undefined,
       includeShortSessions: false,
       dynamicFocusArms: [],
       notificationsEnabled: false,
-      hasSavedSession: false,
       originalFocusDuration: 0,
       recommendedFocusDuration: 25,
       recommendedBreakDuration: 5,
       userAcceptedRecommendation: true,
       selectedBreakDuration: 5,
-      sessionJustCompleted: false,
       scheduledNotificationId: null,
+      pausedAt: undefined,
+      sessionEvents: [],
+      sequence: null,
+      sequenceCycles: 1,
+      longBreakEvery: 4,
+      overtimeSeconds: 0,
+      flowMode: false,
+      focusGoal: { day: 0, week: 0 },
+      taskGoals: {},
+      historyHalfLifeDays: 21,
     });
   });
 
@@ -148,6 +167,34 @@ describe("Timer Store", () => {
       expect(useTimerStore.getState().isActive).toBe(false);
     });
 
+    it("should freeze the time while paused and carry on after resuming", async () => {
+      jest.useFakeTimers();
+      try {
+        jest.setSystemTime(new Date("2025-01-01T10:00:00.000Z"));
+        await useTimerStore.getState().startTimer();
+
+        jest.setSystemTime(new Date("2025-01-01T10:05:00.000Z"));
+        useTimerStore.getState().pauseTimer();
+        expect(useTimerStore.getState().getLiveTime()).toBe(20 * 60);
+
+        jest.setSystemTime(new Date("2025-01-01T10:15:00.000Z"));
+        expect(useTimerStore.getState().getLiveTime()).toBe(20 * 60);
+        await useTimerStore.getState().startTimer();
+
+        jest.setSystemTime(new Date("2025-01-01T10:16:00.000Z"));
+        const state = useTimerStore.getState();
+        expect(state.getLiveTime()).toBe(19 * 60);
+        expect(state.originalFocusDuration).toBe(25 * 60);
+        expect(state.sessionEvents.map((e) => e.type)).toEqual([
+          "start",
+          "pause",
+          "resume",
+        ]);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
     it("should cancel timer and reset state", async () => {
       await useTimerStore.getState().startTimer();
       await useTimerStore.getState().cancelTimer();
@@ -273,6 +320,59 @@ describe("Timer Store", () => {
       useTimerStore.getState().toggleNotificationsEnabled();
       expect(useTimerStore.getState().notificationsEnabled).toBe(true);
     });
+
+    it("should store the strategy per normalized task", () => {
+      useTimerStore.getState().setTaskStrategy("  coding", "pomodoro");
+      expect(useTimerStore.getState().taskStrategies).toMatchObject({
+        Coding: "pomodoro",
+      });
+    });
+
+    it("should set overall and per-task goals separately", () => {
+      const { setFocusGoal } = useTimerStore.getState();
+      setFocusGoal("day", 60);
+      setFocusGoal("week", 300, "  coding");
+      setFocusGoal("day", 30, "Coding");
+
+      expect(useTimerStore.getState().focusGoal).toEqual({ day: 60, week: 0 });
+      expect(useTimerStore.getState().taskGoals).toEqual({
+        Coding: { day: 30, week: 300 },
+      });
+    });
+  });
+
+  describe("Undo Delete", () => {
+    it("should offer undo after clearing and restore the trashed batch", async () => {
+      const { restoreTrashBatchInDB } = jest.requireMock(
+        "@/services/sessionService",
+      );
+      useTimerStore.setState({ pendingUndo: null });
+
+      await useTimerStore.getState().clearAllSessions();
+      expect(useTimerStore.getState().pendingUndo).toEqual({
+        message: "All sessions moved to trash",
+        deletedAt: "2025-01-01T10:00:00.000Z",
+      });
+
+      await useTimerStore.getState().undoDelete();
+      expect(restoreTrashBatchInDB).toHaveBeenCalledWith(
+        "2025-01-01T10:00:00.000Z",
+        { halfLifeDays: 21 },
+      );
+      expect(useTimerStore.getState().pendingUndo).toBeNull();
+    });
+
+    it("should relearn with the chosen history half-life", async () => {
+      const { clearAllSessionsFromDB } = jest.requireMock(
+        "@/services/sessionService",
+      );
+      useTimerStore.getState().setHistoryHalfLifeDays(7);
+
+      await useTimerStore.getState().clearAllSessions();
+      expect(clearAllSessionsFromDB).toHaveBeenLastCalledWith({
+        halfLifeDays: 7,
+      });
+    });
   });
 
   describe("Custom Tasks", () => {
@@ -298,6 +398,7 @@ describe("Timer Store", () => {
   describe("Break Flow", () => {
     it("should start break with given duration", async () => {
       useTimerStore.setState({
+        timerPhase: "awaitingBreak",
         taskType: "Coding",
         energyLevel: "high",
         originalFocusDuration: 25 * 60,
@@ -312,6 +413,594 @@ describe("Timer Store", () => {
     });
   });
 
+  describe("Pause and Resume", () => {
+    const START = new Date("2025-01-01T10:00:00.000Z").getTime();
+    const MIN = 60 * 1000;
+    const at = (minutes: number) => jest.setSystemTime(START + minutes * MIN);
+    const store = () => useTimerStore.getState();
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      at(0);
+      jest.clearAllMocks();
+      useTimerStore.setState({
+        taskType: "Coding",
+        energyLevel: "high",
+        time: 25 * 60,
+        initialTime: 25 * 60,
+        recommendedFocusDuration: 25,
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should add up run time over several pauses", async () => {
+      await store().startTimer();
+      at(5);
+      store().pauseTimer();
+      at(7);
+      await store().startTimer();
+      at(10);
+      store().pauseTimer();
+      at(30);
+      await store().startTimer();
+      at(32);
+
+      // 5 + 3 + 2 minutes run, 22 minutes paused
+      expect(store().getLiveTime()).toBe(15 * 60);
+      expect(store().accumulatedMs).toBe(8 * MIN);
+    });
+
+    it("should stay frozen while paused in the background", async () => {
+      await store().startTimer();
+      at(10);
+      store().pauseTimer();
+
+      at(90);
+      store().restoreTimerState(); // App comes back to the foreground
+      expect(store().isActive).toBe(false);
+      expect(store().getLiveTime()).toBe(15 * 60);
+      expect(store().time).toBe(15 * 60);
+    });
+
+    it("should finish focus after the full run time, not the wall-clock time", async () => {
+      await store().startTimer();
+      at(10);
+      store().pauseTimer();
+      at(40);
+      await store().startTimer();
+
+      at(54);
+      store().restoreTimerState();
+      expect(store().isBreakTime).toBe(false);
+      expect(store().time).toBe(60);
+
+      at(55);
+      store().restoreTimerState();
+      expect(store().isBreakTime).toBe(true);
+      expect(store().showBreakModal).toBe(true);
+    });
+
+    it("should pick up where it was after a restart", async () => {
+      await store().startTimer();
+      at(5);
+      store().pauseTimer();
+      at(6);
+      await store().startTimer();
+      const { accumulatedMs, segmentStartedAt, initialTime } = store();
+
+      // A fresh process only has the stored fields and the clock
+      useTimerStore.setState({ time: 0, isActive: false });
+      at(16);
+      useTimerStore.setState({
+        isActive: true,
+        accumulatedMs,
+        segmentStartedAt,
+        initialTime,
+      });
+      store().restoreTimerState();
+      expect(store().time).toBe(10 * 60);
+    });
+
+    it("should reschedule the notification for the time left on resume", async () => {
+      const Notifications = jest.requireMock("expo-notifications");
+      useTimerStore.setState({ notificationsEnabled: true });
+
+      await store().startTimer();
+      at(10);
+      store().pauseTimer();
+      expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith(
+        "mock-notification-id",
+      );
+      expect(store().scheduledNotificationId).toBeNull();
+
+      at(20);
+      await store().startTimer();
+      const { trigger } =
+        Notifications.scheduleNotificationAsync.mock.calls.at(-1)[0];
+      expect(trigger.date.getTime()).toBe(START + 35 * MIN);
+      expect(store().scheduledNotificationId).toBe("mock-notification-id");
+    });
+
+    it("should save only the run time when focus is skipped", async () => {
+      const { completeSession } = jest.requireMock(
+        "@/services/sessionCompletionService",
+      );
+
+      await store().startTimer();
+      at(8);
+      store().pauseTimer();
+      at(20);
+      await store().startTimer();
+      at(22);
+      await store().skipFocusSession(false);
+
+      expect(completeSession).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "skippedFocus", focusedTime: 10 * 60 }),
+      );
+    });
+  });
+
+  describe("Timer Machine", () => {
+    const store = () => useTimerStore.getState();
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it("should become ready once both task and mood are picked", () => {
+      store().setTaskType("Coding");
+      expect(store().timerPhase).toBe("idle");
+
+      store().setEnergyLevel("high");
+      expect(store().timerPhase).toBe("ready");
+
+      store().setTaskType("Writing"); // Clears the mood again
+      expect(store().timerPhase).toBe("idle");
+    });
+
+    it("should ignore pausing, skipping and breaks before focus starts", async () => {
+      const { completeSession } = jest.requireMock(
+        "@/services/sessionCompletionService",
+      );
+
+      store().pauseTimer();
+      await store().skipFocusSession(false);
+      await store().startBreak(5 * 60);
+
+      expect(store().timerPhase).toBe("idle");
+      expect(store().isBreakTime).toBe(false);
+      expect(completeSession).not.toHaveBeenCalled();
+    });
+
+    it("should not pause a break", async () => {
+      useTimerStore.setState({
+        timerPhase: "awaitingBreak",
+        taskType: "Coding",
+        energyLevel: "high",
+      });
+      await store().startBreak(5 * 60);
+      expect(store().timerPhase).toBe("onBreak");
+
+      store().pauseTimer();
+      expect(store().timerPhase).toBe("onBreak");
+      expect(store().isActive).toBe(true);
+    });
+
+    it("should save a finished break only once", async () => {
+      const { completeSession } = jest.requireMock(
+        "@/services/sessionCompletionService",
+      );
+      useTimerStore.setState({
+        timerPhase: "onBreak",
+        isActive: true,
+        isBreakTime: true,
+        taskType: "Coding",
+        energyLevel: "high",
+      });
+
+      await Promise.all([store().completeTimer(), store().completeTimer()]);
+
+      expect(completeSession).toHaveBeenCalledTimes(1);
+      expect(store().timerPhase).toBe("done");
+    });
+
+    it("should walk a whole session through the phases", async () => {
+      useTimerStore.setState({
+        taskType: "Coding",
+        energyLevel: "high",
+        time: 25 * 60,
+        initialTime: 25 * 60,
+      });
+      const phases: string[] = [];
+      const record = () => phases.push(store().timerPhase);
+
+      await store().startTimer();
+      record();
+      store().pauseTimer();
+      record();
+      await store().startTimer();
+      record();
+      await store().completeTimer();
+      record();
+      await store().startBreak(5 * 60);
+      record();
+      await store().completeTimer();
+      record();
+
+      expect(phases).toEqual([
+        "focusing",
+        "paused",
+        "focusing",
+        "awaitingBreak",
+        "onBreak",
+        "done",
+      ]);
+      expect(store().showBreakModal).toBe(false);
+    });
+  });
+
+  describe("Sequences", () => {
+    const START = new Date("2025-01-01T10:00:00.000Z").getTime();
+    const MIN = 60 * 1000;
+    const at = (minutes: number) => jest.setSystemTime(START + minutes * MIN);
+    const store = () => useTimerStore.getState();
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      at(0);
+      jest.clearAllMocks();
+      useTimerStore.setState({
+        taskType: "Coding",
+        energyLevel: "high",
+        time: 25 * 60,
+        initialTime: 25 * 60,
+        recommendedFocusDuration: 25,
+        recommendedBreakDuration: 5,
+        sequenceCycles: 3,
+        longBreakEvery: 2,
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should chain the cycles with a long break every Kth cycle", async () => {
+      const { completeSession } = jest.requireMock(
+        "@/services/sessionCompletionService",
+      );
+      const { getSessionRecommendation } = jest.requireMock(
+        "@/services/sessionPlanner",
+      );
+      // Fatigue shortens the later cycles
+      getSessionRecommendation
+        .mockResolvedValueOnce({ focusDuration: 20, breakDuration: 5 })
+        .mockResolvedValueOnce({ focusDuration: 15, breakDuration: 5 });
+
+      await store().startTimer();
+      expect(store().sequence).toEqual({
+        cycles: 3,
+        longBreakEvery: 2,
+        currentCycle: 1,
+      });
+
+      at(25);
+      await store().completeTimer();
+      expect(store().timerPhase).toBe("onBreak");
+      expect(store().initialTime).toBe(5 * 60);
+
+      at(30);
+      await store().completeTimer();
+      expect(store().timerPhase).toBe("focusing");
+      expect(store().sequence?.currentCycle).toBe(2);
+      expect(store().taskType).toBe("Coding");
+      expect(store().initialTime).toBe(20 * 60);
+
+      at(50);
+      await store().completeTimer();
+      expect(store().initialTime).toBe(15 * 60); // The long break
+
+      at(65);
+      await store().completeTimer();
+      expect(store().sequence?.currentCycle).toBe(3);
+      expect(store().initialTime).toBe(15 * 60);
+
+      at(80);
+      await store().completeTimer();
+      at(85);
+      await store().completeTimer();
+
+      expect(store().sequence).toBeNull();
+      expect(store().timerPhase).toBe("done");
+      expect(completeSession).toHaveBeenCalledTimes(3);
+      expect(completeSession).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "completed", originalFocusDuration: 15 * 60 }),
+      );
+    });
+
+    it("should move on when a break is skipped", async () => {
+      await store().startTimer();
+      at(25);
+      await store().completeTimer();
+      await store().skipFocusSession(true);
+
+      expect(store().timerPhase).toBe("focusing");
+      expect(store().sequence?.currentCycle).toBe(2);
+    });
+
+    it("should end the sequence when focus is skipped or cancelled", async () => {
+      await store().startTimer();
+      at(10);
+      await store().skipFocusSession(false);
+      expect(store().sequence).toBeNull();
+      expect(store().timerPhase).toBe("done");
+
+      useTimerStore.setState({ taskType: "Coding", energyLevel: "high" });
+      await store().startTimer();
+      expect(store().sequence?.currentCycle).toBe(1);
+      await store().cancelTimer();
+      expect(store().sequence).toBeNull();
+    });
+
+    it("should leave single sessions to the break picker", async () => {
+      useTimerStore.setState({ sequenceCycles: 1 });
+      await store().startTimer();
+      at(25);
+      await store().completeTimer();
+
+      expect(store().sequence).toBeNull();
+      expect(store().timerPhase).toBe("awaitingBreak");
+      expect(store().showBreakModal).toBe(true);
+    });
+  });
+
+  describe("Flow Mode", () => {
+    const START = new Date("2025-01-01T10:00:00.000Z").getTime();
+    const MIN = 60 * 1000;
+    const at = (minutes: number) => jest.setSystemTime(START + minutes * MIN);
+    const store = () => useTimerStore.getState();
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      at(0);
+      jest.clearAllMocks();
+      useTimerStore.setState({
+        taskType: "Coding",
+        energyLevel: "high",
+        time: 25 * 60,
+        initialTime: 25 * 60,
+        recommendedFocusDuration: 25,
+        flowMode: true,
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should count up past the target and save the extra minutes", async () => {
+      const { completeSession } = jest.requireMock(
+        "@/services/sessionCompletionService",
+      );
+      await store().startTimer();
+
+      at(25);
+      store().restoreTimerState();
+      expect(store().timerPhase).toBe("overtime");
+      expect(store().isActive).toBe(true);
+
+      at(32);
+      store().restoreTimerState();
+      expect(store().time).toBe(7 * 60);
+
+      await store().completeTimer();
+      expect(store().timerPhase).toBe("awaitingBreak");
+      expect(store().overtimeSeconds).toBe(7 * 60);
+
+      await store().startBreak(5 * 60);
+      at(37);
+      await store().completeTimer();
+
+      expect(completeSession).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "completed",
+          originalFocusDuration: 25 * 60,
+          focusedTime: 32 * 60,
+        }),
+      );
+    });
+
+    it("should only let overtime be finished", async () => {
+      const { completeSession } = jest.requireMock(
+        "@/services/sessionCompletionService",
+      );
+      await store().startTimer();
+      at(30);
+      store().restoreTimerState();
+
+      store().pauseTimer();
+      await store().cancelTimer();
+      await store().skipFocusSession();
+      expect(store().timerPhase).toBe("overtime");
+      expect(completeSession).not.toHaveBeenCalled();
+    });
+
+    it("should end a forgotten session at the overtime cap", async () => {
+      await store().startTimer();
+      at(25);
+      store().restoreTimerState();
+
+      at(25 + 3 * 60);
+      store().restoreTimerState();
+      await Promise.resolve();
+
+      expect(store().timerPhase).toBe("awaitingBreak");
+      expect(store().overtimeSeconds).toBe(MAX_OVERTIME);
+      expect(store().sessionEvents.at(-1)).toEqual({
+        type: "complete",
+        timestamp: new Date(START + 25 * MIN + MAX_OVERTIME * 1000).toISOString(),
+      });
+    });
+
+    it("should stop at the target when flow mode is off", async () => {
+      useTimerStore.setState({ flowMode: false });
+      await store().startTimer();
+      at(30);
+      store().restoreTimerState();
+      await Promise.resolve();
+
+      expect(store().timerPhase).toBe("awaitingBreak");
+      expect(store().overtimeSeconds).toBe(0);
+    });
+  });
+
+  describe("Restoring After a Restart", () => {
+    const START = new Date("2025-01-01T10:00:00.000Z").getTime();
+    const MIN = 60 * 1000;
+    const at = (minutes: number) => jest.setSystemTime(START + minutes * MIN);
+    const store = () => useTimerStore.getState();
+
+    // What the persist middleware would write right now
+    const persisted = () => useTimerStore.persist.getOptions().partialize!(store());
+
+    // Kill the app: wipe the in-memory session, then load what was stored
+    const relaunch = async (stored: unknown) => {
+      const AsyncStorage = jest.requireMock(
+        "@react-native-async-storage/async-storage",
+      ).default;
+      useTimerStore.setState({
+        timerPhase: "idle",
+        isActive: false,
+        isBreakTime: false,
+        taskType: "",
+        energyLevel: "",
+        accumulatedMs: 0,
+        segmentStartedAt: undefined,
+        pausedAt: undefined,
+        sessionEvents: [],
+      });
+      AsyncStorage.getItem.mockResolvedValueOnce(
+        JSON.stringify({ state: stored, version: 0 }),
+      );
+      await useTimerStore.persist.rehydrate();
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      at(0);
+      jest.clearAllMocks();
+      useTimerStore.setState({
+        taskType: "Coding",
+        energyLevel: "high",
+        time: 25 * 60,
+        initialTime: 25 * 60,
+        recommendedFocusDuration: 25,
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should only persist a session while one is in progress", async () => {
+      expect(persisted()).toMatchObject({ activeSession: null });
+
+      await store().startTimer();
+      expect(persisted()).toMatchObject({
+        activeSession: {
+          isActive: true,
+          taskType: "Coding",
+          energyLevel: "high",
+          sessionStartTimestamp: START,
+        },
+      });
+    });
+
+    it("should resume a running focus session", async () => {
+      await store().startTimer();
+      at(5);
+      store().pauseTimer();
+      at(6);
+      await store().startTimer();
+      const stored = persisted();
+
+      at(16);
+      await relaunch(stored);
+
+      expect(store().isActive).toBe(true);
+      expect(store().taskType).toBe("Coding");
+      expect(store().energyLevel).toBe("high");
+      expect(store().time).toBe(10 * 60);
+      expect(store().sessionEvents.map((e) => e.type)).toEqual([
+        "start",
+        "pause",
+        "resume",
+      ]);
+    });
+
+    it("should keep a paused session paused", async () => {
+      await store().startTimer();
+      at(10);
+      store().pauseTimer();
+      const stored = persisted();
+
+      at(120);
+      await relaunch(stored);
+
+      expect(store().isActive).toBe(false);
+      expect(store().pausedAt).toBe(START + 10 * MIN);
+      expect(store().getLiveTime()).toBe(15 * 60);
+    });
+
+    it("should offer the break when focus ended while the app was closed", async () => {
+      await store().startTimer();
+      const stored = persisted();
+
+      at(40);
+      await relaunch(stored);
+
+      expect(store().isBreakTime).toBe(true);
+      expect(store().showBreakModal).toBe(true);
+      expect(store().sessionEvents.at(-1)).toEqual({
+        type: "complete",
+        timestamp: new Date(START + 25 * MIN).toISOString(),
+      });
+    });
+
+    it("should save a break that ended while the app was closed as completed", async () => {
+      const { completeSession } = jest.requireMock(
+        "@/services/sessionCompletionService",
+      );
+      useTimerStore.setState({
+        timerPhase: "onBreak",
+        isActive: true,
+        isBreakTime: true,
+        time: 5 * 60,
+        initialTime: 5 * 60,
+        originalFocusDuration: 25 * 60,
+        selectedBreakDuration: 5 * 60,
+        accumulatedMs: 0,
+        segmentStartedAt: START + 25 * MIN,
+      });
+      const stored = persisted();
+
+      at(90);
+      await relaunch(stored);
+
+      expect(completeSession).toHaveBeenCalledTimes(1);
+      expect(completeSession).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "completed",
+          taskType: "Coding",
+          endedAt: new Date(START + 30 * MIN),
+        }),
+      );
+    });
+  });
+
   describe("getLiveTime", () => {
     it("should return initialTime when timer is not active", () => {
       useTimerStore.setState({ initialTime: 25 * 60, isActive: false });
@@ -323,7 +1012,7 @@ describe("Timer Store", () => {
       useTimerStore.setState({
         initialTime: 25 * 60,
         isActive: true,
-        sessionStartTimestamp: now - 5000, // 5 seconds ago
+        segmentStartedAt: now - 5000, // 5 seconds ago
       });
 
       const liveTime = useTimerStore.getState().getLiveTime();
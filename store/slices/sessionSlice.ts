@@ -2,21 +2,36 @@
  * Session Slice
  *
  * Manages the state of focus sessions loaded from the database
- * and provides actions to refresh or clear the session history.
+ * and provides actions to refresh, edit or clear the session history.
+ * Deletes go to the trash and can be undone until the trash is purged.
  */
+import { getHistoryDecay } from "@/services/adaptiveEngine";
 import {
     clearAllSessionsFromDB,
+    deleteSessionForever,
+    emptyTrashInDB,
     loadSessionsFromDB,
+    logManualSession,
+    loadTrashFromDB,
+    purgeExpiredTrash,
+    restoreSessionFromTrash,
+    restoreTrashBatchInDB,
+    trashSessionInDB,
+    updateSessionInDB,
     updateSessionNoteInDB,
 } from "@/services/sessionService";
 import { Session } from "@/types";
-import { SessionSlice, SliceCreator } from "./sliceTypes";
+import { SessionSlice, SliceCreator, TimerStoreState } from "./sliceTypes";
+
+// Edits, deletes and restores relearn with the user's chosen half-life
+const historyDecay = (get: () => TimerStoreState) =>
+  getHistoryDecay(get().historyHalfLifeDays);
 
 export const createSessionSlice: SliceCreator<SessionSlice> = (set, get) => ({
   sessions: [] as Session[],
+  trashedSessions: [] as Session[],
+  pendingUndo: null,
   isLoading: false,
-  hasSavedSession: false,
-  sessionJustCompleted: false,
 
   loadSessions: async () => {
     set({ isLoading: true });
@@ -29,11 +44,23 @@ export const createSessionSlice: SliceCreator<SessionSlice> = (set, get) => ({
     }
   },
 
+  addSession: (session) =>
+    set({
+      // Newest first, like the database; manual sessions may be backdated
+      sessions: [session, ...get().sessions].sort((a, b) =>
+        b.createdAt.localeCompare(a.createdAt),
+      ),
+    }),
+
   clearAllSessions: async () => {
     set({ isLoading: true });
     try {
-      await clearAllSessionsFromDB();
-      set({ sessions: [], isLoading: false });
+      const deletedAt = await clearAllSessionsFromDB(historyDecay(get));
+      set({
+        sessions: [],
+        isLoading: false,
+        pendingUndo: { message: "All sessions moved to trash", deletedAt },
+      });
     } catch (error) {
       console.error("Failed to clear sessions:", error);
       set({ isLoading: false });
@@ -54,5 +81,101 @@ export const createSessionSlice: SliceCreator<SessionSlice> = (set, get) => ({
     }
   },
 
-  setHasSavedSession: (val) => set({ hasSavedSession: val }),
+  updateSession: async (id, changes) => {
+    try {
+      await updateSessionInDB(id, changes, historyDecay(get));
+      const currentSessions = get().sessions;
+      set({
+        sessions: currentSessions.map((s) =>
+          s.id === id ? { ...s, ...changes } : s,
+        ),
+      });
+    } catch (error) {
+      console.error("Failed to update session:", error);
+    }
+  },
+
+  deleteSession: async (id) => {
+    try {
+      const deletedAt = await trashSessionInDB(id, historyDecay(get));
+      set({
+        sessions: get().sessions.filter((s) => s.id !== id),
+        pendingUndo: { message: "Session deleted", deletedAt },
+      });
+    } catch (error) {
+      console.error("Failed to delete session:", error);
+    }
+  },
+
+  logManualSession: async (input) => {
+    try {
+      get().addSession(await logManualSession(input, historyDecay(get)));
+      return true;
+    } catch (error) {
+      console.error("Failed to log manual session:", error);
+      return false;
+    }
+  },
+
+  undoDelete: async () => {
+    const { pendingUndo } = get();
+    if (!pendingUndo) return;
+    set({ pendingUndo: null });
+    try {
+      await restoreTrashBatchInDB(pendingUndo.deletedAt, historyDecay(get));
+      await get().loadSessions();
+    } catch (error) {
+      console.error("Failed to undo delete:", error);
+    }
+  },
+
+  dismissUndo: () => set({ pendingUndo: null }),
+
+  loadTrash: async () => {
+    try {
+      set({ trashedSessions: await loadTrashFromDB() });
+    } catch (error) {
+      console.error("Failed to load trash:", error);
+    }
+  },
+
+  restoreFromTrash: async (id) => {
+    try {
+      await restoreSessionFromTrash(id, historyDecay(get));
+      set({
+        trashedSessions: get().trashedSessions.filter((s) => s.id !== id),
+      });
+      await get().loadSessions();
+    } catch (error) {
+      console.error("Failed to restore session:", error);
+    }
+  },
+
+  deleteForever: async (id) => {
+    try {
+      await deleteSessionForever(id);
+      set({
+        trashedSessions: get().trashedSessions.filter((s) => s.id !== id),
+      });
+    } catch (error) {
+      console.error("Failed to delete session permanently:", error);
+    }
+  },
+
+  emptyTrash: async () => {
+    try {
+      await emptyTrashInDB();
+      set({ trashedSessions: [], pendingUndo: null });
+    } catch (error) {
+      console.error("Failed to empty trash:", error);
+    }
+  },
+
+  purgeExpiredTrash: async () => {
+    try {
+      await purgeExpiredTrash(get().trashRetentionDays);
+    } catch (error) {
+      console.error("Failed to purge trash:", error);
+    }
+  },
 });
@@ -1,47 +1,91 @@
-import { EnergyLevel, Session } from "@/types";
+import type {
+  CoachPreset,
+  CoachRule,
+  CoachRuleToggles,
+  RecommendationTrace,
+} from "@/services/adaptiveEngine";
+import type { ManualSessionInput } from "@/services/sessionService";
+import type { StrategyId } from "@/services/strategies";
+import { EnergyLevel, Session, SessionEvent } from "@/types";
+import type { FocusGoal, GoalPeriod } from "@/utils/goals";
+import type { TimerPhase } from "./timerMachine";
 
 // Define the state shape for each slice
 // These interfaces are effectively subsets of the main TimerState
 // but defined explicitly for better type safety in slices
 
+// Focus/break cycles run back to back
+export interface TimerSequence {
+  cycles: number;
+  longBreakEvery: number; // Every Kth break is a long one
+  currentCycle: number; // 1-based
+}
+
 export interface TimerSlice {
   // State
+  timerPhase: TimerPhase; // Drives the flags below; see timerMachine.ts
   isActive: boolean;
   isBreakTime: boolean;
-  time: number;
+  time: number; // Seconds left; seconds past the target in overtime
   initialTime: number;
   focusSessionDuration: number;
   sessionStartTimestamp?: number;
+  accumulatedMs: number; // Run time of the phase's finished segments
+  segmentStartedAt?: number; // Start of the running segment; unset while paused
   scheduledNotificationId: string | null;
   originalFocusDuration: number;
   selectedBreakDuration: number;
+  pausedAt?: number; // Set while the timer is paused
+  sessionEvents: SessionEvent[]; // Timeline of the session in progress
+  sequence: TimerSequence | null; // Set while a sequence is running
+  overtimeSeconds: number; // Focus past the target, once flow mode finishes it
 
   // Actions
+  prepareTimer: () => void;
   startTimer: () => Promise<void> | void;
   pauseTimer: () => void;
   cancelTimer: () => Promise<void> | void;
   skipTimer: () => void;
-  completeTimer: () => void;
+  completeTimer: (endedAt?: number) => void;
   skipFocusSession: (isSkippingBreak?: boolean) => Promise<void>;
-  startBreak: (duration: number) => void;
+  startBreak: (duration: number) => Promise<void> | void;
   adjustTime: (direction: "up" | "down") => void;
   setTime: (duration: number) => void;
   getLiveTime: () => number;
   restoreTimerState: () => void;
 }
 
+// Fields of a saved session the user can correct
+export type SessionEdit = Partial<Omit<Session, "id" | "createdAt">>;
+
+// A delete that can still be undone from the snackbar
+export interface PendingUndo {
+  message: string;
+  deletedAt: string; // Trash batch to restore
+}
+
 export interface SessionSlice {
   // State
   sessions: Session[];
+  trashedSessions: Session[];
+  pendingUndo: PendingUndo | null;
   isLoading: boolean;
-  hasSavedSession: boolean;
-  sessionJustCompleted: boolean;
 
   // Actions
   loadSessions: () => Promise<void>;
+  addSession: (session: Session) => void;
   clearAllSessions: () => Promise<void>;
   updateSessionNote: (id: number, note: string) => Promise<void>;
-  setHasSavedSession: (val: boolean) => void;
+  updateSession: (id: number, changes: SessionEdit) => Promise<void>;
+  deleteSession: (id: number) => Promise<void>;
+  logManualSession: (input: ManualSessionInput) => Promise<boolean>;
+  undoDelete: () => Promise<void>;
+  dismissUndo: () => void;
+  loadTrash: () => Promise<void>;
+  restoreFromTrash: (id: number) => Promise<void>;
+  deleteForever: (id: number) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  purgeExpiredTrash: () => Promise<void>;
 }
 
 export interface TaskSlice {
@@ -50,6 +94,8 @@ export interface TaskSlice {
   energyLevel: EnergyLevel;
   recommendedFocusDuration: number;
   recommendedBreakDuration: number;
+  recommendationTrace: RecommendationTrace | null; // Why the coach chose recommendedFocusDuration
+  recommendationStrategy: StrategyId; // Strategy that produced the recommendation
   userAcceptedRecommendation: boolean;
 
   // Actions
@@ -84,6 +130,18 @@ export interface UISlice {
   includeShortSessions: boolean;
   dynamicFocusArms: number[];
   notificationsEnabled: boolean;
+  coachPreset: CoachPreset;
+  coachRules: CoachRuleToggles;
+  taskStrategies: Record<string, StrategyId>; // Keyed by normalized task; missing = adaptive
+  timeOfDayAware: boolean; // Let the coach learn periods of the day separately
+  historyHalfLifeDays: number; // A session's weight in the coach halves after this long
+  trashRetentionDays: number; // Trashed sessions are purged after this long
+  includeManualSessions: boolean; // Count logged-after-the-fact sessions in stats
+  sequenceCycles: number; // Cycles per sequence; 1 = single sessions
+  flowMode: boolean; // Keep counting past the focus target until the user stops
+  longBreakEvery: number;
+  focusGoal: FocusGoal; // Overall daily/weekly focus minutes
+  taskGoals: Record<string, FocusGoal>; // Keyed by normalized task; missing = no goal
 
   themedAlert: {
     title?: string;
@@ -102,6 +160,17 @@ export interface UISlice {
   toggleHasDismissedRecommendationCard: () => void;
   toggleIncludeShortSessions: () => void;
   toggleNotificationsEnabled: () => void;
+  setCoachPreset: (preset: CoachPreset) => void;
+  toggleCoachRule: (rule: CoachRule) => void;
+  setTaskStrategy: (task: string, strategy: StrategyId) => void;
+  toggleTimeOfDayAware: () => void;
+  setHistoryHalfLifeDays: (days: number) => void;
+  setTrashRetentionDays: (days: number) => void;
+  toggleIncludeManualSessions: () => void;
+  setSequenceCycles: (cycles: number) => void;
+  setLongBreakEvery: (cycles: number) => void;
+  toggleFlowMode: () => void;
+  setFocusGoal: (period: GoalPeriod, minutes: number, task?: string) => void;
   addDynamicFocusArm: (arm: number) => void;
   migrateTasks: () => void;
   showThemedAlert: (
@@ -116,6 +185,37 @@ export interface UISlice {
 // Combined store state
 export type TimerStoreState = TimerSlice & SessionSlice & TaskSlice & UISlice;
 
+// The session in progress, persisted so it survives the app being killed
+export type TimerSnapshot = Pick<
+  TimerStoreState,
+  | "timerPhase"
+  | "isActive"
+  | "isBreakTime"
+  | "time"
+  | "initialTime"
+  | "focusSessionDuration"
+  | "sessionStartTimestamp"
+  | "accumulatedMs"
+  | "segmentStartedAt"
+  | "scheduledNotificationId"
+  | "originalFocusDuration"
+  | "selectedBreakDuration"
+  | "pausedAt"
+  | "sessionEvents"
+  | "sequence"
+  | "overtimeSeconds"
+  | "taskType"
+  | "energyLevel"
+  | "recommendedFocusDuration"
+  | "recommendedBreakDuration"
+  | "userAcceptedRecommendation"
+  | "showCancel"
+  | "showSkip"
+  | "showBreakModal"
+  | "hasInteractedWithTimer"
+  | "hasDismissedRecommendationCard"
+>;
+
 // Slice creator type
 export type SliceCreator<T> = (
   set: (
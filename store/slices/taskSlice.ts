@@ -5,7 +5,18 @@
  * smart recommendations based on the current context.
  */
 import { DEFAULT_TASKS } from "@/constants/timer";
+import {
+  CoachConfig,
+  getCoachConfig,
+  getHistoryDecay,
+  HistoryDecayConfig,
+} from "@/services/adaptiveEngine";
 import { getSessionRecommendation } from "@/services/sessionPlanner";
+import {
+  DEFAULT_STRATEGY,
+  getTaskStrategy,
+  StrategyId,
+} from "@/services/strategies";
 import { EnergyLevel } from "@/types";
 import { updateRecommendations } from "@/utils/sessionUtils";
 import { normalizeTask } from "@/utils/task";
@@ -28,12 +39,17 @@ const fetchAndApplyRecommendation = async (
   taskType: string,
   dynamicFocusArms: number[],
   includeShortSessions: boolean,
+  coachConfig: CoachConfig,
+  strategyId: StrategyId,
+  timeOfDayAware: boolean,
+  historyDecay: HistoryDecayConfig,
 ) => {
   if (!energyLevel || !taskType) {
     // Fallback if missing context
     set({
       recommendedFocusDuration: DEFAULT_RECOMMENDATION.focusDuration,
       recommendedBreakDuration: DEFAULT_RECOMMENDATION.breakDuration,
+      recommendationTrace: null,
       time: DEFAULT_RECOMMENDATION.focusDuration * 60,
       initialTime: DEFAULT_RECOMMENDATION.focusDuration * 60,
       userAcceptedRecommendation: false,
@@ -42,16 +58,23 @@ const fetchAndApplyRecommendation = async (
   }
 
   try {
-    const { focusDuration, breakDuration } = await getSessionRecommendation(
-      energyLevel,
-      taskType,
-      dynamicFocusArms,
-      includeShortSessions,
-    );
+    const { focusDuration, breakDuration, trace, strategy } =
+      await getSessionRecommendation(
+        energyLevel,
+        taskType,
+        dynamicFocusArms,
+        includeShortSessions,
+        coachConfig,
+        strategyId,
+        timeOfDayAware,
+        historyDecay,
+      );
 
     set({
       recommendedFocusDuration: focusDuration,
       recommendedBreakDuration: breakDuration,
+      recommendationTrace: trace,
+      recommendationStrategy: strategy,
       time: focusDuration * 60,
       initialTime: focusDuration * 60,
       userAcceptedRecommendation: false,
@@ -64,6 +87,7 @@ const fetchAndApplyRecommendation = async (
     set({
       recommendedFocusDuration: DEFAULT_RECOMMENDATION.focusDuration,
       recommendedBreakDuration: DEFAULT_RECOMMENDATION.breakDuration,
+      recommendationTrace: null,
       time: DEFAULT_RECOMMENDATION.focusDuration * 60,
       initialTime: DEFAULT_RECOMMENDATION.focusDuration * 60,
     });
@@ -76,6 +100,8 @@ export const createTaskSlice: SliceCreator<TaskSlice> = (set, get) => ({
   energyLevel: "",
   recommendedFocusDuration: DEFAULT_RECOMMENDATION.focusDuration,
   recommendedBreakDuration: DEFAULT_RECOMMENDATION.breakDuration,
+  recommendationTrace: null,
+  recommendationStrategy: DEFAULT_STRATEGY,
   userAcceptedRecommendation: false,
 
   // Actions
@@ -85,12 +111,14 @@ export const createTaskSlice: SliceCreator<TaskSlice> = (set, get) => ({
       energyLevel: "", // Reset energy level on task change
       recommendedFocusDuration: DEFAULT_RECOMMENDATION.focusDuration,
       recommendedBreakDuration: DEFAULT_RECOMMENDATION.breakDuration,
+      recommendationTrace: null,
       time: 0, // Clear the timer time
       initialTime: 0,
       showTaskModal: false,
       hasInteractedWithTimer: false,
       userAcceptedRecommendation: false,
     });
+    get().prepareTimer();
   },
 
   setEnergyLevel: (level) => {
@@ -99,12 +127,18 @@ export const createTaskSlice: SliceCreator<TaskSlice> = (set, get) => ({
       taskType,
       dynamicFocusArms,
       includeShortSessions,
+      coachPreset,
+      coachRules,
+      taskStrategies,
+      timeOfDayAware,
+      historyHalfLifeDays,
     } = get();
 
     // If clicking same mood for fun, don't update anything
     if (level === currentLevel) return;
 
     set({ energyLevel: level });
+    get().prepareTimer();
 
     if (level && taskType) {
       updateRecommendations(
@@ -113,11 +147,16 @@ export const createTaskSlice: SliceCreator<TaskSlice> = (set, get) => ({
         set,
         dynamicFocusArms,
         includeShortSessions,
+        getCoachConfig(coachPreset, coachRules),
+        getTaskStrategy(taskStrategies, taskType),
+        timeOfDayAware,
+        getHistoryDecay(historyHalfLifeDays),
       );
     } else if (level) {
       set({
         recommendedFocusDuration: DEFAULT_RECOMMENDATION.focusDuration,
         recommendedBreakDuration: DEFAULT_RECOMMENDATION.breakDuration,
+        recommendationTrace: null,
         time: DEFAULT_RECOMMENDATION.focusDuration * 60,
         initialTime: DEFAULT_RECOMMENDATION.focusDuration * 60,
         userAcceptedRecommendation: false,
@@ -147,8 +186,18 @@ export const createTaskSlice: SliceCreator<TaskSlice> = (set, get) => ({
     } else {
       set({ taskType: normalized, showTaskModal: false });
     }
+    get().prepareTimer();
 
-    const { energyLevel, dynamicFocusArms, includeShortSessions } = get();
+    const {
+      energyLevel,
+      dynamicFocusArms,
+      includeShortSessions,
+      coachPreset,
+      coachRules,
+      taskStrategies,
+      timeOfDayAware,
+      historyHalfLifeDays,
+    } = get();
     // This action sets userAcceptedRecommendation = TRUE
     fetchAndApplyRecommendation(
       get,
@@ -157,6 +206,10 @@ export const createTaskSlice: SliceCreator<TaskSlice> = (set, get) => ({
       normalized,
       dynamicFocusArms,
       includeShortSessions,
+      getCoachConfig(coachPreset, coachRules),
+      getTaskStrategy(taskStrategies, normalized),
+      timeOfDayAware,
+      getHistoryDecay(historyHalfLifeDays),
     );
   },
 
@@ -168,8 +221,17 @@ export const createTaskSlice: SliceCreator<TaskSlice> = (set, get) => ({
     })),
 
   resetTimer: () => {
-    const { energyLevel, taskType, dynamicFocusArms, includeShortSessions } =
-      get();
+    const {
+      energyLevel,
+      taskType,
+      dynamicFocusArms,
+      includeShortSessions,
+      coachPreset,
+      coachRules,
+      taskStrategies,
+      timeOfDayAware,
+      historyHalfLifeDays,
+    } = get();
 
     // This action sets userAcceptedRecommendation = TRUE
     fetchAndApplyRecommendation(
@@ -179,21 +241,21 @@ export const createTaskSlice: SliceCreator<TaskSlice> = (set, get) => ({
       taskType,
       dynamicFocusArms,
       includeShortSessions,
+      getCoachConfig(coachPreset, coachRules),
+      getTaskStrategy(taskStrategies, taskType),
+      timeOfDayAware,
+      getHistoryDecay(historyHalfLifeDays),
     );
 
     // Reset UI flags
     set({
-      isActive: false,
-      isBreakTime: false,
       showTimeAdjust: false,
       showCancel: false,
       showSkip: false,
       showTaskModal: false,
-      showBreakModal: false,
       showSkipConfirm: false,
       userAcceptedRecommendation: false, // Also set by helper, but ensuring strict compliance
       originalFocusDuration: 0,
-      hasSavedSession: false,
     });
   },
 
@@ -0,0 +1,105 @@
+/**
+ * Timer Machine
+ *
+ * The phases a session goes through and the events that move it between
+ * them. The timer slice asks here before acting, so an event that makes
+ * no sense in the current phase (pausing an idle timer, finishing a break
+ * twice) is rejected instead of corrupting state.
+ *
+ *   idle ⇄ ready → focusing ⇄ paused
+ *                     ↓      ↘
+ *                     ↓        overtime (flow mode)
+ *                     ↓      ↙
+ *              awaiting-break → on-break → done
+ *
+ * Focus can also be skipped (→ done) or cancelled (→ idle); a break can be
+ * skipped from its picker or while it runs (→ done).
+ *
+ * Some moves are left out on purpose. Overtime can only be finished: its
+ * target is already met, so skipping would under-record the focus and
+ * cancelling would throw it away. Breaks run straight through, with no
+ * pause, so a break can't be left on hold and stretch the session.
+ */
+
+export type TimerPhase =
+  | "idle" // Task or mood not picked yet
+  | "ready" // Picked, waiting for start
+  | "focusing"
+  | "paused" // Focus on hold
+  | "overtime" // Flow mode: target reached, still counting up
+  | "awaitingBreak" // Focus finished, break picker showing
+  | "onBreak"
+  | "done"; // Session saved
+
+export type TimerEvent =
+  | "prepare" // Task and mood picked
+  | "unprepare" // Selection cleared
+  | "start"
+  | "pause"
+  | "resume"
+  | "reachTarget" // Flow mode keeps focus going past the target
+  | "finishFocus"
+  | "startBreak"
+  | "skipBreak" // "No break" in the picker
+  | "finishBreak"
+  | "skip" // Skip focus or the running break
+  | "cancel";
+
+const TRANSITIONS: Record<
+  TimerPhase,
+  Partial<Record<TimerEvent, TimerPhase>>
+> = {
+  idle: { prepare: "ready" },
+  ready: { unprepare: "idle", start: "focusing", cancel: "idle" },
+  focusing: {
+    pause: "paused",
+    reachTarget: "overtime",
+    finishFocus: "awaitingBreak",
+    skip: "done",
+    cancel: "idle",
+  },
+  paused: { resume: "focusing", skip: "done", cancel: "idle" },
+  overtime: { finishFocus: "awaitingBreak" },
+  awaitingBreak: { startBreak: "onBreak", skipBreak: "done" },
+  onBreak: { finishBreak: "done", skip: "done" },
+  done: { prepare: "ready" },
+};
+
+/**
+ * Phase after `event`, or null if the event isn't allowed in `phase`.
+ */
+export function nextPhase(
+  phase: TimerPhase,
+  event: TimerEvent,
+): TimerPhase | null {
+  return TRANSITIONS[phase][event] ?? null;
+}
+
+export function canTransition(phase: TimerPhase, event: TimerEvent): boolean {
+  return nextPhase(phase, event) !== null;
+}
+
+/**
+ * Whether a session has started and not yet been saved or cancelled.
+ */
+export function isSessionInProgress(phase: TimerPhase): boolean {
+  return (
+    phase === "focusing" ||
+    phase === "paused" ||
+    phase === "overtime" ||
+    phase === "awaitingBreak" ||
+    phase === "onBreak"
+  );
+}
+
+/**
+ * The store flags screens read, as implied by a phase.
+ */
+export function getPhaseFlags(phase: TimerPhase) {
+  return {
+    isActive:
+      phase === "focusing" || phase === "overtime" || phase === "onBreak",
+    isBreakTime: phase === "awaitingBreak" || phase === "onBreak",
+    showBreakModal: phase === "awaitingBreak",
+  };
+}
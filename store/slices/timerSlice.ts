@@ -2,32 +2,238 @@
  * Timer Slice
  *
  * Manages the core timer logic, including starting, pausing, canceling,
- * and completing focus and break sessions.
+ * and completing focus and break sessions. Every action is a transition of
+ * the machine in timerMachine.ts and does nothing if the current phase
+ * doesn't allow it.
+ *
+ * A phase's run time is the time accumulated over finished segments plus
+ * the segment running now (if any). Pausing folds the running segment into
+ * the total; resuming opens a new one. Remaining time is always derived
+ * from those and the wall clock, never counted down in memory.
+ *
+ * In flow mode focus doesn't stop at its target: the timer counts up in
+ * overtime until the user finishes, and the extra minutes count as focus.
+ *
+ * In sequence mode the cycles chain on their own: a finished focus starts
+ * its break, and a finished break starts the next cycle's focus.
+ *
+ * That also makes a session in progress safe to persist: the snapshot is
+ * written with the preferences and, on launch, restoreTimerState picks it
+ * up, finishing any phase that ran out while the app was closed.
  */
 import {
+    LONG_BREAK_MULTIPLIER,
+    MAX_OVERTIME,
     MIN_SESSION_FOR_SAVE,
     TIME_ADJUSTMENT_STEP,
     TIMER_CONSTANTS,
 } from "@/constants/timer";
-import { getBreakRecommendation } from "@/services/adaptiveEngine";
+import {
+    getBreakRecommendation,
+    getCoachConfig,
+    getHistoryDecay,
+} from "@/services/adaptiveEngine";
 import {
     completeSession,
     CompletionType,
 } from "@/services/sessionCompletionService";
-import { EnergyLevel } from "@/types";
+import { getStrategy, getTaskStrategy } from "@/services/strategies";
+import { EnergyLevel, SessionEvent, SessionEventType } from "@/types";
 import {
     cancelScheduledNotification,
     resetTimerState,
     scheduleTimerNotification,
+    updateRecommendations,
 } from "@/utils/sessionUtils";
 import { Vibration } from "react-native";
-import { SliceCreator, TimerSlice } from "./sliceTypes";
+import {
+    SliceCreator,
+    TimerSlice,
+    TimerSnapshot,
+    TimerStoreState,
+} from "./sliceTypes";
+import {
+    canTransition,
+    getPhaseFlags,
+    isSessionInProgress,
+    nextPhase,
+    TimerEvent,
+} from "./timerMachine";
 
 const SPEED_FACTOR = 1;
 
+/**
+ * Move the machine along, updating the flags screens read. Returns false,
+ * leaving the state alone, if `event` isn't allowed in the current phase.
+ */
+const transition = (get: any, set: any, event: TimerEvent): boolean => {
+  const phase = get().timerPhase;
+  const next = nextPhase(phase, event);
+  if (!next) {
+    console.warn(`[TimerMachine] Ignoring "${event}" while ${phase}`);
+    return false;
+  }
+  set({ timerPhase: next, ...getPhaseFlags(next) });
+  return true;
+};
+
+const sessionEvent = (
+  type: SessionEventType,
+  at: number = Date.now(),
+): SessionEvent => ({
+  type,
+  timestamp: new Date(at).toISOString(),
+});
+
+/**
+ * Seconds the current phase has run: the segments before the last pause
+ * plus the one running now. Wall-clock based, so it stays right across
+ * backgrounding and restarts.
+ */
+const getElapsedSeconds = (
+  state: Pick<TimerSlice, "accumulatedMs" | "segmentStartedAt">,
+  now: number = Date.now(),
+): number => {
+  const running =
+    state.segmentStartedAt !== undefined ? now - state.segmentStartedAt : 0;
+  return Math.floor((state.accumulatedMs + running) / 1000) * SPEED_FACTOR;
+};
+
+/**
+ * The session in progress, or null when the timer is idle. Persisted so
+ * a session outlives the app process.
+ */
+export const getTimerSnapshot = (
+  state: TimerStoreState,
+): TimerSnapshot | null => {
+  if (!isSessionInProgress(state.timerPhase)) return null;
+
+  return {
+    timerPhase: state.timerPhase,
+    isActive: state.isActive,
+    isBreakTime: state.isBreakTime,
+    time: state.time,
+    initialTime: state.initialTime,
+    focusSessionDuration: state.focusSessionDuration,
+    sessionStartTimestamp: state.sessionStartTimestamp,
+    accumulatedMs: state.accumulatedMs,
+    segmentStartedAt: state.segmentStartedAt,
+    scheduledNotificationId: state.scheduledNotificationId,
+    originalFocusDuration: state.originalFocusDuration,
+    selectedBreakDuration: state.selectedBreakDuration,
+    pausedAt: state.pausedAt,
+    sessionEvents: state.sessionEvents,
+    sequence: state.sequence,
+    overtimeSeconds: state.overtimeSeconds,
+    taskType: state.taskType,
+    energyLevel: state.energyLevel,
+    recommendedFocusDuration: state.recommendedFocusDuration,
+    recommendedBreakDuration: state.recommendedBreakDuration,
+    userAcceptedRecommendation: state.userAcceptedRecommendation,
+    showCancel: state.showCancel,
+    showSkip: state.showSkip,
+    showBreakModal: state.showBreakModal,
+    hasInteractedWithTimer: state.hasInteractedWithTimer,
+    hasDismissedRecommendationCard: state.hasDismissedRecommendationCard,
+  };
+};
+
+/**
+ * Start the clock on a focus or break phase that has just been entered,
+ * with a notification for when it runs out.
+ */
+const startClock = async (
+  get: any,
+  set: any,
+  duration: number,
+  isBreak: boolean,
+) => {
+  const { notificationsEnabled, scheduledNotificationId } = get();
+  await cancelScheduledNotification(scheduledNotificationId);
+
+  let newNotificationId: string | null = null;
+  if (notificationsEnabled) {
+    newNotificationId = await scheduleTimerNotification(
+      Math.ceil(duration / SPEED_FACTOR),
+      isBreak,
+    );
+  }
+
+  set({
+    showCancel: !isBreak,
+    showSkip: isBreak,
+    time: duration,
+    initialTime: duration,
+    accumulatedMs: 0,
+    segmentStartedAt: Date.now(),
+    pausedAt: undefined,
+    scheduledNotificationId: newNotificationId,
+  });
+};
+
+/**
+ * Length of the break closing the current sequence cycle, in seconds.
+ * Every longBreakEvery-th break is the long one.
+ */
+const getSequenceBreak = (state: TimerStoreState): number => {
+  const { sequence, recommendedBreakDuration } = state;
+  const isLong =
+    sequence !== null && sequence.currentCycle % sequence.longBreakEvery === 0;
+  return recommendedBreakDuration * 60 * (isLong ? LONG_BREAK_MULTIPLIER : 1);
+};
+
+/**
+ * After a sequence cycle is saved, start the next one with the same task
+ * and mood, or end the sequence after the last. The planner is asked again
+ * each cycle, so the focus already done today can shorten later ones.
+ */
+const continueSequence = async (
+  get: any,
+  set: any,
+  taskType: string,
+  energyLevel: EnergyLevel,
+  lastFocusDuration: number,
+) => {
+  const { sequence } = get();
+  if (!sequence) return;
+
+  if (sequence.currentCycle >= sequence.cycles) {
+    console.log(`[Sequence] Finished all ${sequence.cycles} cycles`);
+    set({ sequence: null });
+    return;
+  }
+
+  set({
+    sequence: { ...sequence, currentCycle: sequence.currentCycle + 1 },
+    taskType,
+    energyLevel,
+    // Kept if the planner fails
+    time: lastFocusDuration,
+    initialTime: lastFocusDuration,
+  });
+
+  const state = get();
+  await updateRecommendations(
+    energyLevel,
+    taskType,
+    set,
+    state.dynamicFocusArms,
+    state.includeShortSessions,
+    getCoachConfig(state.coachPreset, state.coachRules),
+    getTaskStrategy(state.taskStrategies, taskType),
+    state.timeOfDayAware,
+    getHistoryDecay(state.historyHalfLifeDays),
+  );
+  set({ userAcceptedRecommendation: true });
+
+  get().prepareTimer();
+  await get().startTimer();
+};
+
 /**
  * Internal helper to save a session and update state.
  * Encapsulates the logic for completing a session in the DB and updating the store.
+ * Callers move the machine to "done" first, so a session is saved once.
  */
 const saveSessionInternal = async (
   get: any,
@@ -35,18 +241,17 @@ const saveSessionInternal = async (
   completionType: CompletionType,
   focusedTimeOverride?: number,
   selectedBreakDurationOverride?: number,
+  endedAt?: number,
 ) => {
   const state = get();
-  if (state.hasSavedSession) return;
-
-  set({ hasSavedSession: true, sessionJustCompleted: true });
 
   try {
-    const focusedTime = focusedTimeOverride ?? state.originalFocusDuration;
+    const focusedTime =
+      focusedTimeOverride ?? state.originalFocusDuration + state.overtimeSeconds;
     const selectedBreakDuration =
       selectedBreakDurationOverride ?? state.selectedBreakDuration;
 
-    await completeSession({
+    const saved = await completeSession({
       type: completionType,
       taskType: state.taskType,
       energyLevel: state.energyLevel as EnergyLevel,
@@ -56,9 +261,12 @@ const saveSessionInternal = async (
       originalFocusDuration: state.originalFocusDuration,
       selectedBreakDuration,
       focusedTime,
+      events: get().sessionEvents,
+      endedAt: endedAt !== undefined ? new Date(endedAt) : undefined,
+      historyDecay: getHistoryDecay(state.historyHalfLifeDays),
     });
-    // Refresh sessions list
-    get().loadSessions();
+    // Add the new row rather than re-reading the whole history
+    if (saved) get().addSession(saved);
   } catch (error) {
     console.error("Error completing session:", error);
   }
@@ -66,32 +274,69 @@ const saveSessionInternal = async (
 
 export const createTimerSlice: SliceCreator<TimerSlice> = (set, get) => ({
   // State defaults
+  timerPhase: "idle",
   isActive: false,
   isBreakTime: false,
   time: 0,
   initialTime: 0,
   focusSessionDuration: 0,
   sessionStartTimestamp: undefined,
+  accumulatedMs: 0,
+  segmentStartedAt: undefined,
   scheduledNotificationId: null,
   originalFocusDuration: 0,
   selectedBreakDuration: 5,
+  pausedAt: undefined,
+  sessionEvents: [],
+  sequence: null,
+  overtimeSeconds: 0,
 
   // Actions
+  prepareTimer: () => {
+    const { taskType, energyLevel, timerPhase } = get();
+    if (taskType && energyLevel) {
+      if (canTransition(timerPhase, "prepare")) {
+        transition(get, set, "prepare");
+      }
+    } else if (canTransition(timerPhase, "unprepare")) {
+      transition(get, set, "unprepare");
+    }
+  },
+
   startTimer: async () => {
     const state = get();
+    if (state.timerPhase === "paused") {
+      // Resuming: open a new running segment on top of the time already run
+      const remaining = state.getLiveTime();
+      if (!transition(get, set, "resume")) return;
+
+      await cancelScheduledNotification(state.scheduledNotificationId);
+      let newNotificationId: string | null = null;
+      if (state.notificationsEnabled) {
+        newNotificationId = await scheduleTimerNotification(
+          Math.ceil(remaining / SPEED_FACTOR),
+          false,
+        );
+      }
+      set({
+        time: remaining,
+        segmentStartedAt: Date.now(),
+        pausedAt: undefined,
+        sessionEvents: [...get().sessionEvents, sessionEvent("resume")],
+        scheduledNotificationId: newNotificationId,
+      });
+      return;
+    }
+
     const {
       taskType,
       energyLevel,
       time,
       recommendedFocusDuration,
       userAcceptedRecommendation,
-      isBreakTime,
-      sessionJustCompleted,
-      notificationsEnabled,
-      scheduledNotificationId,
     } = state;
 
-    if (!taskType && !sessionJustCompleted) {
+    if (!taskType) {
       get().showThemedAlert(
         "Missing Task",
         "Please select a task type before starting the timer.",
@@ -99,7 +344,7 @@ export const createTimerSlice: SliceCreator<TimerSlice> = (set, get) => ({
       return;
     }
 
-    if (!energyLevel && !sessionJustCompleted) {
+    if (!energyLevel) {
       get().showThemedAlert(
         "Missing Mood",
         "Please select your focus mood before starting the timer.",
@@ -107,57 +352,74 @@ export const createTimerSlice: SliceCreator<TimerSlice> = (set, get) => ({
       return;
     }
 
-    await cancelScheduledNotification(scheduledNotificationId);
+    // The selection may have been restored rather than picked just now
+    get().prepareTimer();
+    if (!transition(get, set, "start")) return;
 
-    let newNotificationId: string | null = null;
-    if (notificationsEnabled) {
-      const durationSeconds = Math.ceil(time / SPEED_FACTOR);
-      newNotificationId = await scheduleTimerNotification(
-        durationSeconds,
-        isBreakTime,
-      );
-    }
-
-    if (!isBreakTime) {
-      // Re-calculate smart break based on ACTUAL selected time
-      // This ensures that if the user customized focus (e.g. 10m),
-      // the break recommendation respects the scaled options.
-      const breakRec = getBreakRecommendation(Math.round(time / 60));
+    // A fresh start opens a sequence when they're turned on
+    if (!state.sequence && state.sequenceCycles > 1) {
       set({
-        originalFocusDuration: time,
-        recommendedBreakDuration: breakRec,
+        sequence: {
+          cycles: state.sequenceCycles,
+          longBreakEvery: state.longBreakEvery,
+          currentCycle: 1,
+        },
       });
     }
 
+    // Re-calculate smart break based on ACTUAL selected time
+    // This ensures that if the user customized focus (e.g. 10m),
+    // the break recommendation respects the scaled options.
+    const focusMinutes = Math.round(time / 60);
     set({
-      isActive: true,
-      showCancel: !isBreakTime,
-      showSkip: isBreakTime,
-      initialTime: time,
-      sessionStartTimestamp: Date.now(),
+      originalFocusDuration: time,
       focusSessionDuration: time,
-      hasSavedSession: false,
+      overtimeSeconds: 0,
+      recommendedBreakDuration: getBreakRecommendation(focusMinutes),
+      sessionStartTimestamp: Date.now(),
       userAcceptedRecommendation:
         userAcceptedRecommendation && time === recommendedFocusDuration * 60,
-      sessionJustCompleted: false,
-      scheduledNotificationId: newNotificationId,
+      sessionEvents: [sessionEvent("start")],
     });
 
-    if (!isBreakTime) {
-      setTimeout(() => {
-        if (get().isActive) {
-          set({ showCancel: false, showSkip: true });
-        }
-      }, MIN_SESSION_FOR_SAVE * 1000);
-    }
+    // Refine with the task's strategy (e.g. the learned break) once it loads
+    getStrategy(getTaskStrategy(state.taskStrategies, taskType))
+      .recommendBreak(
+        { taskType, energyLevel: energyLevel as EnergyLevel },
+        focusMinutes,
+        state.includeShortSessions,
+      )
+      .then((breakRec) => set({ recommendedBreakDuration: breakRec }))
+      .catch((error) =>
+        console.error("Error getting break recommendation:", error),
+      );
+
+    await startClock(get, set, time, false);
   },
 
-  pauseTimer: () => set({ isActive: false }),
+  pauseTimer: () => {
+    const state = get();
+    if (state.segmentStartedAt === undefined) return;
+    if (!transition(get, set, "pause")) return;
+
+    // Nothing should fire while paused; resuming schedules a new one
+    cancelScheduledNotification(state.scheduledNotificationId);
+    const now = Date.now();
+    set({
+      time: Math.max(state.initialTime - getElapsedSeconds(state, now), 0),
+      accumulatedMs: state.accumulatedMs + (now - state.segmentStartedAt),
+      segmentStartedAt: undefined,
+      pausedAt: now,
+      sessionEvents: [...state.sessionEvents, sessionEvent("pause")],
+      scheduledNotificationId: null,
+    });
+  },
 
   cancelTimer: async () => {
+    if (!transition(get, set, "cancel")) return;
+
     await cancelScheduledNotification(get().scheduledNotificationId);
     set({
-      isActive: false,
       showCancel: false,
       showSkip: false,
       showTimeAdjust: false,
@@ -169,37 +431,89 @@ export const createTimerSlice: SliceCreator<TimerSlice> = (set, get) => ({
       hasInteractedWithTimer: false,
       hasDismissedRecommendationCard: false,
       sessionStartTimestamp: undefined,
+      accumulatedMs: 0,
+      segmentStartedAt: undefined,
       scheduledNotificationId: null,
+      pausedAt: undefined,
+      sessionEvents: [],
+      sequence: null,
     });
   },
 
   skipTimer: () => set({ showSkipConfirm: true }),
 
-  completeTimer: async () => {
+  completeTimer: async (endedAt) => {
     const state = get();
-    // If we are in focus mode, we just finished it.
-    if (!state.isBreakTime) {
-      set({ sessionJustCompleted: true });
-      resetTimerState(set);
+
+    if (state.timerPhase === "focusing" || state.timerPhase === "overtime") {
+      // Flow mode keeps whatever was focused past the target
+      const overtimeSeconds =
+        state.timerPhase === "overtime"
+          ? Math.min(
+              Math.max(getElapsedSeconds(state, endedAt) - state.initialTime, 0),
+              MAX_OVERTIME,
+            )
+          : 0;
+
+      // Focus done, time for break
+      if (!transition(get, set, "finishFocus")) return;
+      set({
+        overtimeSeconds,
+        // A longer focus earns a longer break
+        ...(overtimeSeconds > 0 && {
+          recommendedBreakDuration: getBreakRecommendation(
+            Math.round((state.originalFocusDuration + overtimeSeconds) / 60),
+          ),
+        }),
+        sessionEvents: [
+          ...state.sessionEvents,
+          sessionEvent("complete", endedAt),
+        ],
+        time: 0,
+        sessionStartTimestamp: undefined,
+        accumulatedMs: 0,
+        segmentStartedAt: undefined,
+        scheduledNotificationId: null,
+      });
+
+      // Within a sequence the break starts without asking
+      if (get().sequence) await get().startBreak(getSequenceBreak(get()));
       return;
     }
 
-    // If we are in break mode, we finished the break essentially.
-    // Wait, completeTimer called during break means break is done.
-    // Logic: Save session with "completed" status.
-    await saveSessionInternal(get, set, "completed");
+    // Break done: the session is complete
+    if (!transition(get, set, "finishBreak")) return;
+    set({
+      sessionEvents: [...state.sessionEvents, sessionEvent("complete", endedAt)],
+      scheduledNotificationId: null,
+    });
+    await saveSessionInternal(
+      get,
+      set,
+      "completed",
+      undefined,
+      undefined,
+      endedAt,
+    );
     resetTimerState(set);
+    await continueSequence(
+      get,
+      set,
+      state.taskType,
+      state.energyLevel,
+      state.originalFocusDuration,
+    );
   },
 
   skipFocusSession: async (isSkippingBreak = false) => {
     const state = get();
-    await cancelScheduledNotification(state.scheduledNotificationId);
-    set({ scheduledNotificationId: null });
-
-    const elapsedSeconds = state.focusSessionDuration - state.time;
+    const elapsedSeconds = Math.min(
+      getElapsedSeconds(state),
+      state.focusSessionDuration,
+    );
     // Use original duration if skipping break (focus was done)
     const focusedTime = isSkippingBreak
-      ? state.originalFocusDuration
+      ? state.originalFocusDuration + state.overtimeSeconds
       : elapsedSeconds;
 
     if (isNaN(focusedTime) || focusedTime < 0) {
@@ -207,14 +521,33 @@ export const createTimerSlice: SliceCreator<TimerSlice> = (set, get) => ({
       return;
     }
 
+    if (!transition(get, set, "skip")) return;
+    await cancelScheduledNotification(state.scheduledNotificationId);
+    set({
+      scheduledNotificationId: null,
+      sessionEvents: [...state.sessionEvents, sessionEvent("skip")],
+    });
+
     const type: CompletionType = isSkippingBreak
       ? "skippedBreak"
       : "skippedFocus";
-
     await saveSessionInternal(get, set, type, focusedTime);
 
     // Explicitly reset timer state after saving
     resetTimerState(set);
+
+    // Skipping a break moves a sequence on; giving up on focus ends it
+    if (isSkippingBreak) {
+      await continueSequence(
+        get,
+        set,
+        state.taskType,
+        state.energyLevel,
+        state.originalFocusDuration,
+      );
+    } else {
+      set({ sequence: null });
+    }
   },
 
   startBreak: async (duration) => {
@@ -223,29 +556,31 @@ export const createTimerSlice: SliceCreator<TimerSlice> = (set, get) => ({
     if (duration === 0) {
       // User chose to skip break.
       // This means the focus session was completed, but they want no break.
+      if (!transition(get, set, "skipBreak")) return;
+      set({ sessionEvents: [...state.sessionEvents, sessionEvent("skip")] });
       await saveSessionInternal(
         get,
         set,
         "skippedBreak",
-        state.originalFocusDuration, // Focus was fully completed
+        state.originalFocusDuration + state.overtimeSeconds, // Focus was fully completed
         0, // Break duration is 0
       );
 
       resetTimerState(set);
+      await continueSequence(
+        get,
+        set,
+        state.taskType,
+        state.energyLevel,
+        state.originalFocusDuration,
+      );
       return;
     }
 
     // Start the break timer
-    set({
-      time: duration,
-      initialTime: duration,
-      isBreakTime: true,
-      isActive: true,
-      selectedBreakDuration: duration,
-      showBreakModal: false,
-    });
-
-    get().startTimer();
+    if (!transition(get, set, "startBreak")) return;
+    set({ selectedBreakDuration: duration });
+    await startClock(get, set, duration, true);
   },
 
   adjustTime: (direction) => {
@@ -280,45 +615,56 @@ export const createTimerSlice: SliceCreator<TimerSlice> = (set, get) => ({
   },
 
   getLiveTime: () => {
-    const { isActive, sessionStartTimestamp, initialTime } = get();
-    if (!isActive || !sessionStartTimestamp) return initialTime;
+    const state = get();
+    const isRunning = state.isActive && state.segmentStartedAt !== undefined;
+    if (!isRunning && state.pausedAt === undefined) return state.initialTime;
 
-    // Note: SPEED_FACTOR is mainly for dev testing, default is 1 (seconds)
-    const elapsed =
-      Math.floor((Date.now() - sessionStartTimestamp) / 1000) * SPEED_FACTOR;
-    return Math.max(initialTime - elapsed, 0);
+    return Math.max(state.initialTime - getElapsedSeconds(state), 0);
   },
 
   restoreTimerState: () => {
     const state = get();
-    if (!state.isActive || !state.sessionStartTimestamp) return;
-
-    const elapsed =
-      Math.floor((Date.now() - state.sessionStartTimestamp) / 1000) *
-      SPEED_FACTOR;
+    const isRunning =
+      state.timerPhase === "focusing" ||
+      state.timerPhase === "overtime" ||
+      state.timerPhase === "onBreak";
+    if (!isRunning || state.segmentStartedAt === undefined) return;
+
+    const now = Date.now();
+    const elapsed = getElapsedSeconds(state, now);
     const remaining = state.initialTime - elapsed;
 
+    if (state.timerPhase === "overtime") {
+      // Counting up; a forgotten flow session ends itself eventually
+      if (-remaining >= MAX_OVERTIME) {
+        const overshoot = -remaining - MAX_OVERTIME;
+        get().completeTimer(now - (overshoot * 1000) / SPEED_FACTOR);
+      } else {
+        set({ time: -remaining });
+      }
+      return;
+    }
+
+    // Past the accidental-start window, cancelling becomes skipping
+    if (!state.isBreakTime && state.showCancel && elapsed >= MIN_SESSION_FOR_SAVE) {
+      set({ showCancel: false, showSkip: true });
+    }
+
     if (remaining <= 0) {
       // Long vibrate for completion: 1s ON, 0.2s OFF, 1s ON
       Vibration.vibrate([0, 1000, 200, 1000]);
-      set({ scheduledNotificationId: null });
-
-      if (!state.isBreakTime) {
-        // Focus done, time for break
-        set({
-          time: 0,
-          isActive: false,
-          isBreakTime: true,
-          showBreakModal: true,
-          sessionStartTimestamp: undefined,
-        });
+
+      if (!state.isBreakTime && state.flowMode) {
+        // Flow mode: the target was only a target, keep going
+        transition(get, set, "reachTarget");
+        set({ time: -remaining, scheduledNotificationId: null });
         return;
       }
 
-      // Break done
-      get().completeTimer();
+      // When it actually ran out; long ago if the app was closed meanwhile
+      get().completeTimer(now + (remaining * 1000) / SPEED_FACTOR);
     } else {
-      set({ time: remaining, isActive: true });
+      set({ time: remaining });
     }
   },
 });
@@ -2,9 +2,16 @@
  * UI Slice
  *
  * Manages UI-related state such as modal visibility, alert messages,
- * and user preferences like notification toggles.
+ * and user preferences like notification toggles and coach tuning.
  */
-import { DEFAULT_TASKS } from "@/constants/timer";
+import {
+  DEFAULT_HISTORY_HALF_LIFE_DAYS,
+  DEFAULT_LONG_BREAK_EVERY,
+  DEFAULT_TASKS,
+  DEFAULT_TRASH_RETENTION_DAYS,
+} from "@/constants/timer";
+import { getTaskGoal, NO_GOAL } from "@/utils/goals";
+import { normalizeTask } from "@/utils/task";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { SliceCreator, UISlice } from "./sliceTypes";
 
@@ -25,6 +32,18 @@ export const createUISlice: SliceCreator<UISlice> = (set, get) => ({
   includeShortSessions: false,
   dynamicFocusArms: [],
   notificationsEnabled: false,
+  coachPreset: "default",
+  coachRules: { fatigue: true, cooldown: true, restDay: true },
+  taskStrategies: {},
+  timeOfDayAware: false,
+  historyHalfLifeDays: DEFAULT_HISTORY_HALF_LIFE_DAYS,
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  includeManualSessions: true,
+  sequenceCycles: 1,
+  longBreakEvery: DEFAULT_LONG_BREAK_EVERY,
+  flowMode: false,
+  focusGoal: NO_GOAL,
+  taskGoals: {},
   themedAlert: null,
 
   // Actions
@@ -54,6 +73,44 @@ export const createUISlice: SliceCreator<UISlice> = (set, get) => ({
     set((state) => ({ includeShortSessions: !state.includeShortSessions })),
   toggleNotificationsEnabled: () =>
     set((state) => ({ notificationsEnabled: !state.notificationsEnabled })),
+  setCoachPreset: (preset) => set({ coachPreset: preset }),
+  toggleCoachRule: (rule) =>
+    set((state) => ({
+      coachRules: { ...state.coachRules, [rule]: !state.coachRules[rule] },
+    })),
+  setTaskStrategy: (task, strategy) =>
+    set((state) => ({
+      taskStrategies: {
+        ...state.taskStrategies,
+        [normalizeTask(task)]: strategy,
+      },
+    })),
+
+  toggleTimeOfDayAware: () =>
+    set((state) => ({ timeOfDayAware: !state.timeOfDayAware })),
+  setHistoryHalfLifeDays: (days) => set({ historyHalfLifeDays: days }),
+
+  setTrashRetentionDays: (days) => set({ trashRetentionDays: days }),
+  toggleIncludeManualSessions: () =>
+    set((state) => ({ includeManualSessions: !state.includeManualSessions })),
+  setSequenceCycles: (cycles) => set({ sequenceCycles: cycles }),
+  setLongBreakEvery: (cycles) => set({ longBreakEvery: cycles }),
+  toggleFlowMode: () => set((state) => ({ flowMode: !state.flowMode })),
+  setFocusGoal: (period, minutes, task) =>
+    set((state) => {
+      if (!task) {
+        return { focusGoal: { ...state.focusGoal, [period]: minutes } };
+      }
+      return {
+        taskGoals: {
+          ...state.taskGoals,
+          [normalizeTask(task)]: {
+            ...getTaskGoal(state.taskGoals, task),
+            [period]: minutes,
+          },
+        },
+      };
+    }),
 
   addDynamicFocusArm: (arm) => {
     const { dynamicFocusArms } = get();
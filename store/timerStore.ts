@@ -3,18 +3,24 @@
  *
  * The main store for the application using Zustand.
  * Combines focused slices (timer, session, task, ui) into a single state management hub.
+ * Persists the preferences and, while one is running, the session in progress.
  */
 import { DEFAULT_TASKS } from "@/constants/timer";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { create } from "zustand";
 import { createJSONStorage, persist } from "zustand/middleware";
 import { createSessionSlice } from "./slices/sessionSlice";
-import { TimerStoreState } from "./slices/sliceTypes";
+import { TimerSnapshot, TimerStoreState } from "./slices/sliceTypes";
 import { createTaskSlice } from "./slices/taskSlice";
-import { createTimerSlice } from "./slices/timerSlice";
+import { createTimerSlice, getTimerSnapshot } from "./slices/timerSlice";
 import { createUISlice } from "./slices/uiSlice";
 
 const DYNAMIC_ARMS_KEY = "dynamic_focus_arms";
+
+type PersistedState = Partial<TimerStoreState> & {
+  activeSession?: TimerSnapshot | null;
+};
+
 const useTimerStore = create<TimerStoreState>()(
   persist(
     (set, get) => ({
@@ -31,8 +37,33 @@ const useTimerStore = create<TimerStoreState>()(
         includeShortSessions: state.includeShortSessions,
         dynamicFocusArms: state.dynamicFocusArms,
         notificationsEnabled: state.notificationsEnabled,
+        coachPreset: state.coachPreset,
+        coachRules: state.coachRules,
+        taskStrategies: state.taskStrategies,
+        timeOfDayAware: state.timeOfDayAware,
+        historyHalfLifeDays: state.historyHalfLifeDays,
+        trashRetentionDays: state.trashRetentionDays,
+        includeManualSessions: state.includeManualSessions,
+        sequenceCycles: state.sequenceCycles,
+        longBreakEvery: state.longBreakEvery,
+        flowMode: state.flowMode,
+        focusGoal: state.focusGoal,
+        taskGoals: state.taskGoals,
         hasMigratedTasks: state.hasMigratedTasks,
+        activeSession: getTimerSnapshot(state),
       }),
+      // Unpack the session snapshot back into the timer's own fields
+      merge: (persisted, current) => {
+        const { activeSession, ...settings } = (persisted ??
+          {}) as PersistedState;
+        return { ...current, ...settings, ...activeSession };
+      },
+      // Retention is a persisted setting, so purge once it's loaded.
+      // A restored session may have ended while the app was closed.
+      onRehydrateStorage: () => (state) => {
+        state?.purgeExpiredTrash();
+        state?.restoreTimerState();
+      },
     },
   ),
 );
@@ -26,6 +26,21 @@ export interface Session {
   createdAt: string;
   skipReason?: "skippedFocus" | "skippedBreak" | "none";
   note?: string;
+  deletedAt?: string | null; // Set while the session sits in the trash
+  isManual?: boolean; // Logged after the fact rather than timed in the app
+  excludeFromLearning?: boolean; // Kept out of the adaptive engine's history
+  pauseCount?: number; // Times the focus timer was paused
+  pausedSeconds?: number; // Total time the focus timer sat paused
+}
+
+export type SessionEventType = "start" | "pause" | "resume" | "skip" | "complete";
+
+/**
+ * A moment in a session's timeline, kept alongside the saved session.
+ */
+export interface SessionEvent {
+  type: SessionEventType;
+  timestamp: string; // ISO
 }
 
 export interface TimerState {
@@ -53,8 +68,6 @@ export interface TimerState {
   notificationsEnabled: boolean;
   focusSessionDuration: number;
   originalFocusDuration: number;
-  hasSavedSession: boolean;
-  sessionJustCompleted: boolean;
   scheduledNotificationId: string | null;
 
   //recommendation fields
@@ -93,7 +106,6 @@ export interface TimerState {
   addDynamicFocusArm: (duration: number) => void;
   toggleNotificationsEnabled: () => void;
   skipFocusSession: (isSkippingBreak?: boolean) => Promise<void>;
-  setHasSavedSession: (val: boolean) => void;
   getLiveTime: () => number;
   updateSessionNote: (id: number, note: string) => Promise<void>;
 }
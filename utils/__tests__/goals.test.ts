@@ -0,0 +1,117 @@
+/**
+ * Goal Tests
+ */
+import { Session } from "@/types";
+import {
+  getGoalHistory,
+  getGoalHitDays,
+  getGoalProgress,
+  suggestGoal,
+} from "../goals";
+import { calculateStreak } from "../insightEngine";
+
+const NOW = new Date("2025-03-12T12:00:00.000Z"); // A Wednesday
+const DAY = 24 * 60 * 60 * 1000;
+
+const makeSession = (
+  daysAgo: number,
+  overrides: Partial<Session> = {},
+): Session => {
+  const createdAt = new Date(NOW.getTime() - daysAgo * DAY).toISOString();
+  return {
+    taskType: "Coding",
+    energyLevel: "mid",
+    timeOfDay: "afternoon",
+    recommendedDuration: 25,
+    recommendedBreak: 5,
+    userSelectedDuration: 25,
+    userSelectedBreak: 5,
+    acceptedRecommendation: true,
+    sessionCompleted: true,
+    focusedUntilSkipped: 25,
+    reward: 0,
+    date: createdAt.split("T")[0],
+    createdAt,
+    ...overrides,
+  };
+};
+
+describe("Goals", () => {
+  const sessions = [
+    makeSession(0),
+    makeSession(0, { focusedUntilSkipped: 40 }), // Flow mode overtime
+    makeSession(0, { taskType: "writing" }),
+    makeSession(1, { userSelectedDuration: 30, focusedUntilSkipped: 30 }),
+    makeSession(2, { userSelectedDuration: 60, focusedUntilSkipped: 60 }),
+    makeSession(7, { userSelectedDuration: 100, focusedUntilSkipped: 100 }),
+  ];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should measure progress toward a goal", () => {
+    expect(getGoalProgress(sessions, 120, "day")).toEqual({
+      minutes: 90,
+      target: 120,
+      progress: 0.75,
+      isHit: false,
+    });
+    expect(getGoalProgress(sessions, 150, "week").isHit).toBe(true);
+    expect(getGoalProgress(sessions, 0, "day")).toMatchObject({
+      progress: 0,
+      isHit: false,
+    });
+  });
+
+  it("should count only the task's sessions for a task goal", () => {
+    expect(getGoalProgress(sessions, 60, "day", "coding")).toMatchObject({
+      minutes: 65,
+      progress: 1,
+      isHit: true,
+    });
+    expect(getGoalProgress(sessions, 60, "day", "Writing").minutes).toBe(25);
+  });
+
+  it("should list which recent periods hit the goal", () => {
+    expect(getGoalHistory(sessions, 60, "day", 3)).toEqual([true, false, true]);
+    expect(getGoalHistory(sessions, 100, "week", 2)).toEqual([true, true]);
+  });
+
+  it("should only keep a streak going on days that hit the daily goal", () => {
+    expect(calculateStreak(sessions)).toEqual({ current: 3, best: 3 });
+    expect(calculateStreak(sessions, 50)).toEqual({ current: 1, best: 1 });
+    expect(calculateStreak(sessions, 200)).toEqual({ current: 0, best: 0 });
+  });
+
+  it("should key goal days by local date", () => {
+    // Just after local midnight; built from local parts so the test holds
+    // in any time zone
+    jest.setSystemTime(new Date(2025, 2, 12, 0, 30));
+    const atLocal = (day: number, hours: number, minutes: number) =>
+      new Date(2025, 2, day, hours, minutes).toISOString();
+    const nearMidnight = [
+      makeSession(0, { createdAt: atLocal(11, 23, 40), focusedUntilSkipped: 60 }),
+      makeSession(0, { createdAt: atLocal(12, 0, 10), focusedUntilSkipped: 30 }),
+    ];
+
+    expect(getGoalHitDays(nearMidnight, 60)).toEqual(["2025-03-11"]);
+    expect(getGoalHitDays(nearMidnight, 90)).toEqual([]);
+    expect(getGoalProgress(nearMidnight, 30, "day").isHit).toBe(true);
+    expect(calculateStreak(nearMidnight, 30)).toEqual({ current: 2, best: 2 });
+  });
+
+  it("should suggest goals a little above the usual", () => {
+    // Active days 30, 60 and 100 minutes: 63 on average, +10%
+    expect(suggestGoal(sessions, "day")).toBe(70);
+    // Only last week finished with any focus
+    expect(suggestGoal(sessions, "week")).toBe(110);
+    expect(suggestGoal(sessions, "day", "Writing")).toBe(0);
+    expect(suggestGoal([], "week")).toBe(0);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Recommendation Trace Tests
+ */
+import { RecommendationTrace } from "@/services/adaptiveEngine";
+import { describeTrace } from "../recommendationTrace";
+
+const makeTrace = (
+  overrides: Partial<RecommendationTrace> = {},
+): RecommendationTrace => ({
+  heuristic: 25,
+  prior: 25,
+  priorSource: "heuristic",
+  priorSiblings: [],
+  baseline: 50,
+  baselineSource: "learned",
+  confidence: 1,
+  ewma: 50,
+  historySize: 10,
+  timeOfDay: null,
+  completionRate: 0.8,
+  stretchNudge: 0,
+  survivalCap: null,
+  multipliers: { fatigue: 1, cooldown: 1, rest: 1, aggregate: 1 },
+  adjusted: 50,
+  rounded: 50,
+  cap: 120,
+  final: 50,
+  ...overrides,
+});
+
+describe("Recommendation Trace", () => {
+  it("should explain the drop-off cap when it lowers the duration", () => {
+    const lines = describeTrace(
+      makeTrace({
+        stretchNudge: 5,
+        survivalCap: 40,
+        adjusted: 40,
+        rounded: 40,
+        final: 40,
+      }),
+    );
+
+    expect(lines).toContainEqual({
+      label: "Capped at 40 min, where you usually drop off",
+      value: "40 min",
+    });
+  });
+
+  it("should leave the cap out when it didn't bind", () => {
+    const labels = describeTrace(makeTrace({ survivalCap: 60 })).map(
+      (line) => line.label,
+    );
+
+    expect(labels.some((label) => label.includes("drop off"))).toBe(false);
+  });
+});
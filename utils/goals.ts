@@ -0,0 +1,157 @@
+/**
+ * Goal Utilities
+ *
+ * Daily and weekly focus goals, overall or per task: progress toward them,
+ * the record of which periods hit them, and goal suggestions drawn from the
+ * user's own history.
+ */
+import {
+  GOAL_STEP,
+  GOAL_STRETCH,
+  GOAL_SUGGESTION_LOOKBACK,
+} from "@/constants/timer";
+import { SessionAggregate } from "@/services/database";
+import { Session } from "@/types";
+import {
+  calculatePeriodMetrics,
+  filterSessionsInDateRange,
+  getPeriodDates,
+  groupSessions,
+  toLocalDateKey,
+} from "@/utils/performanceUtils";
+import { normalizeTask } from "@/utils/task";
+
+export type GoalPeriod = "day" | "week";
+
+// Target focus minutes per period; 0 = no goal
+export interface FocusGoal {
+  day: number;
+  week: number;
+}
+
+export const NO_GOAL: FocusGoal = { day: 0, week: 0 };
+
+export interface GoalProgress {
+  minutes: number;
+  target: number;
+  progress: number; // 0-1, capped at 1
+  isHit: boolean;
+}
+
+/**
+ * A task's own goal; tasks without one have none.
+ */
+export function getTaskGoal(
+  taskGoals: Record<string, FocusGoal>,
+  task: string,
+): FocusGoal {
+  return taskGoals[normalizeTask(task)] ?? NO_GOAL;
+}
+
+const forTask = (sessions: Session[], taskType?: string): Session[] => {
+  if (!taskType) return sessions;
+  const key = normalizeTask(taskType);
+  return sessions.filter((s) => normalizeTask(s.taskType) === key);
+};
+
+const getPeriodMetrics = (
+  sessions: Session[],
+  period: GoalPeriod,
+  periodsAgo: number,
+  taskType?: string,
+) => {
+  const { startDate, endDate } = getPeriodDates(period, periodsAgo);
+  return calculatePeriodMetrics(
+    filterSessionsInDateRange(forTask(sessions, taskType), startDate, endDate),
+  );
+};
+
+/**
+ * Focus so far against a goal, for this period or one `periodsAgo` back.
+ * Pass a task to count only that task's sessions.
+ */
+export function getGoalProgress(
+  sessions: Session[],
+  target: number,
+  period: GoalPeriod,
+  taskType?: string,
+  periodsAgo: number = 0,
+): GoalProgress {
+  const minutes = getPeriodMetrics(sessions, period, periodsAgo, taskType)
+    .totalFocusTime;
+  return {
+    minutes,
+    target,
+    progress: target > 0 ? Math.min(minutes / target, 1) : 0,
+    isHit: target > 0 && minutes >= target,
+  };
+}
+
+/**
+ * Whether each of the last `count` periods hit the goal, oldest first,
+ * ending with the current one.
+ */
+export function getGoalHistory(
+  sessions: Session[],
+  target: number,
+  period: GoalPeriod,
+  count: number,
+  taskType?: string,
+): boolean[] {
+  return Array.from(
+    { length: count },
+    (_, i) =>
+      getGoalProgress(sessions, target, period, taskType, count - 1 - i).isHit,
+  );
+}
+
+/**
+ * Focus per local day, keyed like getGoalProgress's day boundaries and
+ * getSessionAggregates' "day" grouping.
+ */
+export function getDailyTotals(sessions: Session[]): SessionAggregate[] {
+  return groupSessions(sessions, (s) =>
+    toLocalDateKey(new Date(s.createdAt || s.date)),
+  );
+}
+
+/**
+ * Days whose focus reached the daily goal, by local date.
+ */
+export function getGoalHitDays(sessions: Session[], target: number): string[] {
+  return getDailyTotals(sessions)
+    .filter((day) => day.focusTime >= target)
+    .map((day) => day.key);
+}
+
+/**
+ * A goal a little above what the user usually focuses in a period, from
+ * the last few finished periods they were active in. 0 without history.
+ */
+export function suggestGoal(
+  sessions: Session[],
+  period: GoalPeriod,
+  taskType?: string,
+): number {
+  const totals: number[] = [];
+  for (let i = 1; i <= GOAL_SUGGESTION_LOOKBACK[period]; i++) {
+    const metrics = getPeriodMetrics(sessions, period, i, taskType);
+    // Rest days shouldn't drag the goal down
+    if (metrics.sessionCount > 0) totals.push(metrics.totalFocusTime);
+  }
+  return stretchGoal(totals);
+}
+
+/**
+ * suggestGoal from the focus totals of the lookback periods the user was
+ * active in.
+ */
+export function stretchGoal(totals: number[]): number {
+  if (totals.length === 0) return 0;
+
+  const average = totals.reduce((a, b) => a + b, 0) / totals.length;
+  return Math.max(
+    Math.round((average * GOAL_STRETCH) / GOAL_STEP) * GOAL_STEP,
+    GOAL_STEP,
+  );
+}
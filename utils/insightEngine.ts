@@ -4,7 +4,10 @@
  * Provides analytical functions to derive trends and patterns from session
  * history, such as energy correlations, peak performance times, and streaks.
  */
+import { SessionAggregate } from "@/services/database";
 import { Session } from "@/types";
+import { getDailyTotals } from "@/utils/goals";
+import { groupSessions, toLocalDateKey } from "@/utils/performanceUtils";
 
 /**
  * Insights calculated from session data
@@ -36,26 +39,58 @@ export interface InsightData {
   };
 }
 
+/**
+ * The per-bucket totals insights are drawn from, keyed the way
+ * getSessionAggregates groups them so SQLite can supply them directly
+ * (see services/analytics).
+ */
+export interface InsightTotals {
+  taskEnergy: SessionAggregate[]; // "task|mood"
+  hour: SessionAggregate[]; // Local "00"-"23"
+  taskDuration: SessionAggregate[]; // "task|planned minutes"
+  day: SessionAggregate[]; // Local "YYYY-MM-DD"
+}
+
+// Split a "task|value" key; tasks may contain "|" themselves
+const splitTaskKey = (key: string): [string, string] => {
+  const index = key.lastIndexOf("|");
+  return [key.slice(0, index), key.slice(index + 1)];
+};
+
+/**
+ * In-memory InsightTotals for a list of sessions.
+ */
+export function getInsightTotals(sessions: Session[]): InsightTotals {
+  return {
+    taskEnergy: groupSessions(sessions, (s) => `${s.taskType}|${s.energyLevel}`),
+    hour: groupSessions(sessions, (s) =>
+      String(new Date(s.createdAt || s.date).getHours()).padStart(2, "0"),
+    ),
+    taskDuration: groupSessions(
+      sessions,
+      (s) => `${s.taskType}|${s.userSelectedDuration}`,
+    ),
+    day: getDailyTotals(sessions),
+  };
+}
+
 /**
  * Calculate correlation between energy level and focus duration
  */
-export function calculateEnergyCorrelation(sessions: Session[]) {
-  const highSessions = sessions.filter((s) => s.energyLevel === "high");
-  const lowSessions = sessions.filter((s) => s.energyLevel === "low");
-
-  const getAvg = (list: Session[]) => {
-    if (list.length === 0) return 0;
-    const total = list.reduce(
-      (acc, s) =>
-        acc +
-        (s.sessionCompleted ? s.userSelectedDuration : s.focusedUntilSkipped),
-      0,
-    );
-    return total / list.length;
+export function calculateEnergyCorrelation(taskEnergy: SessionAggregate[]) {
+  const energyTotals = (energyLevel: string) => {
+    const buckets = taskEnergy.filter((b) => splitTaskKey(b.key)[1] === energyLevel);
+    return {
+      sessions: buckets.reduce((acc, b) => acc + b.sessions, 0),
+      focusTime: buckets.reduce((acc, b) => acc + b.focusTime, 0),
+    };
   };
+  const getAvg = (totals: { sessions: number; focusTime: number }) =>
+    totals.sessions > 0 ? totals.focusTime / totals.sessions : 0;
 
-  const highAvg = getAvg(highSessions);
-  const lowAvg = getAvg(lowSessions);
+  const high = energyTotals("high");
+  const highAvg = getAvg(high);
+  const lowAvg = getAvg(energyTotals("low"));
 
   let diffPercent = 0;
   if (lowAvg > 0) {
@@ -65,24 +100,19 @@ export function calculateEnergyCorrelation(sessions: Session[]) {
   }
 
   // Determine if there's a specific task where energy makes the MOST difference
-  const taskDiffs = new Map<string, { hi: number[]; lo: number[] }>();
-  sessions.forEach((s) => {
-    if (!taskDiffs.has(s.taskType))
-      taskDiffs.set(s.taskType, { hi: [], lo: [] });
-    const duration = s.sessionCompleted
-      ? s.userSelectedDuration
-      : s.focusedUntilSkipped;
-    if (s.energyLevel === "high") taskDiffs.get(s.taskType)!.hi.push(duration);
-    if (s.energyLevel === "low") taskDiffs.get(s.taskType)!.lo.push(duration);
+  const taskDiffs = new Map<string, { hi?: SessionAggregate; lo?: SessionAggregate }>();
+  taskEnergy.forEach((bucket) => {
+    const [task, energyLevel] = splitTaskKey(bucket.key);
+    if (!taskDiffs.has(task)) taskDiffs.set(task, {});
+    if (energyLevel === "high") taskDiffs.get(task)!.hi = bucket;
+    if (energyLevel === "low") taskDiffs.get(task)!.lo = bucket;
   });
 
   let bestTask = "";
   let maxTaskDiff = 0;
-  taskDiffs.forEach((data, task) => {
-    if (data.hi.length >= 2 && data.lo.length >= 2) {
-      const avgHi = data.hi.reduce((a, b) => a + b, 0) / data.hi.length;
-      const avgLo = data.lo.reduce((a, b) => a + b, 0) / data.lo.length;
-      const diff = avgHi - avgLo;
+  taskDiffs.forEach(({ hi, lo }, task) => {
+    if (hi && lo && hi.sessions >= 2 && lo.sessions >= 2) {
+      const diff = getAvg(hi) - getAvg(lo);
       if (diff > maxTaskDiff) {
         maxTaskDiff = diff;
         bestTask = task;
@@ -94,7 +124,7 @@ export function calculateEnergyCorrelation(sessions: Session[]) {
     highEnergyAvg: highAvg,
     lowEnergyAvg: lowAvg,
     diffPercent,
-    isSignificant: Math.abs(diffPercent) > 10 && highSessions.length > 2,
+    isSignificant: Math.abs(diffPercent) > 10 && high.sessions > 2,
     bestTask,
   };
 }
@@ -102,7 +132,7 @@ export function calculateEnergyCorrelation(sessions: Session[]) {
 /**
  * Determine best time of day for focus
  */
-export function calculateTimeOfDayPattern(sessions: Session[]) {
+export function calculateTimeOfDayPattern(hours: SessionAggregate[]) {
   const buckets = {
     Morning: { total: 0, count: 0 }, // 5am - 12pm
     Afternoon: { total: 0, count: 0 }, // 12pm - 5pm
@@ -110,26 +140,18 @@ export function calculateTimeOfDayPattern(sessions: Session[]) {
     Night: { total: 0, count: 0 }, // 9pm - 5am
   };
 
-  sessions.forEach((s) => {
-    const d = new Date(s.createdAt || s.date);
-    const hour = d.getHours();
-    const duration = s.sessionCompleted
-      ? s.userSelectedDuration
-      : s.focusedUntilSkipped;
-
-    if (hour >= 5 && hour < 12) {
-      buckets.Morning.total += duration;
-      buckets.Morning.count++;
-    } else if (hour >= 12 && hour < 17) {
-      buckets.Afternoon.total += duration;
-      buckets.Afternoon.count++;
-    } else if (hour >= 17 && hour < 21) {
-      buckets.Evening.total += duration;
-      buckets.Evening.count++;
-    } else {
-      buckets.Night.total += duration;
-      buckets.Night.count++;
-    }
+  hours.forEach(({ key, sessions, focusTime }) => {
+    const hour = Number(key);
+    const bucket =
+      hour >= 5 && hour < 12
+        ? buckets.Morning
+        : hour >= 12 && hour < 17
+          ? buckets.Afternoon
+          : hour >= 17 && hour < 21
+            ? buckets.Evening
+            : buckets.Night;
+    bucket.total += focusTime;
+    bucket.count += sessions;
   });
 
   const getAvg = (b: { total: number; count: number }) =>
@@ -161,20 +183,32 @@ export function calculateTimeOfDayPattern(sessions: Session[]) {
   };
 }
 
+// The YYYY-MM-DD key `days` calendar days away from `key`
+const shiftDateKey = (key: string, days: number): string => {
+  const date = new Date(`${key}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+};
+
+/**
+ * Calculate current and best daily streaks. With a daily goal (minutes),
+ * only days that hit it keep a streak going.
+ */
+export function calculateStreak(sessions: Session[], dailyGoal: number = 0) {
+  return calculateStreakFromDays(getDailyTotals(sessions), dailyGoal);
+}
+
 /**
- * Calculate current and best daily streaks
+ * calculateStreak from per-day totals keyed by local date.
  */
-export function calculateStreak(sessions: Session[]) {
-  if (sessions.length === 0) return { current: 0, best: 0 };
-
-  // Get unique dates
-  const dates = Array.from(
-    new Set(
-      sessions.map(
-        (s) => new Date(s.createdAt || s.date).toISOString().split("T")[0],
-      ),
-    ),
-  ).sort();
+export function calculateStreakFromDays(
+  days: SessionAggregate[],
+  dailyGoal: number = 0,
+) {
+  const dates = days
+    .filter((d) => (dailyGoal > 0 ? d.focusTime >= dailyGoal : d.sessions > 0))
+    .map((d) => d.key)
+    .sort();
 
   if (dates.length === 0) return { current: 0, best: 0 };
 
@@ -183,12 +217,7 @@ export function calculateStreak(sessions: Session[]) {
   let currentRun = 1;
 
   for (let i = 1; i < dates.length; i++) {
-    const prev = new Date(dates[i - 1]);
-    const curr = new Date(dates[i]);
-    const diffTime = Math.abs(curr.getTime() - prev.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-    if (diffDays === 1) {
+    if (dates[i] === shiftDateKey(dates[i - 1], 1)) {
       currentRun++;
     } else {
       currentRun = 1;
@@ -197,10 +226,8 @@ export function calculateStreak(sessions: Session[]) {
   }
 
   // Calculate Current Streak (working backwards from today)
-  const today = new Date().toISOString().split("T")[0];
-  const yesterdayDate = new Date();
-  yesterdayDate.setDate(yesterdayDate.getDate() - 1);
-  const yesterday = yesterdayDate.toISOString().split("T")[0];
+  const today = toLocalDateKey(new Date());
+  const yesterday = shiftDateKey(today, -1);
 
   const lastActiveDate = dates[dates.length - 1];
   let currentStreak = 0;
@@ -211,11 +238,10 @@ export function calculateStreak(sessions: Session[]) {
   } else {
     // Count backwards
     currentStreak = 1;
-    let expectedDate = new Date(lastActiveDate);
+    let expectedDateStr = lastActiveDate;
 
     for (let i = dates.length - 2; i >= 0; i--) {
-      expectedDate.setDate(expectedDate.getDate() - 1); // Go back 1 day
-      const expectedDateStr = expectedDate.toISOString().split("T")[0];
+      expectedDateStr = shiftDateKey(expectedDateStr, -1); // Go back 1 day
 
       if (dates[i] === expectedDateStr) {
         currentStreak++;
@@ -231,8 +257,9 @@ export function calculateStreak(sessions: Session[]) {
 /**
  * Identify the focus duration with the highest completion rate
  */
-export function calculateDurationOptimization(sessions: Session[]) {
-  if (sessions.length < 5) {
+export function calculateDurationOptimization(taskDuration: SessionAggregate[]) {
+  const sessionCount = taskDuration.reduce((acc, b) => acc + b.sessions, 0);
+  if (sessionCount < 5) {
     return {
       taskType: "",
       bestDuration: 0,
@@ -241,48 +268,27 @@ export function calculateDurationOptimization(sessions: Session[]) {
     };
   }
 
-  // Map of Task -> Map of Duration -> Stats
-  const taskDurationStats: Record<
-    string,
-    Record<number, { total: number; completed: number }>
-  > = {};
-
-  sessions.forEach((s) => {
-    if (!taskDurationStats[s.taskType]) {
-      taskDurationStats[s.taskType] = {};
-    }
-    const d = s.userSelectedDuration;
-    if (!taskDurationStats[s.taskType][d]) {
-      taskDurationStats[s.taskType][d] = { total: 0, completed: 0 };
-    }
-    taskDurationStats[s.taskType][d].total++;
-    if (s.sessionCompleted) {
-      taskDurationStats[s.taskType][d].completed++;
-    }
-  });
-
   let bestTask = "";
   let bestDuration = 0;
   let highestRate = 0;
   let isSignificant = false;
 
-  Object.entries(taskDurationStats).forEach(([task, durations]) => {
-    Object.entries(durations).forEach(([dur, stats]) => {
-      const rate = stats.completed / stats.total;
-      // Requirement: At least 3 sessions for this specific task+duration
-      if (stats.total >= 3) {
-        // Preference for higher completion rate, then higher duration
-        if (
-          rate > highestRate ||
-          (rate === highestRate && parseInt(dur) > bestDuration)
-        ) {
-          highestRate = rate;
-          bestDuration = parseInt(dur);
-          bestTask = task;
-          isSignificant = true;
-        }
+  taskDuration.forEach((bucket) => {
+    const [task, dur] = splitTaskKey(bucket.key);
+    const rate = bucket.completedSessions / bucket.sessions;
+    // Requirement: At least 3 sessions for this specific task+duration
+    if (bucket.sessions >= 3) {
+      // Preference for higher completion rate, then higher duration
+      if (
+        rate > highestRate ||
+        (rate === highestRate && parseInt(dur) > bestDuration)
+      ) {
+        highestRate = rate;
+        bestDuration = parseInt(dur);
+        bestTask = task;
+        isSignificant = true;
       }
-    });
+    }
   });
 
   return {
@@ -293,11 +299,24 @@ export function calculateDurationOptimization(sessions: Session[]) {
   };
 }
 
-export function generateInsights(sessions: Session[]): InsightData {
+/**
+ * Insights from per-bucket totals, in memory or from SQLite.
+ */
+export function summarizeInsights(
+  totals: InsightTotals,
+  dailyGoal: number = 0,
+): InsightData {
   return {
-    energyCorrelation: calculateEnergyCorrelation(sessions),
-    timeOfDay: calculateTimeOfDayPattern(sessions),
-    streak: calculateStreak(sessions),
-    durationOptimization: calculateDurationOptimization(sessions),
+    energyCorrelation: calculateEnergyCorrelation(totals.taskEnergy),
+    timeOfDay: calculateTimeOfDayPattern(totals.hour),
+    streak: calculateStreakFromDays(totals.day, dailyGoal),
+    durationOptimization: calculateDurationOptimization(totals.taskDuration),
   };
 }
+
+export function generateInsights(
+  sessions: Session[],
+  dailyGoal: number = 0,
+): InsightData {
+  return summarizeInsights(getInsightTotals(sessions), dailyGoal);
+}
@@ -12,6 +12,7 @@ export function getFocusOptions(includeShortSessions: boolean) {
 export function getBreakOptions(
   includeShortSessions: boolean,
   focusDurationMinutes?: number,
+  recommendedBreakMinutes?: number,
 ) {
   const options = includeShortSessions ? ADHD_BREAK_OPTIONS : BREAK_OPTIONS;
 
@@ -19,7 +20,12 @@ export function getBreakOptions(
 
   // Rule: Max break = Focus duration ÷ 3 (minimum 5 min)
   // Matching services/rl/index.ts logic
-  const maxBreak = Math.max(5, Math.floor(focusDurationMinutes / 3));
+  // A learned break recommendation may exceed this, so always offer it
+  const maxBreak = Math.max(
+    5,
+    Math.floor(focusDurationMinutes / 3),
+    recommendedBreakMinutes ?? 0,
+  );
 
   return options.filter(
     (opt) => opt.duration === 0 || opt.duration <= maxBreak * 60,
@@ -4,8 +4,56 @@
  * Provides utility functions for filtering sessions, calculating metrics
  * (completion rate, focus time), and formatting data for charts and UI displays.
  */
+import { SessionAggregate } from "@/services/database";
+import {
+  estimateSurvivalCurve,
+  SurvivalPoint,
+  toSurvivalObservation,
+} from "@/services/survivalCurve";
 import { EnergyLevel, Session } from "@/types";
 
+/**
+ * Minutes a session counts as focused. Completed sessions count their
+ * target, or longer if focus ran past it (flow mode overtime).
+ */
+export function getFocusMinutes(
+  session: Pick<
+    Session,
+    "sessionCompleted" | "userSelectedDuration" | "focusedUntilSkipped"
+  >,
+): number {
+  return session.sessionCompleted
+    ? Math.max(session.userSelectedDuration, session.focusedUntilSkipped)
+    : session.focusedUntilSkipped;
+}
+
+/**
+ * Group sessions into buckets shaped like getSessionAggregates' rows,
+ * sorted by key.
+ */
+export function groupSessions(
+  sessions: Session[],
+  keyOf: (session: Session) => string,
+): SessionAggregate[] {
+  const buckets = new Map<string, SessionAggregate>();
+  sessions.forEach((s) => {
+    const key = keyOf(s);
+    const bucket = buckets.get(key) ?? {
+      key,
+      sessions: 0,
+      completedSessions: 0,
+      focusTime: 0,
+    };
+    bucket.sessions++;
+    if (s.sessionCompleted) bucket.completedSessions++;
+    bucket.focusTime += getFocusMinutes(s);
+    buckets.set(key, bucket);
+  });
+  return Array.from(buckets.values()).sort((a, b) =>
+    a.key < b.key ? -1 : a.key > b.key ? 1 : 0,
+  );
+}
+
 /**
  * Filters sessions based on a date range
  */
@@ -195,9 +243,7 @@ export function getChartData(
       let dayIndex = d.getDay() - 1;
       if (dayIndex === -1) dayIndex = 6; // Sunday is 6
 
-      dayMap[dayIndex] += s.sessionCompleted
-        ? s.userSelectedDuration
-        : s.focusedUntilSkipped;
+      dayMap[dayIndex] += getFocusMinutes(s);
     });
     values.push(...dayMap);
   } else if (timeRange === "month") {
@@ -223,14 +269,7 @@ export function getChartData(
           const d = new Date(s.createdAt || s.date);
           return d >= weekStart && d <= weekEnd;
         })
-        .reduce(
-          (acc, s) =>
-            acc +
-            (s.sessionCompleted
-              ? s.userSelectedDuration
-              : s.focusedUntilSkipped),
-          0,
-        );
+        .reduce((acc, s) => acc + getFocusMinutes(s), 0);
 
       values.push(weeklySum);
 
@@ -260,9 +299,7 @@ export function getChartData(
     rangeSessions.forEach((s) => {
       const d = new Date(s.createdAt || s.date);
       const monthIndex = d.getMonth(); // 0-11
-      monthMap[monthIndex] += s.sessionCompleted
-        ? s.userSelectedDuration
-        : s.focusedUntilSkipped;
+      monthMap[monthIndex] += getFocusMinutes(s);
     });
     values.push(...monthMap);
   }
@@ -285,6 +322,16 @@ export function filterSessionsInDateRange(
   });
 }
 
+/**
+ * YYYY-MM-DD for the user's local calendar day, matching the day
+ * boundaries getPeriodDates uses.
+ */
+export function toLocalDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
 /**
  * Get start and end dates for a specific period (week/month/year)
  * @param range TimeRange
@@ -347,20 +394,24 @@ export function getPeriodDates(
   return { startDate, endDate };
 }
 
+export interface PeriodMetrics {
+  totalFocusTime: number;
+  sessionCount: number;
+  completionRate: number;
+}
+
 /**
  * Calculate period metrics for comparison
  */
-export function calculatePeriodMetrics(sessions: Session[]) {
+export function calculatePeriodMetrics(sessions: Session[]): PeriodMetrics {
   if (sessions.length === 0) {
     return { totalFocusTime: 0, sessionCount: 0, completionRate: 0 };
   }
 
-  const totalFocusTime = sessions.reduce((acc, s) => {
-    return (
-      acc +
-      (s.sessionCompleted ? s.userSelectedDuration : s.focusedUntilSkipped)
-    );
-  }, 0);
+  const totalFocusTime = sessions.reduce(
+    (acc, s) => acc + getFocusMinutes(s),
+    0,
+  );
 
   const completionRate = calculateCompletionRate(sessions);
 
@@ -425,9 +476,7 @@ export function getHeatmapData(
     const dateKey = d.toISOString().split("T")[0];
 
     // Aggregate minutes per day
-    const duration = s.sessionCompleted
-      ? s.userSelectedDuration
-      : s.focusedUntilSkipped;
+    const duration = getFocusMinutes(s);
     data[dateKey] = (data[dateKey] || 0) + duration;
   });
 
@@ -439,82 +488,44 @@ export function getHeatmapData(
   return { data, maxMinutes };
 }
 
+export type ChartRange = "day" | "week" | "month" | "year";
+
+export interface AdaptiveChartData {
+  labels: string[];
+  values: number[];
+  maxValue: number;
+  dateRange: string;
+}
+
 /**
- * Get aggregated chart data for Adaptive Bar Chart
- * Day: 24 bars (hours)
- * Week: 7 bars (days)
- * Month: 28-31 bars (days)
- * Year: 12 bars (months)
+ * Bar labels for the Adaptive Bar Chart, one per bucket
  */
-export function getAdaptiveChartData(
-  sessions: Session[],
-  timeRange: "day" | "week" | "month" | "year",
-  offset: number = 0,
-): { labels: string[]; values: number[]; maxValue: number; dateRange: string } {
-  const { startDate, endDate } = getPeriodDates(timeRange, offset);
+export function getAdaptiveChartLabels(
+  timeRange: ChartRange,
+  startDate: Date,
+  endDate: Date,
+): string[] {
   const labels: string[] = [];
-  const values: number[] = [];
-
-  // Filter sessions in range
-  const rangeSessions = sessions.filter((s) => {
-    const d = new Date(s.createdAt || s.date);
-    return d >= startDate && d <= endDate;
-  });
-
-  const getDuration = (s: Session) =>
-    s.sessionCompleted ? s.userSelectedDuration : s.focusedUntilSkipped;
 
   if (timeRange === "day") {
     // 24 Hours
     // Labels: 00:00, 06:00, 12:00, 18:00, and 23:00 explicitly requested
     for (let i = 0; i < 24; i++) {
-      let label = "";
-      if (i % 6 === 0 || i === 23) {
-        label = `${i.toString().padStart(2, "0")}:00`;
-      }
-      labels.push(label);
-      values.push(0);
+      labels.push(
+        i % 6 === 0 || i === 23 ? `${i.toString().padStart(2, "0")}:00` : "",
+      );
     }
-
-    rangeSessions.forEach((s) => {
-      const d = new Date(s.createdAt || s.date);
-      const hour = d.getHours();
-      values[hour] += getDuration(s);
-    });
   } else if (timeRange === "week") {
-    // 7 Days
+    // 7 Days, starting Monday (startDate from getPeriodDates)
     const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-    // But we want Mon-Sun order usually?
-    // Let's stick to standard starting Mon
-    // Re-calculating start date to ensure logic matches
-
-    // We already have startDate (Mon) and endDate (Sun) from getPeriodDates
-    // So we iterate 7 days from startDate
     const current = new Date(startDate);
     for (let i = 0; i < 7; i++) {
-      const dayName = days[current.getDay()];
-      labels.push(dayName); // Mon, Tue...
-      values.push(0);
-
-      // Sum for this day
-      const dayStart = new Date(current);
-      dayStart.setHours(0, 0, 0, 0);
-      const dayEnd = new Date(current);
-      dayEnd.setHours(23, 59, 59, 999);
-
-      const dailySum = rangeSessions.reduce((acc, s) => {
-        const d = new Date(s.createdAt || s.date);
-        return d >= dayStart && d <= dayEnd ? acc + getDuration(s) : acc;
-      }, 0);
-
-      values[i] = dailySum;
+      labels.push(days[current.getDay()]);
       current.setDate(current.getDate() + 1);
     }
   } else if (timeRange === "month") {
     // Daily bars for the month
-    // 1 to 31
     const current = new Date(startDate); // 1st of month
-    const end = new Date(endDate); // Last of month
 
     // Helper to check if it's the last day of the month
     const isLastDay = (d: Date) => {
@@ -523,86 +534,169 @@ export function getAdaptiveChartData(
       return test.getDate() === 1;
     };
 
-    let index = 0;
-    while (current <= end) {
+    while (current <= endDate) {
       const dateNum = current.getDate();
       // USER REQUEST: Match explicit pattern "9/1, 9/8, 9/15, 9/23, 9/30"
       // We check for 1, 8, 15, 23 specifically, OR if it is the last day of the month.
-
       const showLabel = [1, 8, 15, 23].includes(dateNum) || isLastDay(current);
 
-      if (showLabel) {
-        labels.push(`${current.getMonth() + 1}/${dateNum}`);
-      } else {
-        // Still push empty string to maintain bar alignment
-        labels.push("");
-      }
-
-      values.push(0);
-
-      const dayStart = new Date(current);
-      dayStart.setHours(0, 0, 0, 0);
-      const dayEnd = new Date(current);
-      dayEnd.setHours(23, 59, 59, 999);
-
-      const dailySum = rangeSessions.reduce((acc, s) => {
-        const d = new Date(s.createdAt || s.date);
-        return d >= dayStart && d <= dayEnd ? acc + getDuration(s) : acc;
-      }, 0);
-
-      values[index] = dailySum; // Assign to current index
-
+      // Empty strings keep the bars aligned
+      labels.push(showLabel ? `${current.getMonth() + 1}/${dateNum}` : "");
       current.setDate(current.getDate() + 1);
-      index++;
     }
-  } else if (timeRange === "year") {
+  } else {
     // 12 Months
     // USER REQUEST: 1 to 12 instead of J to D.
-    const months = [
-      "1",
-      "2",
-      "3",
-      "4",
-      "5",
-      "6",
-      "7",
-      "8",
-      "9",
-      "10",
-      "11",
-      "12",
-    ];
-    labels.push(...months);
-    values.push(...new Array(12).fill(0));
-
-    rangeSessions.forEach((s) => {
-      const d = new Date(s.createdAt || s.date);
-      const m = d.getMonth();
-      values[m] += getDuration(s);
-    });
+    for (let m = 1; m <= 12; m++) labels.push(String(m));
   }
 
-  const maxValue = Math.max(...values, 1);
+  return labels;
+}
 
-  // Format Date Range String
-  let dateRange = "";
+/**
+ * Index of the bar a moment falls into, for a period starting at startDate
+ */
+export function getAdaptiveChartBucket(
+  timeRange: ChartRange,
+  startDate: Date,
+  date: Date,
+): number {
+  if (timeRange === "day") return date.getHours();
+  if (timeRange === "year") return date.getMonth();
+
+  // Whole calendar days since startDate; rounding absorbs DST shifts
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return Math.round((day.getTime() - startDate.getTime()) / 86400000);
+}
+
+/**
+ * Heading shown above the Adaptive Bar Chart
+ */
+export function formatChartDateRange(
+  timeRange: ChartRange,
+  startDate: Date,
+  endDate: Date,
+  offset: number,
+): string {
   if (timeRange === "day") {
-    dateRange = startDate.toLocaleDateString(undefined, {
+    let dateRange = startDate.toLocaleDateString(undefined, {
       month: "short",
       day: "numeric",
       year: "numeric",
     });
     if (offset === 1) dateRange += " (Yesterday)";
+    return dateRange;
   } else if (timeRange === "week") {
-    dateRange = `${startDate.toLocaleDateString(undefined, { month: "short", day: "numeric" })} - ${endDate.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })}`;
+    return `${startDate.toLocaleDateString(undefined, { month: "short", day: "numeric" })} - ${endDate.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })}`;
   } else if (timeRange === "month") {
-    dateRange = startDate.toLocaleDateString(undefined, {
+    return startDate.toLocaleDateString(undefined, {
       month: "long",
       year: "numeric",
     });
-  } else {
-    dateRange = startDate.getFullYear().toString();
   }
+  return startDate.getFullYear().toString();
+}
+
+/**
+ * Get aggregated chart data for Adaptive Bar Chart
+ * Day: 24 bars (hours)
+ * Week: 7 bars (days)
+ * Month: 28-31 bars (days)
+ * Year: 12 bars (months)
+ */
+export function getAdaptiveChartData(
+  sessions: Session[],
+  timeRange: ChartRange,
+  offset: number = 0,
+): AdaptiveChartData {
+  const { startDate, endDate } = getPeriodDates(timeRange, offset);
+  const labels = getAdaptiveChartLabels(timeRange, startDate, endDate);
+  const values: number[] = new Array(labels.length).fill(0);
+
+  sessions.forEach((s) => {
+    const d = new Date(s.createdAt || s.date);
+    if (d < startDate || d > endDate) return;
+    values[getAdaptiveChartBucket(timeRange, startDate, d)] +=
+      getFocusMinutes(s);
+  });
+
+  return {
+    labels,
+    values,
+    maxValue: Math.max(...values, 1),
+    dateRange: formatChartDateRange(timeRange, startDate, endDate, offset),
+  };
+}
+
+export interface SurvivalChartLine {
+  energyLevel: EnergyLevel;
+  sessionCount: number;
+  points: SurvivalPoint[];
+}
+
+/**
+ * Tasks that have sessions, most used first (for the drop-off chart picker).
+ */
+export function getSurvivalTasks(sessions: Session[]): string[] {
+  const counts = new Map<string, number>();
+  sessions.forEach((s) => {
+    if (s.taskType) counts.set(s.taskType, (counts.get(s.taskType) || 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([task]) => task);
+}
+
+/**
+ * Drop-off curves for one task, one line per focus mood, from the same
+ * observations the adaptive engine learns from.
+ */
+export function getSurvivalChartData(
+  sessions: Session[],
+  taskType: string,
+): { lines: SurvivalChartLine[]; maxMinute: number } {
+  const forTask = sessions.filter((s) => s.taskType === taskType);
+  return toSurvivalChartData({
+    low: forTask.filter((s) => s.energyLevel === "low"),
+    mid: forTask.filter((s) => s.energyLevel === "mid"),
+    high: forTask.filter((s) => s.energyLevel === "high"),
+  });
+}
 
-  return { labels, values, maxValue, dateRange };
+export type SurvivalSample = Pick<
+  Session,
+  "userSelectedDuration" | "focusedUntilSkipped" | "sessionCompleted"
+>;
+
+/**
+ * getSurvivalChartData from one task's sessions, already split by mood.
+ */
+export function toSurvivalChartData(
+  samples: Record<"low" | "mid" | "high", SurvivalSample[]>,
+): { lines: SurvivalChartLine[]; maxMinute: number } {
+  const energyLevels = ["low", "mid", "high"] as const;
+  let maxMinute = 0;
+
+  const lines = energyLevels
+    .map((energyLevel) => {
+      const observations = samples[energyLevel].map((s) =>
+        toSurvivalObservation({
+          duration: s.userSelectedDuration,
+          actualFocusTime: s.focusedUntilSkipped,
+          completed: s.sessionCompleted,
+        }),
+      );
+      observations.forEach((o) => {
+        maxMinute = Math.max(maxMinute, o.minutes);
+      });
+
+      return {
+        energyLevel,
+        sessionCount: observations.length,
+        points: estimateSurvivalCurve(observations),
+      };
+    })
+    .filter((line) => line.sessionCount > 0);
+
+  return { lines, maxMinute };
 }
@@ -0,0 +1,100 @@
+/**
+ * Recommendation Trace
+ *
+ * Turns the engine's recommendation trace into the plain-language steps
+ * shown under "Why this duration?" on the recommendation card.
+ */
+import { RecommendationTrace } from "@/services/adaptiveEngine";
+
+export interface TraceLine {
+  label: string;
+  value: string;
+}
+
+const formatMultiplier = (m: number): string => `×${m.toFixed(2)}`;
+
+/**
+ * Turn the engine's trace into plain-language steps, skipping any
+ * adjustment that didn't change the result.
+ */
+export const describeTrace = (trace: RecommendationTrace): TraceLine[] => {
+  const lines: TraceLine[] = [];
+
+  if (trace.baselineSource !== "learned") {
+    lines.push({
+      label:
+        trace.priorSource === "transferred"
+          ? `Borrowed from ${trace.priorSiblings.length} similar ${trace.priorSiblings.length === 1 ? "context" : "contexts"}`
+          : "Starting point for this mood",
+      value: `${Math.round(trace.prior)} min`,
+    });
+  }
+
+  if (trace.baselineSource === "blended" || trace.baselineSource === "learned") {
+    const rate = Math.round((trace.completionRate ?? 0) * 100);
+    lines.push({
+      label: `Your ${trace.timeOfDay ? `${trace.timeOfDay} ` : ""}average (${trace.historySize} sessions, ${rate}% completed)`,
+      value: `${Math.round(trace.ewma ?? 0)} min`,
+    });
+  }
+
+  if (trace.baselineSource === "blended") {
+    lines.push({
+      label: `Blended, ${Math.round(trace.confidence * 100)}% towards your average`,
+      value: `${Math.round(trace.baseline)} min`,
+    });
+  }
+
+  if (trace.stretchNudge > 0) {
+    lines.push({
+      label: "Stretch: you've been finishing consistently",
+      value: `+${trace.stretchNudge} min`,
+    });
+  }
+
+  // The drop-off cap applies to the baseline plus any stretch
+  const uncapped = trace.baseline + trace.stretchNudge;
+  if (trace.survivalCap !== null && trace.survivalCap < uncapped) {
+    lines.push({
+      label: `Capped at ${trace.survivalCap} min, where you usually drop off`,
+      value: `${trace.survivalCap} min`,
+    });
+  }
+
+  const { fatigue, cooldown, rest } = trace.multipliers;
+  if (fatigue < 1) {
+    lines.push({
+      label: "Already focused a lot today",
+      value: formatMultiplier(fatigue),
+    });
+  }
+  if (cooldown < 1) {
+    lines.push({
+      label: "Short rest since last session",
+      value: formatMultiplier(cooldown),
+    });
+  }
+  if (rest < 1) {
+    lines.push({
+      label: "Easing back in after days off",
+      value: formatMultiplier(rest),
+    });
+  }
+
+  if (trace.final !== trace.rounded) {
+    lines.push({
+      label:
+        trace.final === trace.cap
+          ? `Capped at ${trace.cap} min${trace.cap === 30 ? " (short sessions)" : ""}`
+          : "Raised to the 5 min minimum",
+      value: `${trace.final} min`,
+    });
+  } else if (Math.abs(trace.adjusted - trace.final) >= 0.5) {
+    lines.push({
+      label: "Rounded to the nearest 5",
+      value: `${trace.final} min`,
+    });
+  }
+
+  return lines;
+};
@@ -5,9 +5,18 @@
  * notification scheduling, session object factory, and reward calculation integration.
  */
 import { insertSession } from "@/services/database";
-import { Context } from "@/services/adaptiveEngine";
+import {
+  CoachConfig,
+  Context,
+  DEFAULT_COACH_CONFIG,
+  DEFAULT_HISTORY_DECAY,
+  getTimeOfDay,
+  HistoryDecayConfig,
+  toBreakContext,
+} from "@/services/adaptiveEngine";
 import { getSessionRecommendation } from "@/services/sessionPlanner";
-import { EnergyLevel } from "@/types";
+import { DEFAULT_STRATEGY, StrategyId } from "@/services/strategies";
+import { EnergyLevel, SessionEvent } from "@/types";
 import { createContextKey } from "@/utils/contextKey";
 import * as Notifications from "expo-notifications";
 
@@ -36,10 +45,7 @@ export function createBreakContext(
   taskType: string,
   energyLevel: EnergyLevel,
 ): Context {
-  return {
-    taskType: `${taskType}-break`,
-    energyLevel,
-  };
+  return toBreakContext({ taskType, energyLevel });
 }
 
 // ============================================================================
@@ -105,14 +111,39 @@ export function secondsToMinutes(seconds: number): number {
   return Math.round(seconds / 60);
 }
 
+/**
+ * Pauses during the focus phase of a session timeline, i.e. before its
+ * first "complete" or "skip" event. A pause still open at that point
+ * lasts until it.
+ */
+export function summarizePauses(events: SessionEvent[]): {
+  pauseCount: number;
+  pausedSeconds: number;
+} {
+  let pauseCount = 0;
+  let pausedMs = 0;
+  let pausedAt: number | null = null;
+
+  for (const event of events) {
+    const at = new Date(event.timestamp).getTime();
+    if (event.type === "pause" && pausedAt === null) {
+      pauseCount++;
+      pausedAt = at;
+    } else if (pausedAt !== null && event.type !== "pause") {
+      pausedMs += Math.max(0, at - pausedAt);
+      pausedAt = null;
+    }
+    if (event.type === "complete" || event.type === "skip") break;
+  }
+
+  return { pauseCount, pausedSeconds: Math.round(pausedMs / 1000) };
+}
+
 /**
  * Detect time of day - kept for backward compatibility with database storage.
  */
-export function detectTimeOfDay(): string {
-  const hour = new Date().getHours();
-  if (hour < 12) return "morning";
-  if (hour < 17) return "afternoon";
-  return "evening";
+export function detectTimeOfDay(date: Date = new Date()): string {
+  return getTimeOfDay(date);
 }
 
 /**
@@ -158,6 +189,11 @@ export function resetTimerState(set: any) {
     time: 0,
     initialTime: 0,
     sessionStartTimestamp: undefined,
+    accumulatedMs: 0,
+    segmentStartedAt: undefined,
+    pausedAt: undefined,
+    sessionEvents: [],
+    overtimeSeconds: 0,
   });
 }
 
@@ -170,17 +206,28 @@ export async function updateRecommendations(
   set: any,
   dynamicFocusArms: number[],
   includeShortSessions: boolean = false,
+  coachConfig: CoachConfig = DEFAULT_COACH_CONFIG,
+  strategyId: StrategyId = DEFAULT_STRATEGY,
+  timeOfDayAware: boolean = false,
+  historyDecay: HistoryDecayConfig = DEFAULT_HISTORY_DECAY,
 ) {
   try {
-    const { focusDuration, breakDuration } = await getSessionRecommendation(
-      energyLevel,
-      taskType,
-      dynamicFocusArms,
-      includeShortSessions,
-    );
+    const { focusDuration, breakDuration, trace, strategy } =
+      await getSessionRecommendation(
+        energyLevel,
+        taskType,
+        dynamicFocusArms,
+        includeShortSessions,
+        coachConfig,
+        strategyId,
+        timeOfDayAware,
+        historyDecay,
+      );
     set({
       recommendedFocusDuration: focusDuration,
       recommendedBreakDuration: breakDuration,
+      recommendationTrace: trace,
+      recommendationStrategy: strategy,
       time: focusDuration * 60,
       initialTime: focusDuration * 60,
       userAcceptedRecommendation: false,